@@ -1,10 +1,14 @@
-import { readFileSync, writeFileSync } from 'node:fs';
-import { join } from 'node:path';
+import { readFileSync, statSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
 import {
+  DEFAULT_CACHE_TTL_MINUTES,
   DEFAULT_CONCURRENCY,
   MAX_CONCURRENCY,
   MIN_CONCURRENCY,
 } from './lib/constants.js';
+import { loadConfig } from './lib/config.js';
+import { ParseError } from './lib/errors.js';
+import { parseFailOn } from './lib/policy.js';
 import type { Args, OutdatedMap, SkipFileConfig } from './lib/types.js';
 import { isVersionHigher, parseSkipEntry } from './lib/utils.js';
 function isSortBy(value: unknown): value is Args['sortBy'] {
@@ -27,25 +31,109 @@ function isOrder(value: unknown): value is Args['order'] {
 }
 
 function isFormat(value: unknown): value is Args['format'] {
-  return value === 'plain' || value === 'md';
+  return (
+    value === 'plain' ||
+    value === 'md' ||
+    value === 'json' ||
+    value === 'csv' ||
+    value === 'tsv' ||
+    value === 'sarif' ||
+    value === 'junit' ||
+    value === 'html'
+  );
+}
+
+/**
+ * Reads a boolean flag, falling back to the config value when the flag is not given.
+ * `--<flag>=false` and `--no-<flag>` turn off a flag the config enables.
+ */
+function readFlag(
+  value: string | true | undefined,
+  fallback: boolean | undefined,
+): boolean {
+  if (value === undefined) {
+    return fallback ?? false;
+  }
+  return value !== 'false';
+}
+
+/**
+ * Reads the --timeout deadline in seconds. `--no-timeout` turns off a deadline set in the
+ * config.
+ *
+ * @param value - The option value, if given.
+ * @param fallback - The config value; 0 means no deadline.
+ * @returns The deadline in seconds, or 0 for none.
+ * @throws {ParseError} If the option is given without a positive number.
+ */
+function parseTimeout(
+  value: string | true | undefined,
+  fallback: number | undefined,
+): number {
+  if (value === undefined) {
+    return Math.max(0, fallback ?? 0);
+  }
+  if (value === 'false') {
+    return 0;
+  }
+  const seconds = typeof value === 'string' ? Number(value) : NaN;
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    throw new ParseError(
+      `--timeout needs a positive number of seconds${typeof value === 'string' ? `, got '${value}'` : ''}`,
+      '--timeout',
+    );
+  }
+  return seconds;
+}
+
+/**
+ * Resolves the --cwd / --prefix value to an absolute project directory.
+ *
+ * @param value - The option value, or undefined to use process.cwd().
+ * @returns The absolute directory path.
+ * @throws {ParseError} If the directory does not exist.
+ */
+function resolveCwd(value: string | true | undefined): string {
+  if (typeof value !== 'string') {
+    return process.cwd();
+  }
+  const dir = resolve(value);
+  if (!statSync(dir, { throwIfNoEntry: false })?.isDirectory()) {
+    throw new ParseError(`Directory not found: ${dir}`, dir);
+  }
+  return dir;
 }
 
 /**
  * Parses command-line arguments into a structured Args object.
  *
  * Supports all CLI options including --check-all, --older-than, --format, --sort-by,
- * --order, --wanted, --quiet, --iso, --concurrency, and --skip.
+ * --order, --wanted, --quiet, --iso, --concurrency, --skip, --output, --fail-on, --registry, --no-cache, --refresh,
+ * --cache-ttl, --offline, --packuments, --stats, --retries, --fatal-fetch-errors, --timeout, --cwd
+ * (alias --prefix), --workspaces, --workspace, --recursive, and --config.
+ * Defaults come from the project config (see loadConfig); CLI flags take precedence, and
+ * boolean flags can be turned off with `--no-<flag>` or `--<flag>=false`. Options also
+ * accept the `--option=value` form.
  * Also loads skip packages from .outdated-plus-skip file if present.
+ * The project config and the skip file are looked up in the --cwd directory.
  *
  * @param argv - Command-line arguments array (typically process.argv).
  * @returns Parsed arguments object with all options and defaults applied.
+ * @throws {ParseError} If --fail-on contains an unknown condition, --timeout is not a
+ * positive number, the --cwd directory does not exist, --recursive is combined with --workspaces, or the config file is invalid.
  */
 export function parseArgs(argv: string[]): Args {
   const a = new Map<string, string | true>();
   for (let i = 2; i < argv.length; i += 1) {
     const k = argv[i];
     const v = argv[i + 1];
-    if (k.startsWith('--')) {
+    const eq = k.indexOf('=');
+    if (k.startsWith('--') && eq > 0) {
+      a.set(k.slice(0, eq), k.slice(eq + 1));
+    } else if (k.startsWith('--no-')) {
+      // --no-<flag> is the same as --<flag>=false
+      a.set(`--${k.slice('--no-'.length)}`, 'false');
+    } else if (k.startsWith('--')) {
       if (v && !v.startsWith('--')) {
         a.set(k, v);
         i += 1;
@@ -54,23 +142,77 @@ export function parseArgs(argv: string[]): Args {
       }
     }
   }
-  const sortByRaw = a.get('--sort-by');
+  const cwd = resolveCwd(a.get('--cwd') ?? a.get('--prefix'));
+  const configRaw = a.get('--config');
+  // Like --output, an explicit config path is relative to where the command was run
+  const config = loadConfig(
+    cwd,
+    typeof configRaw === 'string' ? resolve(configRaw) : null,
+  );
+
+  const sortByRaw = a.get('--sort-by') ?? config.sortBy;
   const sortBy = isSortBy(sortByRaw) ? sortByRaw : 'published_latest';
-  const orderRaw = a.get('--order');
+  const orderRaw = a.get('--order') ?? config.order;
   const order = isOrder(orderRaw) ? orderRaw : 'desc';
-  const formatRaw = a.get('--format');
+  const formatRaw = a.get('--format') ?? config.format;
   const format = isFormat(formatRaw) ? formatRaw : 'plain';
-  const concurrencyRaw = Number(a.get('--concurrency') ?? DEFAULT_CONCURRENCY);
+  const concurrencyRaw = Number(
+    a.get('--concurrency') ?? config.concurrency ?? DEFAULT_CONCURRENCY,
+  );
   const concurrency = Number.isNaN(concurrencyRaw)
     ? DEFAULT_CONCURRENCY
     : Math.min(MAX_CONCURRENCY, Math.max(MIN_CONCURRENCY, concurrencyRaw));
-  const olderThanRaw = Number(a.get('--older-than') ?? 0);
+  const olderThanRaw = Number(a.get('--older-than') ?? config.olderThan ?? 0);
   const olderThan = Number.isNaN(olderThanRaw) ? 0 : Math.max(0, olderThanRaw);
-  const showAll = Boolean(a.get('--show-all'));
-  const showWanted = Boolean(a.get('--wanted'));
-  const quiet = Boolean(a.get('--quiet'));
-  const checkAll = Boolean(a.get('--check-all'));
-  const iso = Boolean(a.get('--iso'));
+  const showAll = readFlag(a.get('--show-all'), config.showAll);
+  const showWanted = readFlag(a.get('--wanted'), config.showWanted);
+  const quiet = readFlag(a.get('--quiet'), config.quiet);
+  const checkAll = readFlag(a.get('--check-all'), config.checkAll);
+  const iso = readFlag(a.get('--iso'), config.iso);
+  const outputRaw = a.get('--output') ?? config.output;
+  const output = typeof outputRaw === 'string' ? outputRaw : null;
+  const failOnRaw = a.get('--fail-on') ?? config.failOn?.join(',');
+  const failOn = typeof failOnRaw === 'string' ? parseFailOn(failOnRaw) : [];
+  const registryRaw = a.get('--registry') ?? config.registry;
+  const registry = typeof registryRaw === 'string' ? registryRaw : null;
+  const cache = readFlag(a.get('--cache'), config.cache ?? true);
+  const refresh = readFlag(a.get('--refresh'), config.refresh);
+  const cacheTtlRaw = Number(
+    a.get('--cache-ttl') ?? config.cacheTtl ?? DEFAULT_CACHE_TTL_MINUTES,
+  );
+  const cacheTtl = Number.isNaN(cacheTtlRaw)
+    ? DEFAULT_CACHE_TTL_MINUTES
+    : Math.max(0, cacheTtlRaw);
+  const packumentsRaw = a.get('--packuments') ?? config.packuments;
+  const packuments = typeof packumentsRaw === 'string' ? packumentsRaw : null;
+  const offline = readFlag(a.get('--offline'), config.offline);
+  const stats = readFlag(a.get('--stats'), config.stats);
+  const retriesRaw = Number(a.get('--retries') ?? config.retries);
+  const retries = Number.isNaN(retriesRaw)
+    ? null
+    : Math.max(0, Math.floor(retriesRaw));
+  const timeout = parseTimeout(a.get('--timeout'), config.timeout);
+  const fatalFetchErrors = readFlag(
+    a.get('--fatal-fetch-errors'),
+    config.fatalFetchErrors,
+  );
+  const workspaceRaw = a.get('--workspace') ?? config.workspace?.join(',');
+  const workspace =
+    typeof workspaceRaw === 'string'
+      ? workspaceRaw
+          .split(',')
+          .map((w) => w.trim())
+          .filter(Boolean)
+      : [];
+  const workspaces =
+    workspace.length > 0 || readFlag(a.get('--workspaces'), config.workspaces);
+  const recursive = readFlag(a.get('--recursive'), config.recursive);
+  if (recursive && workspaces) {
+    // Workspaces are found as projects of their own by --recursive
+    throw new ParseError(
+      '--recursive cannot be combined with --workspaces or --workspace',
+    );
+  }
   // Parse skip packages from command line
   const skipPackages: string[] = [];
   const skipValue = a.get('--skip');
@@ -84,7 +226,7 @@ export function parseArgs(argv: string[]): Args {
   let skipFilePath: string | null = null;
 
   try {
-    const defaultSkipFile = join(process.cwd(), '.outdated-plus-skip');
+    const defaultSkipFile = join(cwd, '.outdated-plus-skip');
     const content = readFileSync(defaultSkipFile, 'utf-8');
     skipConfig = JSON.parse(content);
     fileSkipPackages = skipConfig?.packages || [];
@@ -99,6 +241,11 @@ export function parseArgs(argv: string[]): Args {
       : sortBy === 'published'
         ? 'published_latest'
         : sortBy;
+  // Skip entries from the config are combined with --skip, but never written to the skip file
+  const configSkipPackages = (config.skip ?? []).filter(
+    (entry) => !skipPackages.includes(entry),
+  );
+
   return {
     olderThan,
     showAll,
@@ -110,10 +257,27 @@ export function parseArgs(argv: string[]): Args {
     sortBy: normalizedSort,
     order,
     format,
-    skip: [...skipPackages, ...fileSkipPackages],
+    skip: [...skipPackages, ...configSkipPackages, ...fileSkipPackages],
+    output,
+    failOn,
+    registry,
+    cache,
+    refresh,
+    cacheTtl,
+    offline,
+    packuments,
+    stats,
+    retries,
+    fatalFetchErrors,
+    timeout,
+    workspaces,
+    workspace,
+    recursive,
+    cwd,
     _skipConfig: skipConfig,
     _skipFilePath: skipFilePath,
     _commandLineSkips: skipPackages,
+    _configSkips: configSkipPackages,
   };
 }
 
@@ -125,18 +289,19 @@ export function parseArgs(argv: string[]): Args {
  * @param skipConfig - Current skip configuration, or null if file doesn't exist.
  * @param skipFilePath - Path to the skip file, or null to use default.
  * @param commandLineSkips - Array of skip entries from command line.
+ * @param cwd - Directory of the default skip file.
  */
 export function addSkipEntriesToFile(
   skipConfig: SkipFileConfig | null,
   skipFilePath: string | null,
   commandLineSkips: string[],
+  cwd = process.cwd(),
 ): void {
   if (commandLineSkips.length === 0) {
     return;
   }
 
-  const defaultSkipFile =
-    skipFilePath || join(process.cwd(), '.outdated-plus-skip');
+  const defaultSkipFile = skipFilePath || join(cwd, '.outdated-plus-skip');
 
   // Create default config if none exists
   const config: SkipFileConfig = skipConfig || {
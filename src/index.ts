@@ -7,45 +7,200 @@
 
 import { spawn } from 'node:child_process';
 import { readFileSync } from 'node:fs';
-import { join } from 'node:path';
+import { join, posix } from 'node:path';
 import {
   addSkipEntriesToFile,
   cleanupAndSaveSkipFile,
   parseArgs,
 } from './args.js';
-import { fetchWithConcurrency, META_FALLBACK } from './lib/concurrency.js';
+import { authorizationFor } from './lib/auth.js';
 import {
+  clearCache,
+  getCacheDir,
+  isCacheFresh,
+  readCacheEntry,
+  writeCacheEntry,
+} from './lib/cache.js';
+import { createRunSignal } from './lib/cancel.js';
+import {
+  AdaptiveConcurrency,
+  fetchOutcomesWithConcurrency,
+  META_FALLBACK,
+} from './lib/concurrency.js';
+import {
+  ABBREVIATED_METADATA_ACCEPT,
+  DEFAULT_CACHE_TTL_MINUTES,
+  DEFAULT_CONCURRENCY,
+  EXIT_ERROR,
+  EXIT_INTERRUPTED,
+  EXIT_POLICY_VIOLATION,
+  EXIT_SUCCESS,
   HTTP_REQUEST_TIMEOUT_MS,
+  MS_PER_MINUTE,
   NODE_MODULES_REGEX,
-  NPM_REGISTRY,
 } from './lib/constants.js';
-import { formatError, NetworkError, RegistryError } from './lib/errors.js';
-import { printMarkdown, printPlain, printSkippedInfo } from './lib/output.js';
-import { buildRows, sortRows } from './lib/processing.js';
-import type { Meta, OutdatedMap } from './lib/types.js';
+import {
+  CancelledError,
+  formatError,
+  isCancelledPackage,
+  NetworkError,
+  PackageJsonError,
+  RegistryError,
+  toUnresolvedPackage,
+  UnresolvedPackagesError,
+} from './lib/errors.js';
+import { writeFileAtomic } from './lib/files.js';
+import {
+  bunInstalledVersions,
+  detectPackageManager,
+  findLockfile,
+  outdatedCommand,
+  parseOutdatedOutput,
+  pnpmInstalledVersions,
+  yarnInstalledVersions,
+} from './lib/lockfiles.js';
+import {
+  consoleSink,
+  createStringSink,
+  isMachineReadableFormat,
+  printDelimited,
+  printHtml,
+  printJson,
+  printJunit,
+  printMarkdown,
+  printPlain,
+  printOfflineMissingInfo,
+  printSarif,
+  printSkippedInfo,
+  printUnresolved,
+  printVersionMismatches,
+  stderrSink,
+} from './lib/output.js';
+import { loadNpmrc } from './lib/npmrc.js';
+import { loadOfflineMetas, type OfflineSources } from './lib/offline.js';
+import { evaluateFailOn, formatViolations } from './lib/policy.js';
+import {
+  buildProjectRows,
+  buildRows,
+  buildWorkspaceRows,
+  findProjectSkippedPackages,
+  findSkippedPackages,
+  findWorkspaceSkippedPackages,
+  mergeOutdatedMaps,
+  sortRows,
+} from './lib/processing.js';
+import {
+  findLockfileDir,
+  findProjects,
+  findVersionMismatches,
+  projectOutdated,
+} from './lib/projects.js';
+import { httpRequest } from './lib/request.js';
+import { type PackumentBody, readPackumentBody } from './lib/packument.js';
+import {
+  DEFAULT_REGISTRY_CONFIG,
+  getRegistryConfig,
+  packumentUrl,
+} from './lib/registry.js';
+import { isThrottled, parseRetryAfter, withRetries } from './lib/retry.js';
+import {
+  createFetchStats,
+  type FetchStats,
+  formatFetchStats,
+  recordDownload,
+} from './lib/stats.js';
+import type {
+  Args,
+  CacheEntry,
+  CacheOptions,
+  CacheValidators,
+  CheckOptions,
+  CheckResult,
+  HttpResponse,
+  Meta,
+  MetaFetchOptions,
+  MissingPackage,
+  OutdatedMap,
+  PackageManager,
+  OutputSink,
+  Project,
+  ProjectResult,
+  RegistryConfig,
+  Row,
+  SkippedPackage,
+  SkipSources,
+  UnresolvedPackage,
+  UpToDatePackage,
+  VersionMismatch,
+  Workspace,
+  WorkspaceResult,
+} from './lib/types.js';
 import {
   extractLatestVersion,
   extractTimeMap,
   isOutdatedMap,
   isValidNpmRegistryResponse,
-  parseSkipEntry,
-  shouldSkipPackage,
 } from './lib/utils.js';
+import {
+  findWorkspaces,
+  selectWorkspaces,
+  splitOutdatedByWorkspace,
+} from './lib/workspaces.js';
+
+// Library API (see checkOutdated): errors and types of its options and result
+export {
+  CancelledError,
+  NetworkError,
+  OutdatedPlusError,
+  PackageJsonError,
+  ParseError,
+  RegistryError,
+  TlsError,
+} from './lib/errors.js';
+export type { FetchStats } from './lib/stats.js';
+export type {
+  BumpType,
+  CheckOptions,
+  CheckResult,
+  Meta,
+  OutdatedEntry,
+  OutdatedMap,
+  PackageManager,
+  Project,
+  ProjectResult,
+  Row,
+  SkippedPackage,
+  UnresolvedPackage,
+  VersionMismatch,
+  Workspace,
+  WorkspaceResult,
+} from './lib/types.js';
 
 /**
  * Spawns a command and returns its JSON output.
  *
  * @param cmd - The command to execute (e.g., 'npm').
  * @param args - Array of command-line arguments.
+ * @param options - Working directory, and a signal that kills the command when aborted.
  * @returns Promise that resolves to the parsed JSON output, or an empty object if parsing fails.
  */
-export function spawnJson(cmd: string, args: string[]): Promise<unknown> {
+export function spawnJson(
+  cmd: string,
+  args: string[],
+  options: { cwd?: string; signal?: AbortSignal } = {},
+): Promise<unknown> {
   return new Promise((resolve) => {
-    const child = spawn(cmd, args, { stdio: ['ignore', 'pipe', 'ignore'] });
+    const child = spawn(cmd, args, {
+      stdio: ['ignore', 'pipe', 'ignore'],
+      cwd: options.cwd,
+      signal: options.signal,
+    });
     let out = '';
     child.stdout.on('data', (c) => {
       out += String(c);
     });
+    // Spawn failures and aborts are followed by 'close' (if the process started)
+    child.on('error', () => resolve({}));
     child.on('close', () => {
       try {
         resolve(out.trim() ? JSON.parse(out) : {});
@@ -61,15 +216,26 @@ export function spawnJson(cmd: string, args: string[]): Promise<unknown> {
  *
  * @param cmd - The command to execute (e.g., 'npm').
  * @param args - Array of command-line arguments.
- * @returns Promise that resolves to the trimmed text output.
+ * @param options - Working directory, and a signal that kills the command when aborted.
+ * @returns Promise that resolves to the trimmed text output, or an empty string if the
+ * command cannot be started.
  */
-export function spawnText(cmd: string, args: string[]): Promise<string> {
+export function spawnText(
+  cmd: string,
+  args: string[],
+  options: { cwd?: string; signal?: AbortSignal } = {},
+): Promise<string> {
   return new Promise((resolve) => {
-    const child = spawn(cmd, args, { stdio: ['ignore', 'pipe', 'ignore'] });
+    const child = spawn(cmd, args, {
+      stdio: ['ignore', 'pipe', 'ignore'],
+      cwd: options.cwd,
+      signal: options.signal,
+    });
     let out = '';
     child.stdout.on('data', (c) => {
       out += String(c);
     });
+    child.on('error', () => resolve(''));
     child.on('close', () => {
       resolve(out.trim());
     });
@@ -77,56 +243,85 @@ export function spawnText(cmd: string, args: string[]): Promise<string> {
 }
 
 /**
- * Fetches package metadata from the npm registry via HTTP.
+ * Sends a packument request and streams the response body. Failed requests are not
+ * retried here; see withRetries.
  *
- * @param pkg - The package name to fetch metadata for.
- * @returns Promise that resolves to package metadata containing latest version and time map.
- * @throws {RegistryError} If the package is not found (404) or the response format is invalid.
+ * @param pkg - The package name (for error messages).
+ * @param url - The packument URL.
+ * @param headers - Request headers.
+ * @param registries - Registries with proxy and TLS settings.
+ * @param signal - Cancels the request; it then fails with the abort reason.
+ * @returns The parsed body, or null if the registry answered 304 Not Modified.
+ * @throws {RegistryError} If the package is not found (404).
  * @throws {NetworkError} If the HTTP request fails, times out, or returns a non-OK status.
  */
-export async function fetchPackageMeta(pkg: string): Promise<Meta> {
-  const url = `${NPM_REGISTRY}/${encodeURIComponent(pkg)}`;
-
+async function requestPackument(
+  pkg: string,
+  url: string,
+  headers: Record<string, string>,
+  registries: RegistryConfig,
+  signal?: AbortSignal,
+): Promise<{ response: HttpResponse; body: PackumentBody | null }> {
+  signal?.throwIfAborted();
   const controller = new AbortController();
   const timeoutId = setTimeout(
     () => controller.abort(),
     HTTP_REQUEST_TIMEOUT_MS,
   );
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
 
   try {
-    const response = await fetch(url, {
-      headers: {
-        Accept: 'application/json',
-      },
+    const response = await httpRequest(url, {
+      headers,
       signal: controller.signal,
+      proxy: registries.proxy,
+      tls: registries.tls,
     });
 
+    if (response.status === 304) {
+      return { response, body: null };
+    }
+
     if (!response.ok) {
       if (response.status === 404) {
         throw new RegistryError(`Package not found`, pkg);
       }
+      if (response.status === 401 || response.status === 403) {
+        throw new NetworkError(
+          headers.Authorization
+            ? 'Registry rejected the configured credentials'
+            : 'Registry requires authentication (configure a token in .npmrc)',
+          url,
+          response.status,
+        );
+      }
+      const retryAfter = parseRetryAfter(
+        response.headers?.get('retry-after') ?? null,
+      );
       throw new NetworkError(
-        `Failed to fetch package metadata`,
+        response.status === 429
+          ? 'Registry rate limit exceeded'
+          : `Failed to fetch package metadata`,
         url,
         response.status,
+        undefined,
+        retryAfter ?? undefined,
       );
     }
 
-    const data: unknown = await response.json();
-
-    if (!isValidNpmRegistryResponse(data)) {
-      throw new RegistryError('Invalid registry response format', pkg);
-    }
-
-    const latest = extractLatestVersion(data);
-    const timeMap = extractTimeMap(data);
-
-    return { latest, timeMap };
+    return { response, body: await readPackumentBody(response) };
   } catch (error) {
+    signal?.throwIfAborted();
+
     if (error instanceof NetworkError || error instanceof RegistryError) {
       throw error;
     }
 
+    if (error instanceof SyntaxError) {
+      throw new RegistryError('Invalid registry response format', pkg);
+    }
+
     if (error instanceof Error && error.name === 'AbortError') {
       throw new NetworkError('Request timeout', url);
     }
@@ -137,6 +332,261 @@ export async function fetchPackageMeta(pkg: string): Promise<Meta> {
     );
   } finally {
     clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Merges an abbreviated document into the cached metadata.
+ *
+ * Abbreviated documents usually have no `time` field, but publication dates never
+ * change, so the cached dates are still valid. They are only insufficient when a version
+ * was published since the cache entry was written.
+ *
+ * @param body - The abbreviated document.
+ * @param cachedMeta - The cached metadata.
+ * @returns The metadata with the new `latest`, and whether it has the publication dates
+ * of all versions; null if the document is invalid.
+ */
+function mergeAbbreviated(
+  body: PackumentBody,
+  cachedMeta: Meta,
+): { meta: Meta; complete: boolean } | null {
+  if (!body.data || !isValidNpmRegistryResponse(body.data)) {
+    return null;
+  }
+  const latest = extractLatestVersion(body.data);
+  const timeMap = { ...cachedMeta.timeMap, ...extractTimeMap(body.data) };
+  const needed = body.versions.length > 0 ? body.versions : [latest];
+  return {
+    meta: { latest, timeMap },
+    complete: needed.every((version) => version in timeMap),
+  };
+}
+
+/**
+ * Builds the conditional request headers for cached validators.
+ */
+function conditionalHeaders(
+  validators: CacheValidators | undefined,
+): Record<string, string> {
+  return {
+    ...(validators?.etag ? { 'If-None-Match': validators.etag } : {}),
+    ...(validators?.lastModified
+      ? { 'If-Modified-Since': validators.lastModified }
+      : {}),
+  };
+}
+
+function responseValidators(response: HttpResponse): CacheValidators {
+  return {
+    etag: response.headers.get('etag'),
+    lastModified: response.headers.get('last-modified'),
+  };
+}
+
+/**
+ * Fetches package metadata from the npm registry via HTTP.
+ *
+ * Without a cache entry the full packument is downloaded, since only it carries
+ * publication dates; it is streamed so that only `dist-tags` and `time` are kept.
+ * Stale cache entries are revalidated with the much smaller abbreviated metadata, and the
+ * full packument is only downloaded again if new versions were published. Validators are
+ * stored per representation, so each request only revalidates the document it asks for.
+ *
+ * @param pkg - The package name to fetch metadata for.
+ * @param registries - Registries to query; scoped packages use their scope registry if configured.
+ * @param cache - Metadata cache settings, or null to always fetch. Fresh entries are returned
+ * without a request; stale ones are revalidated with If-None-Match / If-Modified-Since.
+ * Timeouts, connection failures and 408/429/5xx responses are retried with backoff (see
+ * withRetries). Every throttled response lowers the concurrency limit, whether or not it
+ * is retried.
+ *
+ * @param stats - Counters for --stats, or null.
+ * @param limiter - Concurrency limit to lower when the registry throttles, or null.
+ * @param signal - Cancels in-flight requests and pending retries.
+ * @returns Promise that resolves to package metadata containing latest version and time map.
+ * @throws {RegistryError} If the package is not found (404) or the response format is invalid.
+ * @throws {NetworkError} If the HTTP request fails, times out, or returns a non-OK status
+ * after all retries.
+ * @throws {CancelledError} (the abort reason) If the signal is aborted.
+ */
+export async function fetchPackageMeta(
+  pkg: string,
+  registries: RegistryConfig = DEFAULT_REGISTRY_CONFIG,
+  cache: CacheOptions | null = null,
+  stats: FetchStats | null = null,
+  limiter: AdaptiveConcurrency | null = null,
+  signal?: AbortSignal,
+): Promise<Meta> {
+  const url = packumentUrl(pkg, registries);
+  const authorization = authorizationFor(url, registries.credentials);
+  const authHeaders: Record<string, string> = authorization
+    ? { Authorization: authorization }
+    : {};
+  if (stats) {
+    stats.packages += 1;
+  }
+  const request = (headers: Record<string, string>) =>
+    withRetries(
+      () =>
+        requestPackument(pkg, url, headers, registries, signal).catch(
+          (error: unknown) => {
+            // Also when the response is not retried (--retries 0, long Retry-After)
+            if (isThrottled(error)) {
+              limiter?.throttled();
+            }
+            throw error;
+          },
+        ),
+      registries.retry,
+      (error) => {
+        if (stats) {
+          stats.retries += 1;
+          stats.throttled += isThrottled(error) ? 1 : 0;
+        }
+      },
+      signal,
+    );
+
+  const cached =
+    cache && !cache.refresh ? readCacheEntry(cache.dir, url) : null;
+  if (cached && cache && isCacheFresh(cached, cache.ttlMs)) {
+    if (stats) {
+      stats.cacheHits += 1;
+      stats.savedBytes += cached.bytes ?? 0;
+    }
+    return cached.meta;
+  }
+
+  const reuseCached = (entry: CacheEntry, started: number) => {
+    if (stats) {
+      stats.notModified += 1;
+      stats.requestMs += Date.now() - started;
+      stats.savedBytes += entry.bytes ?? 0;
+    }
+    if (cache) {
+      writeCacheEntry(cache.dir, entry);
+    }
+    return entry.meta;
+  };
+
+  // Without a cached time map the full packument is needed anyway, so only stale
+  // entries are revalidated with the abbreviated metadata first
+  let validators = cached?.validators;
+  let merged: Meta | null = null;
+  if (cached) {
+    const abbreviatedStarted = Date.now();
+    const abbreviated = await request({
+      Accept: ABBREVIATED_METADATA_ACCEPT,
+      ...authHeaders,
+      ...conditionalHeaders(cached.validators?.abbreviated),
+    });
+    limiter?.succeeded();
+    if (!abbreviated.body) {
+      return reuseCached(
+        { ...cached, fetchedAt: Date.now() },
+        abbreviatedStarted,
+      );
+    }
+    if (stats) {
+      recordDownload(
+        stats,
+        true,
+        abbreviated.body,
+        Date.now() - abbreviatedStarted,
+      );
+    }
+
+    validators = {
+      ...cached.validators,
+      abbreviated: responseValidators(abbreviated.response),
+    };
+    const result = mergeAbbreviated(abbreviated.body, cached.meta);
+    if (result?.complete) {
+      if (stats) {
+        stats.savedBytes += Math.max(
+          0,
+          (cached.bytes ?? 0) - abbreviated.body.bytes,
+        );
+      }
+      if (cache) {
+        writeCacheEntry(cache.dir, {
+          url,
+          fetchedAt: Date.now(),
+          validators,
+          meta: result.meta,
+          bytes: cached.bytes,
+        });
+      }
+      return result.meta;
+    }
+    merged = result?.meta ?? null;
+  }
+
+  // Publication dates are missing: only the full packument has them
+  const started = Date.now();
+  const { response, body } = await request({
+    Accept: 'application/json',
+    ...authHeaders,
+    ...conditionalHeaders(cached?.validators?.full),
+  });
+  limiter?.succeeded();
+  if (!body) {
+    if (!cached) {
+      // 304 without conditional headers: treat like any other unexpected status
+      throw new NetworkError(
+        `Failed to fetch package metadata`,
+        url,
+        response.status,
+      );
+    }
+    // The dates are unchanged, but `latest` comes from the newer abbreviated document
+    return reuseCached(
+      {
+        ...cached,
+        fetchedAt: Date.now(),
+        validators,
+        meta: merged ?? cached.meta,
+      },
+      started,
+    );
+  }
+  if (stats) {
+    recordDownload(stats, false, body, Date.now() - started);
+  }
+
+  if (!body.data || !isValidNpmRegistryResponse(body.data)) {
+    throw new RegistryError('Invalid registry response format', pkg);
+  }
+
+  const latest = extractLatestVersion(body.data);
+  const timeMap = extractTimeMap(body.data);
+
+  if (cache) {
+    writeCacheEntry(cache.dir, {
+      url,
+      fetchedAt: Date.now(),
+      validators: { ...validators, full: responseValidators(response) },
+      meta: { latest, timeMap },
+      bytes: body.bytes,
+    });
+  }
+
+  return { latest, timeMap };
+}
+
+/**
+ * Reads the raw content of package.json.
+ *
+ * @param cwd - The current working directory where package.json should be located.
+ * @returns The file content, or an empty string if the file cannot be read.
+ */
+export function readPackageJsonContent(cwd: string): string {
+  try {
+    return readFileSync(join(cwd, 'package.json'), 'utf-8');
+  } catch {
+    return '';
   }
 }
 
@@ -163,6 +613,31 @@ export function readPackageJson(cwd: string): {
   }
 }
 
+/**
+ * Checks that a project directory has a package.json with a JSON object in it.
+ *
+ * @param cwd - The project directory.
+ * @throws {PackageJsonError} If package.json is missing, unreadable or invalid.
+ */
+function assertPackageJson(cwd: string): void {
+  const path = join(cwd, 'package.json');
+  let content: string;
+  try {
+    content = readFileSync(path, 'utf-8');
+  } catch {
+    throw new PackageJsonError(`Cannot read ${path}`);
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    data = null;
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new PackageJsonError(`Invalid JSON object in ${path}`);
+  }
+}
+
 function hasStringVersion(
   value: unknown,
 ): value is Record<string, unknown> & { version: string } {
@@ -176,29 +651,67 @@ function hasStringVersion(
 }
 
 /**
- * Reads package-lock.json and extracts installed package versions.
+ * Reads the lockfile and extracts installed package versions.
+ *
+ * With package-lock.json, only packages a workspace can require directly are included:
+ * those installed in its own node_modules (nested install), then those hoisted to the root
+ * node_modules. Packages nested inside other packages or other workspaces are ignored.
+ * With pnpm-lock.yaml, the dependencies of the workspace's importer are read (see
+ * pnpmInstalledVersions). With yarn.lock, the ranges in the workspace's package.json are
+ * looked up (see yarnInstalledVersions). With bun.lock, the workspace's entry is read (see
+ * bunInstalledVersions).
  *
- * @param cwd - The current working directory where package-lock.json should be located.
+ * @param cwd - The current working directory where the lockfile should be located.
+ * @param workspacePath - Workspace directory relative to cwd, or '' for the root package.
  * @returns Record mapping package names to their installed versions. Returns empty object if file cannot be read or parsed.
  */
-export function getInstalledVersions(cwd: string): Record<string, string> {
+export function getInstalledVersions(
+  cwd: string,
+  workspacePath = '',
+): Record<string, string> {
   try {
+    const lockfile = findLockfile(cwd)?.file;
+    if (lockfile === 'pnpm-lock.yaml') {
+      return pnpmInstalledVersions(
+        readFileSync(join(cwd, lockfile), 'utf-8'),
+        workspacePath,
+      );
+    }
+    if (lockfile === 'bun.lock') {
+      return bunInstalledVersions(
+        readFileSync(join(cwd, lockfile), 'utf-8'),
+        workspacePath,
+      );
+    }
+    if (lockfile === 'yarn.lock') {
+      const { dependencies, devDependencies } = readPackageJson(
+        join(cwd, workspacePath),
+      );
+      return yarnInstalledVersions(readFileSync(join(cwd, lockfile), 'utf-8'), {
+        ...dependencies,
+        ...devDependencies,
+      });
+    }
     const lockPath = join(cwd, 'package-lock.json');
     const content = readFileSync(lockPath, 'utf-8');
     const data = JSON.parse(content);
     const versions: Record<string, string> = {};
 
     if (data.packages && typeof data.packages === 'object') {
+      const nested: Record<string, string> = {};
       for (const [key, value] of Object.entries(data.packages)) {
-        if (key === '') {
+        const match = key.match(NODE_MODULES_REGEX);
+        if (!match || !hasStringVersion(value)) {
           continue;
         }
-        const match = key.match(NODE_MODULES_REGEX);
-        if (match && hasStringVersion(value)) {
-          const pkgName = match[1];
+        const [, location = '', pkgName] = match;
+        if (location === '') {
           versions[pkgName] = value.version;
+        } else if (workspacePath !== '' && location === workspacePath) {
+          nested[pkgName] = value.version;
         }
       }
+      Object.assign(versions, nested);
     } else if (data.dependencies && typeof data.dependencies === 'object') {
       for (const [name, value] of Object.entries(data.dependencies)) {
         if (hasStringVersion(value)) {
@@ -220,15 +733,19 @@ export function getInstalledVersions(cwd: string): Record<string, string> {
  * from the npm registry, and compares installed versions with latest versions to determine
  * which packages are outdated.
  *
- * @param quiet - If true, suppresses progress bar output.
- * @param concurrency - Maximum number of concurrent HTTP requests (1-100).
- * @returns Promise that resolves to an object containing the outdated map and metadata for all packages.
+ * @param cwd - The project directory.
+ * @param options - Registries, cache, concurrency and cancellation for the lookups.
+ * @returns Promise that resolves to an object containing the outdated map, metadata for all
+ * packages, and the packages whose metadata could not be fetched.
  */
 export async function buildOutdatedMapViaHTTP(
-  quiet: boolean,
-  concurrency: number,
-): Promise<{ outdated: OutdatedMap; metas: Record<string, Meta> }> {
-  const cwd = process.cwd();
+  cwd: string,
+  options: MetaFetchOptions,
+): Promise<{
+  outdated: OutdatedMap;
+  metas: Record<string, Meta>;
+  unresolved: UnresolvedPackage[];
+}> {
   const { dependencies, devDependencies } = readPackageJson(cwd);
   const installedVersions = getInstalledVersions(cwd);
 
@@ -236,23 +753,78 @@ export async function buildOutdatedMapViaHTTP(
   const pkgNames = Object.keys(allDeps);
 
   if (pkgNames.length === 0) {
-    return { outdated: {}, metas: {} };
+    return { outdated: {}, metas: {}, unresolved: [] };
   }
 
-  const pb = new ProgressBar(pkgNames.length, quiet);
+  const { metas, unresolved } = await fetchMetas(pkgNames, options);
+
+  return {
+    outdated: compareWithLatest(pkgNames, installedVersions, metas),
+    metas,
+    unresolved,
+  };
+}
+
+/**
+ * Fetches registry metadata for packages.
+ *
+ * Packages whose metadata cannot be fetched get META_FALLBACK, so their rows still show
+ * versions, and are returned as unresolved with the formatted error. When the signal is
+ * aborted, packages that were not checked yet are unresolved with the CANCELLED code.
+ *
+ * @param pkgs - Package names to fetch.
+ * @param options - Registries, cache, concurrency and cancellation for the lookups. The
+ * concurrency limit is lowered while the registry throttles.
+ * @returns Promise that resolves to the metadata and the unresolved packages.
+ */
+async function fetchMetas(
+  pkgs: string[],
+  options: MetaFetchOptions,
+): Promise<{ metas: Record<string, Meta>; unresolved: UnresolvedPackage[] }> {
+  const { registries, cache, stats, signal, onProgress } = options;
+  const limiter = new AdaptiveConcurrency(options.concurrency);
+  let done = 0;
 
-  // Fetch metadata with concurrency limit
-  const metas = await fetchWithConcurrency<Meta>(
-    pkgNames,
-    fetchPackageMeta,
-    () => pb.update(1),
-    META_FALLBACK,
-    concurrency,
+  const outcomes = await fetchOutcomesWithConcurrency<Meta>(
+    pkgs,
+    (pkg) => fetchPackageMeta(pkg, registries, cache, stats, limiter, signal),
+    () => {
+      done += 1;
+      onProgress?.(done, pkgs.length);
+    },
+    limiter,
+    signal,
   );
 
-  pb.finish();
+  const metas: Record<string, Meta> = {};
+  const unresolved: UnresolvedPackage[] = [];
+  // Keep the package order, not the completion order
+  for (const pkg of pkgs) {
+    const outcome = outcomes[pkg];
+    if (outcome.ok) {
+      metas[pkg] = outcome.value;
+    } else {
+      metas[pkg] = META_FALLBACK;
+      unresolved.push(toUnresolvedPackage(pkg, outcome.error));
+    }
+  }
+  return { metas, unresolved };
+}
 
-  // Build outdated map from fetched metadata
+/**
+ * Builds the outdated map by comparing installed versions with the latest versions.
+ * Wanted is set to latest, because version ranges are not resolved in this mode.
+ *
+ * @param pkgNames - Package names to compare.
+ * @param installedVersions - Installed versions from package-lock.json.
+ * @param metas - Registry metadata by package name.
+ * @returns The outdated map.
+ */
+function compareWithLatest(
+  pkgNames: string[],
+  installedVersions: Record<string, string>,
+  metas: Record<string, Meta>,
+): OutdatedMap {
   const outdated: OutdatedMap = {};
   for (const pkgName of pkgNames) {
     const meta = metas[pkgName];
@@ -273,7 +845,282 @@ export async function buildOutdatedMapViaHTTP(
     }
   }
 
-  return { outdated, metas };
+  return outdated;
+}
+
+/**
+ * Builds an outdated package map without network access (--offline mode).
+ *
+ * Like --check-all, every dependency from package.json is compared with the installed
+ * version from package-lock.json, but metadata comes from an imported packument
+ * directory or the cache of earlier online runs.
+ *
+ * @param cwd - The project directory.
+ * @param sources - Where to look for locally stored metadata.
+ * @returns The outdated map, metadata, and packages without local metadata.
+ */
+export function buildOutdatedMapOffline(
+  cwd: string,
+  sources: OfflineSources,
+): {
+  outdated: OutdatedMap;
+  metas: Record<string, Meta>;
+  missing: string[];
+} {
+  const { dependencies, devDependencies } = readPackageJson(cwd);
+  const installedVersions = getInstalledVersions(cwd);
+  const pkgNames = Object.keys({ ...dependencies, ...devDependencies });
+
+  const { metas, missing } = loadOfflineMetas(pkgNames, sources);
+  return {
+    outdated: compareWithLatest(pkgNames, installedVersions, metas),
+    metas,
+    missing,
+  };
+}
+
+/**
+ * Checks the workspaces of an npm workspaces project (--workspaces / --workspace).
+ *
+ * Each workspace is compared with the installed versions it resolves (see
+ * getInstalledVersions), but registry metadata is looked up once for the dependencies of
+ * all workspaces. Dependencies on other workspaces are not checked. In standard mode a
+ * single `npm outdated` (or `yarn outdated`) run covers all workspaces; with other
+ * package managers they are compared with the latest versions as in --check-all.
+ *
+ * @param cwd - The project root.
+ * @param workspaces - The workspaces to check.
+ * @param options - The check options (mode and registry).
+ * @param fetchOptions - Registries, cache, concurrency and cancellation for the lookups.
+ * @param sources - Where to look for locally stored metadata (offline mode).
+ * @returns The per-workspace results, shared metadata, and packages whose metadata could
+ * not be fetched or found locally.
+ */
+async function checkWorkspaces(
+  cwd: string,
+  workspaces: Workspace[],
+  options: CheckOptions,
+  fetchOptions: MetaFetchOptions,
+  sources: OfflineSources,
+): Promise<{
+  results: WorkspaceResult[];
+  metas: Record<string, Meta>;
+  unresolved: UnresolvedPackage[];
+  missing: string[];
+}> {
+  let results: WorkspaceResult[];
+  const standard = standardModeCommand(
+    cwd,
+    options,
+    workspaces.map((ws) => ws.path),
+  );
+  if (standard) {
+    const outdatedRaw = await spawnOutdated(cwd, standard, options.signal);
+    const byWorkspace = splitOutdatedByWorkspace(outdatedRaw, workspaces);
+    results = workspaces.map((ws) => ({
+      ...ws,
+      outdated: byWorkspace[ws.name],
+      packages: Object.keys(byWorkspace[ws.name]),
+    }));
+  } else {
+    const workspaceNames = new Set(findWorkspaces(cwd).map((ws) => ws.name));
+    results = workspaces.map((ws) => {
+      const { dependencies, devDependencies } = readPackageJson(ws.dir);
+      return {
+        ...ws,
+        outdated: {},
+        packages: Object.keys({ ...dependencies, ...devDependencies }).filter(
+          (pkg) => !workspaceNames.has(pkg),
+        ),
+      };
+    });
+  }
+
+  const { metas, unresolved, missing } = await lookupMetas(
+    [...new Set(results.flatMap((ws) => ws.packages))],
+    options,
+    fetchOptions,
+    sources,
+  );
+
+  if (!standard) {
+    for (const ws of results) {
+      ws.outdated = compareWithLatest(
+        ws.packages,
+        getInstalledVersions(cwd, ws.path),
+        metas,
+      );
+    }
+  }
+  return { results, metas, unresolved, missing };
+}
+
+/**
+ * Looks up the metadata of the packages of several workspaces or projects in one pass:
+ * from local sources in offline mode, otherwise from the registry.
+ *
+ * @param pkgNames - Package names, without duplicates.
+ * @param options - The check options (mode).
+ * @param fetchOptions - Registries, cache, concurrency and cancellation for the lookups.
+ * @param sources - Where to look for locally stored metadata (offline mode).
+ * @returns The metadata, and packages whose metadata could not be fetched or found locally.
+ */
+async function lookupMetas(
+  pkgNames: string[],
+  options: CheckOptions,
+  fetchOptions: MetaFetchOptions,
+  sources: OfflineSources,
+): Promise<{
+  metas: Record<string, Meta>;
+  unresolved: UnresolvedPackage[];
+  missing: string[];
+}> {
+  if (options.offline) {
+    return { ...loadOfflineMetas(pkgNames, sources), unresolved: [] };
+  }
+  if (pkgNames.length === 0) {
+    return { metas: {}, unresolved: [], missing: [] };
+  }
+  return { ...(await fetchMetas(pkgNames, fetchOptions)), missing: [] };
+}
+
+/**
+ * Picks the outdated command of a project in standard mode (see outdatedCommand).
+ *
+ * @param dir - The directory of the project's lockfile.
+ * @param options - The check options (mode and registry).
+ * @param workspaces - Paths of the workspaces to check, if any.
+ * @returns The package manager and its command, or null if installed versions are
+ * compared with the latest versions instead (--check-all, --offline, or a package
+ * manager without a suitable command).
+ */
+function standardModeCommand(
+  dir: string,
+  options: CheckOptions,
+  workspaces: string[] = [],
+): { manager: PackageManager; command: [string, string[]] } | null {
+  if (options.offline || options.checkAll) {
+    return null;
+  }
+  const manager = detectPackageManager(dir);
+  const command = outdatedCommand(manager, options.registry, workspaces);
+  return command && { manager, command };
+}
+
+/**
+ * Runs an outdated command in a directory (standard mode).
+ *
+ * @param dir - The directory to run in.
+ * @param standard - The package manager and its command (see standardModeCommand).
+ * @param signal - Kills the command when aborted.
+ * @returns The parsed output (see parseOutdatedOutput).
+ * @throws {CancelledError} (the abort reason) If the signal is aborted meanwhile.
+ */
+async function spawnOutdated(
+  dir: string,
+  standard: { manager: PackageManager; command: [string, string[]] },
+  signal?: AbortSignal,
+): Promise<unknown> {
+  const [cmd, cmdArgs] = standard.command;
+  const output = await spawnText(cmd, cmdArgs, { cwd: dir, signal });
+  signal?.throwIfAborted();
+  return parseOutdatedOutput(standard.manager, output);
+}
+
+/**
+ * Checks the projects found below a directory (--recursive).
+ *
+ * Each project is checked like a single project, with the installed versions from its own
+ * lockfile or that of the workspaces root above it (see findLockfileDir). Registry
+ * metadata is looked up once for the dependencies of all projects, and dependencies on
+ * other projects of the tree are not checked. In standard mode the outdated command of the
+ * project's package manager runs in each project in turn; projects whose package manager
+ * has none are compared with the latest versions as in --check-all.
+ *
+ * @param cwd - The directory that was searched.
+ * @param projects - The projects to check.
+ * @param options - The check options (mode and registry).
+ * @param fetchOptions - Registries, cache, concurrency and cancellation for the lookups.
+ * @param sources - Where to look for locally stored metadata (offline mode).
+ * @returns The per-project results, shared metadata, packages whose metadata could not be
+ * fetched or found locally, and the dependencies installed in different versions.
+ */
+async function checkProjects(
+  cwd: string,
+  projects: Project[],
+  options: CheckOptions,
+  fetchOptions: MetaFetchOptions,
+  sources: OfflineSources,
+): Promise<{
+  results: ProjectResult[];
+  metas: Record<string, Meta>;
+  unresolved: UnresolvedPackage[];
+  missing: string[];
+  mismatches: VersionMismatch[];
+}> {
+  const projectNames = new Set(projects.map((p) => p.name));
+  const results: ProjectResult[] = [];
+  const compared = new Set<ProjectResult>();
+  for (const project of projects) {
+    const { dependencies, devDependencies } = readPackageJson(project.dir);
+    const declared = Object.keys({ ...dependencies, ...devDependencies });
+    const lockDir = findLockfileDir(cwd, project.path);
+    const installedVersions = getInstalledVersions(
+      join(cwd, lockDir),
+      posix.relative(lockDir, project.path),
+    );
+    const installed: Record<string, string> = {};
+    for (const pkg of declared) {
+      if (installedVersions[pkg] !== undefined) {
+        installed[pkg] = installedVersions[pkg];
+      }
+    }
+
+    const standard = standardModeCommand(join(cwd, lockDir), options);
+    let outdated: OutdatedMap = {};
+    if (standard) {
+      const outdatedRaw = await spawnOutdated(
+        project.dir,
+        standard,
+        options.signal,
+      );
+      outdated = projectOutdated(outdatedRaw, project);
+    }
+    const result: ProjectResult = {
+      ...project,
+      outdated,
+      packages: standard
+        ? Object.keys(outdated)
+        : declared.filter((pkg) => !projectNames.has(pkg)),
+      installed,
+    };
+    results.push(result);
+    if (!standard) {
+      compared.add(result);
+    }
+  }
+
+  const { metas, unresolved, missing } = await lookupMetas(
+    [...new Set(results.flatMap((p) => p.packages))],
+    options,
+    fetchOptions,
+    sources,
+  );
+
+  for (const project of compared) {
+    project.outdated = compareWithLatest(
+      project.packages,
+      project.installed,
+      metas,
+    );
+  }
+  return {
+    results,
+    metas,
+    unresolved,
+    missing,
+    mismatches: findVersionMismatches(results, metas),
+  };
 }
 
 /**
@@ -327,10 +1174,14 @@ export class ProgressBar {
 
 /**
  * Gets the total count of installed packages.
+ *
+ * @param cwd - The project directory.
  */
-export async function getPackageCount(): Promise<number> {
+export async function getPackageCount(cwd = process.cwd()): Promise<number> {
   try {
-    const output = await spawnText('npm', ['list', '--depth=0', '--json']);
+    const output = await spawnText('npm', ['list', '--depth=0', '--json'], {
+      cwd,
+    });
     const data = JSON.parse(output);
     return Object.keys(data.dependencies || {}).length;
   } catch {
@@ -350,95 +1201,698 @@ export function printUpToDateMessage(
   }
 }
 
+/**
+ * Reads the package.json files that SARIF results point at: the root one, and those of
+ * the workspaces and projects in the report. Keys are paths relative to the project root.
+ */
+function sarifPackageJsons(rows: Row[], cwd: string): Record<string, string> {
+  const contents: Record<string, string> = {
+    'package.json': readPackageJsonContent(cwd),
+  };
+  for (const r of rows) {
+    if (r._package_dir !== undefined && r._package_dir !== '.') {
+      contents[`${r._package_dir}/package.json`] ??= readPackageJsonContent(
+        join(cwd, r._package_dir),
+      );
+    }
+  }
+  return contents;
+}
+
+/**
+ * Renders the rows in the requested output format into a sink.
+ */
+function renderReport(
+  rows: Row[],
+  args: Args,
+  skipped: SkippedPackage[],
+  upToDate: UpToDatePackage[],
+  missing: MissingPackage[],
+  unresolved: UnresolvedPackage[],
+  mismatches: VersionMismatch[],
+  sink: OutputSink,
+) {
+  switch (args.format) {
+    case 'md':
+      printMarkdown(rows, args.showWanted, sink);
+      printUnresolved(unresolved, args.format, sink);
+      printVersionMismatches(mismatches, args.format, sink);
+      break;
+    case 'json':
+      printJson(rows, skipped, unresolved, mismatches, missing, sink);
+      break;
+    case 'csv':
+    case 'tsv':
+      printDelimited(
+        rows,
+        args.showWanted,
+        args.format === 'csv' ? ',' : '\t',
+        sink,
+      );
+      // A second table would break spreadsheet imports
+      printOfflineMissingInfo(
+        [...new Set(missing.map((m) => m.name))],
+        'plain',
+        stderrSink,
+      );
+      printUnresolved(unresolved, 'plain', stderrSink);
+      printVersionMismatches(mismatches, 'plain', stderrSink);
+      break;
+    case 'sarif':
+      printSarif(
+        rows,
+        sarifPackageJsons(rows, args.cwd),
+        unresolved,
+        missing,
+        sink,
+      );
+      break;
+    case 'junit':
+      printJunit(
+        rows,
+        { olderThan: args.olderThan, skipped, upToDate, missing, unresolved },
+        sink,
+      );
+      break;
+    case 'html':
+      printHtml(
+        rows,
+        {
+          showWanted: args.showWanted,
+          sortBy: args.sortBy,
+          order: args.order,
+          skipped,
+          unresolved,
+          missing,
+          mismatches,
+        },
+        sink,
+      );
+      break;
+    default:
+      if (rows.length > 0) {
+        printPlain(rows, args.showWanted, sink);
+      }
+      printUnresolved(unresolved, args.format, sink);
+      printVersionMismatches(mismatches, args.format, sink);
+  }
+}
+
+/**
+ * Writes the report to the --output file, or prints it to the console.
+ */
+function emitReport(
+  rows: Row[],
+  args: Args,
+  skipped: SkippedPackage[],
+  upToDate: UpToDatePackage[] = [],
+  missing: MissingPackage[] = [],
+  unresolved: UnresolvedPackage[] = [],
+  mismatches: VersionMismatch[] = [],
+) {
+  if (args.output === null) {
+    renderReport(
+      rows,
+      args,
+      skipped,
+      upToDate,
+      missing,
+      unresolved,
+      mismatches,
+      consoleSink,
+    );
+    return;
+  }
+  const sink = createStringSink();
+  renderReport(
+    rows,
+    args,
+    skipped,
+    upToDate,
+    missing,
+    unresolved,
+    mismatches,
+    sink,
+  );
+  writeFileAtomic(args.output, sink.toString());
+}
+
+/**
+ * Checks whether info messages may be printed to the console.
+ * They must not end up inside a machine-readable report on stdout.
+ */
+function printsDiagnostics(args: Args): boolean {
+  return (
+    !args.quiet &&
+    (args.output !== null || !isMachineReadableFormat(args.format))
+  );
+}
+
+/**
+ * Counts the packages for the "up to date" message: the installed dependencies of every
+ * project with --recursive, otherwise those of the project (see getPackageCount).
+ */
+async function checkedPackageCount(
+  args: Args,
+  result: CheckResult,
+): Promise<number> {
+  return result.projects.length > 0
+    ? result.projects.reduce(
+        (sum, p) => sum + Object.keys(p.installed).length,
+        0,
+      )
+    : getPackageCount(args.cwd);
+}
+
+/**
+ * Reports that no outdated packages were found.
+ * Machine-readable formats and --output still get an (empty) report.
+ */
+async function reportUpToDate(args: Args, result: CheckResult): Promise<void> {
+  if (args.output !== null || isMachineReadableFormat(args.format)) {
+    emitReport([], args, [], findUpToDatePackages(result, [], [], args.cwd));
+  }
+  if (printsDiagnostics(args)) {
+    const packageCount = await checkedPackageCount(args, result);
+    printUpToDateMessage(packageCount, args.quiet);
+  }
+}
+
+/**
+ * Builds the metadata cache settings from the check options.
+ *
+ * @param options - Check options (cache, refresh, cacheTtl).
+ * @returns Cache settings, or null if the cache is disabled.
+ */
+function cacheOptions(options: CheckOptions): CacheOptions | null {
+  if (options.cache === false) {
+    return null;
+  }
+  return {
+    dir: getCacheDir(),
+    ttlMs: (options.cacheTtl ?? DEFAULT_CACHE_TTL_MINUTES) * MS_PER_MINUTE,
+    refresh: options.refresh ?? false,
+  };
+}
+
+/**
+ * Builds the registry configuration from the project's .npmrc and the check options.
+ *
+ * @param cwd - The project directory.
+ * @param options - Check options; `registry` and `retries` override .npmrc.
+ * @returns The registry configuration.
+ * @throws {TlsError} If the configured cafile cannot be read.
+ */
+function registryOptions(cwd: string, options: CheckOptions): RegistryConfig {
+  const registries = getRegistryConfig(
+    loadNpmrc(cwd),
+    options.registry ?? null,
+  );
+  if (options.retries === undefined || options.retries === null) {
+    return registries;
+  }
+  return {
+    ...registries,
+    retry: { ...registries.retry, retries: options.retries },
+  };
+}
+
+/**
+ * Maps the parsed CLI arguments to checkOutdated options.
+ */
+function checkOptions(args: Args): CheckOptions {
+  return {
+    cwd: args.cwd,
+    checkAll: args.checkAll,
+    offline: args.offline,
+    packuments: args.packuments,
+    olderThan: args.olderThan,
+    showAll: args.showAll,
+    skip: args.skip,
+    iso: args.iso,
+    sortBy: args.sortBy,
+    order: args.order,
+    registry: args.registry,
+    concurrency: args.concurrency,
+    retries: args.retries,
+    cache: args.cache,
+    refresh: args.refresh,
+    cacheTtl: args.cacheTtl,
+    workspaces: args.workspaces,
+    workspace: args.workspace,
+    recursive: args.recursive,
+  };
+}
+
+/**
+ * Checks a project for outdated dependencies. This is the library entry point; the CLI
+ * is built on top of it.
+ *
+ * Unlike the CLI it has no side effects besides the metadata cache: nothing is printed,
+ * config files and the skip file are neither read nor written, and process.cwd() is
+ * only used when `cwd` is omitted. Failed registry lookups are returned as unresolved
+ * packages instead of being thrown. When the signal is aborted during the lookups, the
+ * partial result is returned with `incomplete` set.
+ *
+ * @example
+ * const { rows, unresolved } = await checkOutdated({ cwd: 'packages/app', checkAll: true });
+ *
+ * @param options - What to check and how; omitted options use the CLI defaults.
+ * @returns Promise that resolves to the rows, metadata and errors of the check.
+ * @throws {PackageJsonError} If the package.json in `cwd` is missing or invalid (not
+ * checked with `recursive`, where `cwd` only needs to contain projects), or a workspace
+ * filter matches no workspace.
+ * @throws {CancelledError} (the abort reason) If the signal is aborted while the outdated
+ * command of the package manager runs.
+ */
+export async function checkOutdated(
+  options: CheckOptions = {},
+): Promise<CheckResult> {
+  const cwd = options.cwd ?? process.cwd();
+  const recursive = options.recursive ?? false;
+  if (!recursive) {
+    // Tell a wrong cwd apart from a project without dependencies
+    assertPackageJson(cwd);
+  }
+  const registries = registryOptions(cwd, options);
+  const cache = cacheOptions(options);
+  const stats = createFetchStats();
+  const fetchOptions: MetaFetchOptions = {
+    concurrency: options.concurrency ?? DEFAULT_CONCURRENCY,
+    registries,
+    cache,
+    stats,
+    signal: options.signal,
+    onProgress: options.onProgress,
+  };
+
+  const sources: OfflineSources = {
+    registries,
+    cacheDir: cache?.dir ?? null,
+    packumentDir: options.packuments ?? null,
+  };
+  const workspaces =
+    !recursive && (options.workspaces || (options.workspace?.length ?? 0) > 0)
+      ? selectWorkspaces(findWorkspaces(cwd), options.workspace ?? [])
+      : null;
+
+  let outdated: OutdatedMap = {};
+  let metas: Record<string, Meta> = {};
+  let unresolved: UnresolvedPackage[] = [];
+  let missing: string[] = [];
+  let workspaceResults: WorkspaceResult[] = [];
+  let projectResults: ProjectResult[] = [];
+  let mismatches: VersionMismatch[] = [];
+
+  if (recursive) {
+    // Recursive: check each project below cwd, with one metadata lookup for all of them
+    ({
+      results: projectResults,
+      metas,
+      unresolved,
+      missing,
+      mismatches,
+    } = await checkProjects(
+      cwd,
+      findProjects(cwd),
+      options,
+      fetchOptions,
+      sources,
+    ));
+    outdated = mergeOutdatedMaps(projectResults);
+  } else if (workspaces) {
+    // Workspaces: check each workspace, with one metadata lookup for all of them
+    ({
+      results: workspaceResults,
+      metas,
+      unresolved,
+      missing,
+    } = await checkWorkspaces(cwd, workspaces, options, fetchOptions, sources));
+    outdated = mergeOutdatedMaps(workspaceResults);
+  } else if (options.offline) {
+    // Offline mode: Use locally stored metadata only
+    ({ outdated, metas, missing } = buildOutdatedMapOffline(cwd, sources));
+  } else {
+    const standard = standardModeCommand(cwd, options);
+    if (standard) {
+      // Standard mode: Use the package manager's outdated command, and the HTTP API only
+      // for timestamps
+      const outdatedRaw = await spawnOutdated(cwd, standard, options.signal);
+      if (isOutdatedMap(outdatedRaw) && Object.keys(outdatedRaw).length > 0) {
+        outdated = outdatedRaw;
+        ({ metas, unresolved } = await fetchMetas(
+          Object.keys(outdated),
+          fetchOptions,
+        ));
+      }
+    } else {
+      // Check-all mode, or a package manager without a usable outdated command (Yarn 2+,
+      // Bun): Use HTTP to check all packages
+      ({ outdated, metas, unresolved } = await buildOutdatedMapViaHTTP(
+        cwd,
+        fetchOptions,
+      ));
+    }
+  }
+
+  const skip = options.skip ?? [];
+  const skipSources: SkipSources = { commandLine: skip, config: [] };
+  const showAll = options.showAll ?? false;
+  const olderThan = Math.max(0, options.olderThan ?? 0);
+  const iso = options.iso ?? false;
+  const sortBy = options.sortBy ?? 'published_latest';
+  const order = options.order ?? 'desc';
+
+  return {
+    rows: recursive
+      ? buildProjectRows(
+          projectResults,
+          metas,
+          showAll,
+          olderThan,
+          iso,
+          skip,
+          sortBy,
+          order,
+        )
+      : workspaces
+        ? buildWorkspaceRows(
+            workspaceResults,
+            metas,
+            showAll,
+            olderThan,
+            iso,
+            skip,
+            sortBy,
+            order,
+          )
+        : sortRows(
+            buildRows(outdated, metas, showAll, olderThan, iso, skip),
+            sortBy,
+            order,
+          ),
+    outdated,
+    metas,
+    skipped: recursive
+      ? findProjectSkippedPackages(projectResults, skip, skipSources)
+      : workspaces
+        ? findWorkspaceSkippedPackages(workspaceResults, skip, skipSources)
+        : findSkippedPackages(outdated, skip, skipSources),
+    unresolved,
+    missing,
+    incomplete: unresolved.some(isCancelledPackage),
+    stats,
+    workspaces: workspaceResults,
+    projects: projectResults,
+    mismatches,
+  };
+}
+
+/**
+ * Lists the packages checked for each project or workspace, or for the single project
+ * when neither were checked. May contain duplicates and dependencies on other
+ * workspaces or projects.
+ *
+ * In standard mode only outdated packages are looked up, so the other dependencies in
+ * package.json are added.
+ */
+function checkedPackageGroups(
+  result: CheckResult,
+  cwd: string,
+): { group: Omit<UpToDatePackage, 'name'>; packages: string[] }[] {
+  const declared = (dir: string) => {
+    const { dependencies, devDependencies } = readPackageJson(dir);
+    return Object.keys({ ...dependencies, ...devDependencies });
+  };
+  if (result.projects.length > 0) {
+    return result.projects.map((p) => ({
+      group: { project: p.path },
+      packages: [...Object.keys(p.outdated), ...p.packages, ...declared(p.dir)],
+    }));
+  }
+  if (result.workspaces.length > 0) {
+    return result.workspaces.map((ws) => ({
+      group: { workspace: ws.name },
+      packages: [
+        ...Object.keys(ws.outdated),
+        ...ws.packages,
+        ...declared(ws.dir),
+      ],
+    }));
+  }
+  return [
+    {
+      group: {},
+      packages: [
+        ...Object.keys(result.outdated),
+        ...Object.keys(result.metas),
+        ...declared(cwd),
+      ],
+    },
+  ];
+}
+
+/**
+ * Lists the checked packages that are neither reported as outdated, skipped,
+ * unresolved nor missing local metadata (per project or workspace when those were
+ * checked). Dependencies on other workspaces or projects are not checked.
+ */
+function findUpToDatePackages(
+  result: CheckResult,
+  reportRows: Row[],
+  skipped: SkippedPackage[],
+  cwd: string,
+): UpToDatePackage[] {
+  const unchecked = new Set([
+    ...result.unresolved.map((u) => u.name),
+    ...result.missing,
+    ...result.projects.map((p) => p.name),
+    ...(result.workspaces.length > 0
+      ? findWorkspaces(cwd).map((ws) => ws.name)
+      : []),
+  ]);
+
+  return checkedPackageGroups(result, cwd).flatMap(({ group, packages }) => {
+    const reported = new Set([
+      ...reportRows
+        .filter(
+          (r) => r.Project === group.project && r.Workspace === group.workspace,
+        )
+        .map((r) => r.Package),
+      ...skipped
+        .filter(
+          (s) => s.project === group.project && s.workspace === group.workspace,
+        )
+        .map((s) => s.name),
+    ]);
+    return [...new Set(packages)]
+      .filter((pkg) => !reported.has(pkg) && !unchecked.has(pkg))
+      .map((name) => ({ name, ...group }));
+  });
+}
+
+/**
+ * Lists the packages without local metadata (offline mode) per project or workspace
+ * that depends on them.
+ */
+function findMissingPackages(
+  result: CheckResult,
+  cwd: string,
+): MissingPackage[] {
+  if (result.missing.length === 0) {
+    return [];
+  }
+  const missing = new Set(result.missing);
+  return checkedPackageGroups(result, cwd).flatMap(({ group, packages }) =>
+    [...new Set(packages)]
+      .filter((pkg) => missing.has(pkg))
+      .map((name) => ({ name, ...group })),
+  );
+}
+
+/**
+ * Lists the unresolved packages per project or workspace that depends on them, for the
+ * testsuites of the JUnit report. Metadata is looked up once for all of them, so a
+ * package shared by several projects or workspaces is listed for each.
+ */
+function groupUnresolvedPackages(
+  result: CheckResult,
+  cwd: string,
+): UnresolvedPackage[] {
+  if (
+    result.unresolved.length === 0 ||
+    (result.projects.length === 0 && result.workspaces.length === 0)
+  ) {
+    return result.unresolved;
+  }
+  return checkedPackageGroups(result, cwd).flatMap(({ group, packages }) => {
+    const names = new Set(packages);
+    return result.unresolved
+      .filter((u) => names.has(u.name))
+      .map((u) => ({ ...u, ...group }));
+  });
+}
+
+/**
+ * Runs the `cache` subcommand (currently only `cache clean`).
+ *
+ * @param subcommand - The subcommand name.
+ * @returns Exit code.
+ */
+function runCacheCommand(subcommand: string | undefined): number {
+  if (subcommand !== 'clean') {
+    console.error(
+      `Unknown cache command '${subcommand ?? ''}' (expected: cache clean)`,
+    );
+    return EXIT_ERROR;
+  }
+  const dir = getCacheDir();
+  const removed = clearCache(dir);
+  console.log(`Removed ${removed} cached package(s) from ${dir}`);
+  return EXIT_SUCCESS;
+}
+
 /**
  * Main entry point for the outdated-plus CLI tool.
  *
  * This function orchestrates the entire workflow:
  * 1. Parses command-line arguments
- * 2. Detects outdated packages (via npm outdated or HTTP)
- * 3. Fetches package metadata from npm registry
- * 4. Builds, filters, and sorts the results
+ * 2. Runs checkOutdated: detects outdated packages (via npm outdated or HTTP), fetches
+ *    package metadata from the npm registry, and builds, filters, and sorts the rows
+ * 3. Updates the skip file
+ * 4. Prints diagnostics to the terminal
  * 5. Outputs the results in the requested format
+ * 6. Evaluates --fail-on rules against the reported rows
+ *
+ * `outdated-plus cache clean` removes the metadata cache instead.
  *
- * @returns Promise that resolves to exit code (0 for success, 1 for error).
+ * @returns Promise that resolves to exit code (0 for success, 1 for error, 2 for a --fail-on policy violation,
+ * 130 if interrupted with Ctrl-C).
  */
 export async function run(): Promise<number> {
-  const args = parseArgs(process.argv);
+  const [command, subcommand] = process.argv.slice(2);
+  if (command === 'cache') {
+    return runCacheCommand(subcommand);
+  }
 
+  let args: Args;
   try {
-    let outdated: OutdatedMap;
-    let metas: Record<string, Meta>;
-
-    if (args.checkAll) {
-      // --check-all mode: Use HTTP to check all packages
-      const result = await buildOutdatedMapViaHTTP(
-        args.quiet,
-        args.concurrency,
-      );
-      outdated = result.outdated;
-      metas = result.metas;
-    } else {
-      // Standard mode: Use npm outdated
-      const outdatedRaw = await spawnJson('npm', ['outdated', '--json']);
-      if (
-        !outdatedRaw ||
-        typeof outdatedRaw !== 'object' ||
-        Object.keys(outdatedRaw).length === 0
-      ) {
-        const packageCount = await getPackageCount();
-        printUpToDateMessage(packageCount, args.quiet);
-        return 0;
-      }
-
-      if (!isOutdatedMap(outdatedRaw)) {
-        const packageCount = await getPackageCount();
-        printUpToDateMessage(packageCount, args.quiet);
-        return 0;
-      }
+    args = parseArgs(process.argv);
+  } catch (error) {
+    console.error(formatError(error));
+    return EXIT_ERROR;
+  }
 
-      outdated = outdatedRaw;
-      const pkgs = Object.keys(outdated);
-      const pb = new ProgressBar(pkgs.length, args.quiet);
-
-      // Fetch metadata with concurrency limit (HTTP API only for timestamps)
-      metas = await fetchWithConcurrency<Meta>(
-        pkgs,
-        fetchPackageMeta,
-        () => pb.update(1),
-        META_FALLBACK,
-        args.concurrency,
-      );
+  const { signal, dispose } = createRunSignal(args.timeout);
+  try {
+    const started = Date.now();
+    let progress: ProgressBar | undefined;
+    let result: CheckResult;
+    try {
+      result = await checkOutdated({
+        ...checkOptions(args),
+        signal,
+        onProgress: (_done, total) => {
+          progress ??= new ProgressBar(total, args.quiet);
+          progress.update(1);
+        },
+      });
+    } finally {
+      progress?.finish();
+    }
+    const { outdated, metas, unresolved, mismatches } = result;
 
-      pb.finish();
+    if (
+      !args.offline &&
+      !args.checkAll &&
+      Object.keys(outdated).length === 0 &&
+      mismatches.length === 0 &&
+      unresolved.length === 0 &&
+      !signal.aborted
+    ) {
+      // Standard mode: the package manager's outdated command found nothing, or (Yarn 2+,
+      // Bun) every package was looked up over HTTP and is up to date. Failed or cancelled
+      // lookups go through the full report below, so --fatal-fetch-errors and the
+      // cancellation exit code apply
+      await reportUpToDate(args, result);
+      return EXIT_SUCCESS;
+    }
+    // CSV and TSV reports print the list to stderr themselves
+    if (
+      args.offline &&
+      printsDiagnostics(args) &&
+      args.format !== 'csv' &&
+      args.format !== 'tsv'
+    ) {
+      printOfflineMissingInfo(result.missing, args.format);
+    }
+    if (args.stats) {
+      console.error(formatFetchStats(result.stats, Date.now() - started));
+    }
+    const failed = unresolved.filter((u) => !isCancelledPackage(u));
+    if (args.fatalFetchErrors && failed.length > 0) {
+      throw new UnresolvedPackagesError(failed);
     }
 
-    // 3) Build, sort, print
-    let rows = buildRows(
-      outdated,
-      metas,
-      args.showAll,
-      Math.max(0, args.olderThan),
-      args.iso,
-      args.skip,
+    const { rows } = result;
+    const byProject = result.projects.length > 0;
+    const byWorkspace = result.workspaces.length > 0;
+    // JUnit reports every checked dependency and fails those past the cutoff
+    const reportRows =
+      args.format !== 'junit'
+        ? rows
+        : byProject
+          ? buildProjectRows(
+              result.projects,
+              metas,
+              true,
+              0,
+              args.iso,
+              args.skip,
+              args.sortBy,
+              args.order,
+            )
+          : byWorkspace
+            ? buildWorkspaceRows(
+                result.workspaces,
+                metas,
+                true,
+                0,
+                args.iso,
+                args.skip,
+                args.sortBy,
+                args.order,
+              )
+            : sortRows(
+                buildRows(outdated, metas, true, 0, args.iso, args.skip),
+                args.sortBy,
+                args.order,
+              );
+
+    const skipSources: SkipSources = {
+      commandLine: args._commandLineSkips ?? [],
+      config: args._configSkips ?? [],
+      fileReason: args._skipConfig?.reason,
+    };
+    const skipped = byProject
+      ? findProjectSkippedPackages(result.projects, args.skip, skipSources)
+      : byWorkspace
+        ? findWorkspaceSkippedPackages(
+            result.workspaces,
+            args.skip,
+            skipSources,
+          )
+        : findSkippedPackages(outdated, args.skip, skipSources);
+    const upToDate = findUpToDatePackages(
+      result,
+      reportRows,
+      skipped,
+      args.cwd,
     );
 
-    // Show skipped packages info (unless quiet mode)
-    if (!args.quiet) {
-      const skippedPackages = args.skip.filter((entry) => {
-        const { package: pkg } = parseSkipEntry(entry);
-        const info = outdated[pkg];
-        if (!info) {
-          return false;
-        }
-        return shouldSkipPackage(
-          pkg,
-          info.current,
-          info.wanted,
-          info.latest,
-          args.skip,
-        );
-      });
-      printSkippedInfo(skippedPackages, args.format);
+    // Show skipped packages info (unless quiet mode or machine-readable output)
+    if (printsDiagnostics(args)) {
+      printSkippedInfo([...new Set(skipped.map((s) => s.entry))], args.format);
     }
 
     // Add command line skip entries to file
@@ -446,40 +1900,74 @@ export async function run(): Promise<number> {
       args._skipConfig ?? null,
       args._skipFilePath ?? null,
       args._commandLineSkips ?? [],
+      args.cwd,
     );
 
-    // Auto-cleanup skip file
-    cleanupAndSaveSkipFile(
-      args._skipConfig ?? null,
-      args._skipFilePath ?? null,
-      outdated,
-    );
+    // Auto-cleanup skip file (not when some packages could not be checked, since they
+    // would look up to date)
+    if (unresolved.length === 0) {
+      cleanupAndSaveSkipFile(
+        args._skipConfig ?? null,
+        args._skipFilePath ?? null,
+        outdated,
+      );
+    }
 
     if (rows.length === 0) {
       // Only show "up to date" message if no filtering was applied
       const hasFiltering = args.olderThan > 0 || args.skip.length > 0;
-      if (!hasFiltering) {
-        const packageCount = await getPackageCount();
+      if (
+        !hasFiltering &&
+        unresolved.length === 0 &&
+        result.missing.length === 0 &&
+        printsDiagnostics(args)
+      ) {
+        const packageCount = await checkedPackageCount(args, result);
         printUpToDateMessage(packageCount, args.quiet);
       }
-      return 0;
+      if (
+        args.output === null &&
+        !isMachineReadableFormat(args.format) &&
+        unresolved.length === 0 &&
+        mismatches.length === 0
+      ) {
+        return EXIT_SUCCESS;
+      }
     }
 
-    rows = sortRows(rows, args.sortBy, args.order);
+    emitReport(
+      reportRows,
+      args,
+      skipped,
+      upToDate,
+      findMissingPackages(result, args.cwd),
+      // JUnit groups the testcases per workspace or project
+      args.format === 'junit'
+        ? groupUnresolvedPackages(result, args.cwd)
+        : unresolved,
+      mismatches,
+    );
+
+    // The partial report has been printed; end with the cancellation error
+    signal.throwIfAborted();
 
-    switch (args.format) {
-      case 'md':
-        printMarkdown(rows, args.showWanted);
-        break;
-      default:
-        printPlain(rows, args.showWanted);
+    const violations = evaluateFailOn(rows, args.failOn);
+    if (violations.length > 0) {
+      if (!args.quiet) {
+        console.error(formatViolations(violations));
+      }
+      return EXIT_POLICY_VIOLATION;
     }
-    return 0;
+    return EXIT_SUCCESS;
   } catch (error) {
     if (!args.quiet) {
       console.error(formatError(error));
     }
-    return 1;
+    return error instanceof CancelledError && error.reason === 'interrupt'
+      ? EXIT_INTERRUPTED
+      : EXIT_ERROR;
+  } finally {
+    dispose();
   }
 }
 
@@ -488,6 +1976,6 @@ if (require.main === module) {
     .then((code) => process.exit(code))
     .catch((err) => {
       console.error(formatError(err));
-      process.exit(1);
+      process.exit(EXIT_ERROR);
     });
 }
@@ -0,0 +1,119 @@
+import type { NpmrcSettings } from './types.js';
+
+const CREDENTIAL_KEY = /^(\/\/.+\/):(_authToken|_auth|username|_password)$/;
+
+/**
+ * Converts a URL to npm's "nerf dart" form used to key credentials in .npmrc.
+ *
+ * The protocol and file name are dropped, e.g. `https://npm.acme.dev/api/pkg`
+ * becomes `//npm.acme.dev/api/`.
+ *
+ * @param url - The URL to convert.
+ * @returns The nerf dart, always ending with a slash.
+ */
+export function nerfDart(url: string): string {
+  const parsed = new URL('.', url);
+  return `//${parsed.host}${parsed.pathname}`;
+}
+
+function toAuthorization(fields: Record<string, string>): string | null {
+  if (fields._authToken) {
+    return `Bearer ${fields._authToken}`;
+  }
+  if (fields._auth) {
+    return `Basic ${fields._auth}`;
+  }
+  if (fields.username && fields._password) {
+    const password = Buffer.from(fields._password, 'base64').toString('utf8');
+    return `Basic ${Buffer.from(`${fields.username}:${password}`).toString('base64')}`;
+  }
+  return null;
+}
+
+/**
+ * Collects registry credentials from npm settings.
+ *
+ * Supports `_authToken`, `_auth` and `username` + `_password` (base64) entries keyed by
+ * registry (e.g. `//npm.acme.dev/:_authToken=...`). Unkeyed legacy entries apply to the
+ * default registry only.
+ *
+ * @param settings - Merged .npmrc settings (with environment variables already interpolated).
+ * @param defaultRegistry - The default registry URL.
+ * @returns Map of nerf dart to Authorization header value.
+ */
+export function getRegistryCredentials(
+  settings: NpmrcSettings,
+  defaultRegistry: string,
+): Record<string, string> {
+  const grouped: Record<string, Record<string, string>> = {};
+  for (const [key, value] of Object.entries(settings)) {
+    const match = CREDENTIAL_KEY.exec(key);
+    if (match && value) {
+      grouped[match[1]] = { ...grouped[match[1]], [match[2]]: value };
+    }
+  }
+
+  const credentials: Record<string, string> = {};
+  for (const [dart, fields] of Object.entries(grouped)) {
+    const authorization = toAuthorization(fields);
+    if (authorization) {
+      credentials[dart] = authorization;
+    }
+  }
+
+  const defaultDart = nerfDart(`${defaultRegistry}/`);
+  if (!credentials[defaultDart]) {
+    const legacy = toAuthorization(settings);
+    if (legacy) {
+      credentials[defaultDart] = legacy;
+    }
+  }
+  return credentials;
+}
+
+/**
+ * Finds the Authorization header for a request URL.
+ *
+ * Walks up the URL path and returns the most specific matching credential, so a token
+ * for `//npm.acme.dev/` also covers `https://npm.acme.dev/api/pkg`. Credentials are never
+ * sent to other hosts.
+ *
+ * @param url - The request URL.
+ * @param credentials - Map of nerf dart to Authorization header value.
+ * @returns The Authorization header value, or null if none matches.
+ */
+export function authorizationFor(
+  url: string,
+  credentials: Record<string, string>,
+): string | null {
+  let dart = nerfDart(url);
+  while (dart.length > 2) {
+    const authorization = credentials[dart];
+    if (authorization) {
+      return authorization;
+    }
+    dart = dart.replace(/[^/]*\/$/, '');
+  }
+  return null;
+}
+
+/**
+ * Removes credentials (user info and query string) from a URL for display.
+ *
+ * @param url - The URL to redact.
+ * @returns The URL without credentials, or the input if it is not a valid URL.
+ */
+export function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    if (!parsed.username && !parsed.password && !parsed.search) {
+      return url;
+    }
+    parsed.username = '';
+    parsed.password = '';
+    parsed.search = '';
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
@@ -0,0 +1,120 @@
+import { createHash } from 'node:crypto';
+import { readdirSync, readFileSync, rmSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { CACHE_DIR_NAME } from './constants.js';
+import { writeFileAtomic } from './files.js';
+import type { CacheEntry } from './types.js';
+
+/**
+ * Returns the directory used for cached registry metadata.
+ *
+ * `OUTDATED_PLUS_CACHE_DIR` takes precedence, then `XDG_CACHE_HOME` (or `LOCALAPPDATA`
+ * on Windows), then `~/.cache`.
+ *
+ * @param env - Environment variables (defaults to process.env).
+ * @returns The cache directory path.
+ */
+export function getCacheDir(
+  env: Record<string, string | undefined> = process.env,
+): string {
+  if (env.OUTDATED_PLUS_CACHE_DIR) {
+    return env.OUTDATED_PLUS_CACHE_DIR;
+  }
+  const base =
+    env.XDG_CACHE_HOME ??
+    (process.platform === 'win32' ? env.LOCALAPPDATA : undefined) ??
+    join(homedir(), '.cache');
+  return join(base, CACHE_DIR_NAME);
+}
+
+const ENTRY_FILE = /^[0-9a-f]{64}\.json$/;
+
+function entryPath(dir: string, url: string): string {
+  // The packument URL identifies both the registry and the package
+  return join(dir, `${createHash('sha256').update(url).digest('hex')}.json`);
+}
+
+function isCacheEntry(value: unknown, url: string): value is CacheEntry {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const entry = value as Partial<CacheEntry>;
+  return (
+    entry.url === url &&
+    typeof entry.fetchedAt === 'number' &&
+    typeof entry.meta?.latest === 'string' &&
+    typeof entry.meta?.timeMap === 'object'
+  );
+}
+
+/**
+ * Reads the cached metadata for a packument URL.
+ *
+ * @param dir - The cache directory.
+ * @param url - The packument URL.
+ * @returns The cache entry, or null if missing or unreadable.
+ */
+export function readCacheEntry(dir: string, url: string): CacheEntry | null {
+  try {
+    const data: unknown = JSON.parse(
+      readFileSync(entryPath(dir, url), 'utf-8'),
+    );
+    return isCacheEntry(data, url) ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Stores metadata for a packument URL. Write failures are ignored, since the cache is
+ * only an optimization.
+ *
+ * @param dir - The cache directory.
+ * @param entry - The entry to store.
+ */
+export function writeCacheEntry(dir: string, entry: CacheEntry): void {
+  try {
+    writeFileAtomic(entryPath(dir, entry.url), JSON.stringify(entry));
+  } catch {
+    // Read-only or full disk: continue without caching
+  }
+}
+
+/**
+ * Checks whether a cache entry can be used without contacting the registry.
+ *
+ * @param entry - The cache entry.
+ * @param ttlMs - Time-to-live in milliseconds.
+ * @param now - Current timestamp in milliseconds.
+ * @returns True if the entry is younger than the TTL.
+ */
+export function isCacheFresh(
+  entry: CacheEntry,
+  ttlMs: number,
+  now: number = Date.now(),
+): boolean {
+  return now - entry.fetchedAt < ttlMs;
+}
+
+/**
+ * Removes all cached metadata.
+ *
+ * Only entry files are removed; the directory and other files in it are kept, since
+ * OUTDATED_PLUS_CACHE_DIR may point at a shared directory.
+ *
+ * @param dir - The cache directory.
+ * @returns The number of removed entries.
+ */
+export function clearCache(dir: string): number {
+  let files: string[];
+  try {
+    files = readdirSync(dir).filter((file) => ENTRY_FILE.test(file));
+  } catch {
+    return 0;
+  }
+  for (const file of files) {
+    rmSync(join(dir, file), { force: true });
+  }
+  return files.length;
+}
@@ -0,0 +1,54 @@
+import { CancelledError } from './errors.js';
+
+/**
+ * Abort signal for a whole run, with a function that removes the timer and the SIGINT
+ * handler once the run is over.
+ */
+export type RunSignal = {
+  signal: AbortSignal;
+  dispose: () => void;
+};
+
+/**
+ * Creates the abort signal for a run. It is aborted with a CancelledError when the
+ * --timeout deadline passes or on the first Ctrl-C (SIGINT); a second Ctrl-C ends the
+ * process right away.
+ *
+ * @param timeoutSeconds - Deadline for the run in seconds, or 0 for none.
+ * @returns The signal and its dispose function.
+ */
+export function createRunSignal(timeoutSeconds: number): RunSignal {
+  const controller = new AbortController();
+
+  const timer =
+    timeoutSeconds > 0
+      ? setTimeout(
+          () =>
+            controller.abort(
+              new CancelledError(
+                `Run did not finish within --timeout ${timeoutSeconds}s`,
+                'timeout',
+              ),
+            ),
+          timeoutSeconds * 1000,
+        )
+      : null;
+  // Do not keep the process alive just for the deadline
+  timer?.unref();
+
+  const onInterrupt = () => {
+    controller.abort(new CancelledError('Interrupted', 'interrupt'));
+  };
+  // `once` restores the default handler, so a second Ctrl-C exits immediately
+  process.once('SIGINT', onInterrupt);
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      process.removeListener('SIGINT', onInterrupt);
+    },
+  };
+}
@@ -73,6 +73,20 @@ export function colorBumpType(
   }
 }
 
+/**
+ * Classifies an age value by the colorization thresholds.
+ * Thresholds: >365 days (red), >90 days (yellow), <=90 days (green).
+ */
+export function ageLevel(age: number): 'red' | 'yellow' | 'green' {
+  if (age > AGE_THRESHOLD_RED) {
+    return 'red';
+  }
+  if (age > AGE_THRESHOLD_YELLOW) {
+    return 'yellow';
+  }
+  return 'green';
+}
+
 /**
  * Colors an age value based on how old it is.
  * Color thresholds: >365 days (red), >90 days (yellow), <=90 days (green).
@@ -81,14 +95,7 @@ export function colorAge(age: number | null): string {
   if (age === null) {
     return '-';
   }
-  const str = String(age);
-  if (age > AGE_THRESHOLD_RED) {
-    return colors.red(str);
-  }
-  if (age > AGE_THRESHOLD_YELLOW) {
-    return colors.yellow(str);
-  }
-  return colors.green(str);
+  return colors[ageLevel(age)](String(age));
 }
 
 /**
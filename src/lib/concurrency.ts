@@ -10,7 +10,66 @@ export type FetchResult<T> = {
 };
 
 /**
- * Executes asynchronous operations on items with controlled concurrency.
+ * Outcome of the operation for a single item: its value, or the error it failed with.
+ */
+export type FetchOutcome<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: unknown };
+
+/**
+ * Concurrency limit that backs off when the registry throttles requests.
+ *
+ * The limit is halved on every throttled response and grows by one again after as many
+ * successful requests as the current limit, up to the configured maximum.
+ */
+export class AdaptiveConcurrency {
+  private current: number;
+  private readonly max: number;
+  private successes = 0;
+
+  /**
+   * Creates a new AdaptiveConcurrency instance.
+   *
+   * @param max - The configured maximum number of concurrent operations.
+   */
+  constructor(max: number) {
+    this.max = Math.max(1, max);
+    this.current = this.max;
+  }
+
+  /**
+   * The number of operations that may currently run in parallel.
+   */
+  get limit(): number {
+    return this.current;
+  }
+
+  /**
+   * Lowers the limit after a throttled response (429/503).
+   */
+  throttled() {
+    this.current = Math.max(1, Math.floor(this.current / 2));
+    this.successes = 0;
+  }
+
+  /**
+   * Records a successful request and slowly raises the limit again.
+   */
+  succeeded() {
+    if (this.current >= this.max) {
+      return;
+    }
+    this.successes += 1;
+    if (this.successes >= this.current) {
+      this.current += 1;
+      this.successes = 0;
+    }
+  }
+}
+
+/**
+ * Executes asynchronous operations on items with controlled concurrency and reports the
+ * outcome of each one.
  *
  * This utility prevents overwhelming the npm registry with too many
  * simultaneous requests by limiting the number of in-flight operations.
@@ -18,46 +77,77 @@ export type FetchResult<T> = {
  * @param items - Array of items to process (e.g., package names).
  * @param fetcher - Async function to execute for each item.
  * @param onProgress - Callback called after each item completes (for progress bar).
- * @param fallbackValue - Value to use when fetcher fails for an item.
- * @param concurrency - Maximum number of concurrent operations (default: 12).
- * @returns Promise that resolves to a Record mapping items to their results.
+ * @param concurrency - Maximum number of concurrent operations (default: 12), or an
+ * AdaptiveConcurrency whose current limit is checked before each new operation.
+ * @param signal - Aborts the operation: no new items are started, and items that have
+ * not finished yet fail with the abort reason right away.
+ * @returns Promise that resolves to a Record mapping items to their outcomes.
  */
-export async function fetchWithConcurrency<T>(
+export async function fetchOutcomesWithConcurrency<T>(
   items: string[],
   // eslint-disable-next-line no-unused-vars
   fetcher: (item: string) => Promise<T>,
   onProgress: () => void,
-  fallbackValue: T,
-  concurrency: number,
-): Promise<Record<string, T>> {
+  concurrency: number | AdaptiveConcurrency,
+  signal?: AbortSignal,
+): Promise<Record<string, FetchOutcome<T>>> {
   if (items.length === 0) {
     return {};
   }
 
-  const results: Record<string, T> = {};
-  const limit = Math.max(1, concurrency);
+  const results: Record<string, FetchOutcome<T>> = {};
+  const limit = () =>
+    typeof concurrency === 'number'
+      ? Math.max(1, concurrency)
+      : concurrency.limit;
   let inFlight = 0;
   let index = 0;
+  let done = false;
 
   await new Promise<void>((resolve) => {
+    const cancel = () => {
+      done = true;
+      for (const item of items) {
+        results[item] ??= { ok: false, error: signal?.reason };
+      }
+      resolve();
+    };
+    if (signal?.aborted) {
+      cancel();
+      return;
+    }
+    signal?.addEventListener('abort', cancel, { once: true });
+    const finish = () => {
+      signal?.removeEventListener('abort', cancel);
+      done = true;
+      resolve();
+    };
+
     const tick = () => {
-      while (inFlight < limit && index < items.length) {
+      while (!done && inFlight < limit() && index < items.length) {
         const item = items[index];
         index += 1;
         inFlight += 1;
 
         fetcher(item)
-          .then((result) => {
-            results[item] = result;
+          .then((value) => {
+            if (!done) {
+              results[item] = { ok: true, value };
+            }
           })
-          .catch(() => {
-            results[item] = fallbackValue;
+          .catch((error: unknown) => {
+            if (!done) {
+              results[item] = { ok: false, error };
+            }
           })
           .finally(() => {
             inFlight -= 1;
+            if (done) {
+              return;
+            }
             onProgress();
             if (index >= items.length && inFlight === 0) {
-              resolve();
+              finish();
             } else {
               tick();
             }
@@ -70,6 +160,43 @@ export async function fetchWithConcurrency<T>(
   return results;
 }
 
+/**
+ * Executes asynchronous operations on items with controlled concurrency, substituting a
+ * fallback value for failed items. Use fetchOutcomesWithConcurrency to learn which
+ * items failed.
+ *
+ * @param items - Array of items to process (e.g., package names).
+ * @param fetcher - Async function to execute for each item.
+ * @param onProgress - Callback called after each item completes (for progress bar).
+ * @param fallbackValue - Value to use when fetcher fails for an item.
+ * @param concurrency - Maximum number of concurrent operations (default: 12), or an
+ * AdaptiveConcurrency.
+ * @param signal - Aborts the operation; unfinished items get the fallback value.
+ * @returns Promise that resolves to a Record mapping items to their results.
+ */
+export async function fetchWithConcurrency<T>(
+  items: string[],
+  // eslint-disable-next-line no-unused-vars
+  fetcher: (item: string) => Promise<T>,
+  onProgress: () => void,
+  fallbackValue: T,
+  concurrency: number | AdaptiveConcurrency,
+  signal?: AbortSignal,
+): Promise<Record<string, T>> {
+  const outcomes = await fetchOutcomesWithConcurrency(
+    items,
+    fetcher,
+    onProgress,
+    concurrency,
+    signal,
+  );
+  const results: Record<string, T> = {};
+  for (const [item, outcome] of Object.entries(outcomes)) {
+    results[item] = outcome.ok ? outcome.value : fallbackValue;
+  }
+  return results;
+}
+
 /**
  * Default fallback value for package metadata when fetch fails.
  */
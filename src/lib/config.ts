@@ -0,0 +1,177 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { CONFIG_FILE_NAME, PACKAGE_JSON_CONFIG_KEY } from './constants.js';
+import { ParseError } from './errors.js';
+import type { ConfigFile } from './types.js';
+
+type ValueKind = 'number' | 'boolean' | 'string' | 'list';
+
+/**
+ * Supported config keys (mirroring the Args fields) and their value types.
+ * `list` values may be given as an array of strings or a comma-separated string.
+ */
+const CONFIG_KEYS: Record<keyof ConfigFile, ValueKind> = {
+  olderThan: 'number',
+  showAll: 'boolean',
+  showWanted: 'boolean',
+  quiet: 'boolean',
+  checkAll: 'boolean',
+  iso: 'boolean',
+  concurrency: 'number',
+  sortBy: 'string',
+  order: 'string',
+  format: 'string',
+  skip: 'list',
+  output: 'string',
+  failOn: 'list',
+  registry: 'string',
+  cache: 'boolean',
+  refresh: 'boolean',
+  cacheTtl: 'number',
+  offline: 'boolean',
+  packuments: 'string',
+  stats: 'boolean',
+  retries: 'number',
+  fatalFetchErrors: 'boolean',
+  timeout: 'number',
+  workspaces: 'boolean',
+  workspace: 'list',
+  recursive: 'boolean',
+};
+
+function isConfigKey(key: string): key is keyof ConfigFile {
+  return Object.prototype.hasOwnProperty.call(CONFIG_KEYS, key);
+}
+
+function toList(value: unknown): string[] | null {
+  if (typeof value === 'string') {
+    return value
+      .split(',')
+      .map((v) => v.trim())
+      .filter(Boolean);
+  }
+  if (Array.isArray(value) && value.every((v) => typeof v === 'string')) {
+    return value.map((v) => v.trim()).filter(Boolean);
+  }
+  return null;
+}
+
+/**
+ * Validates raw config data and normalizes list values.
+ *
+ * @param data - Parsed JSON data.
+ * @param source - Where the data came from (used in error messages).
+ * @returns The validated config.
+ * @throws {ParseError} If the data is not an object, contains unknown keys or values of the wrong type.
+ */
+export function normalizeConfig(data: unknown, source: string): ConfigFile {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new ParseError(`Config in ${source} must be a JSON object`, source);
+  }
+
+  const config: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (!isConfigKey(key)) {
+      throw new ParseError(
+        `Unknown config option '${key}' in ${source}`,
+        source,
+      );
+    }
+    const kind = CONFIG_KEYS[key];
+    const normalized = kind === 'list' ? toList(value) : value;
+    if (
+      normalized === null ||
+      (kind !== 'list' && typeof normalized !== kind)
+    ) {
+      throw new ParseError(
+        `Config option '${key}' in ${source} must be a ${kind === 'list' ? 'string or string array' : kind}`,
+        source,
+      );
+    }
+    config[key] = normalized;
+  }
+  return config as ConfigFile;
+}
+
+/**
+ * Resolves the file paths of a config (`output`, `packuments`) against the directory of
+ * the file they were read from, so they do not depend on where the command is run.
+ */
+function resolveConfigPaths(config: ConfigFile, dir: string): ConfigFile {
+  return {
+    ...config,
+    ...(config.output !== undefined && { output: resolve(dir, config.output) }),
+    ...(config.packuments !== undefined && {
+      packuments: resolve(dir, config.packuments),
+    }),
+  };
+}
+
+function readJsonFile(path: string): unknown {
+  const content = readFileSync(path, 'utf-8');
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    throw new ParseError(
+      `Invalid JSON in ${path}: ${error instanceof Error ? error.message : String(error)}`,
+      path,
+    );
+  }
+}
+
+/**
+ * Loads the project configuration.
+ *
+ * Lookup order (the first match wins):
+ * 1. The file given via --config
+ * 2. `.outdated-plusrc.json` in the working directory
+ * 3. The `outdated-plus` key in the working directory's package.json
+ *
+ * Relative `output` and `packuments` paths are resolved against the directory of the
+ * config file.
+ *
+ * @param cwd - The working directory to look for config files in.
+ * @param configPath - Explicit config file path (from --config), or null.
+ * @returns The validated config, or an empty object if no config was found.
+ * @throws {ParseError} If a config file exists but cannot be parsed or is invalid.
+ */
+export function loadConfig(cwd: string, configPath: string | null): ConfigFile {
+  if (configPath !== null) {
+    const path = resolve(cwd, configPath);
+    if (!existsSync(path)) {
+      throw new ParseError(`Config file not found: ${path}`, path);
+    }
+    return resolveConfigPaths(
+      normalizeConfig(readJsonFile(path), path),
+      dirname(path),
+    );
+  }
+
+  const rcPath = join(cwd, CONFIG_FILE_NAME);
+  if (existsSync(rcPath)) {
+    return resolveConfigPaths(
+      normalizeConfig(readJsonFile(rcPath), rcPath),
+      cwd,
+    );
+  }
+
+  try {
+    const pkg = JSON.parse(readFileSync(join(cwd, 'package.json'), 'utf-8'));
+    if (pkg && typeof pkg === 'object' && PACKAGE_JSON_CONFIG_KEY in pkg) {
+      return resolveConfigPaths(
+        normalizeConfig(
+          pkg[PACKAGE_JSON_CONFIG_KEY],
+          `package.json#${PACKAGE_JSON_CONFIG_KEY}`,
+        ),
+        cwd,
+      );
+    }
+  } catch (error) {
+    if (error instanceof ParseError) {
+      throw error;
+    }
+    // package.json missing or unreadable, no config
+  }
+
+  return {};
+}
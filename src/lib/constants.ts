@@ -9,6 +9,11 @@
  */
 export const MS_PER_DAY = 86_400_000;
 
+/**
+ * Milliseconds in one minute.
+ */
+export const MS_PER_MINUTE = 60_000;
+
 // Age thresholds for colorization (in days)
 export const AGE_THRESHOLD_RED = 365;
 export const AGE_THRESHOLD_YELLOW = 90;
@@ -16,11 +21,41 @@ export const AGE_THRESHOLD_YELLOW = 90;
 // HTTP configuration
 export const NPM_REGISTRY = 'https://registry.npmjs.org';
 export const HTTP_REQUEST_TIMEOUT_MS = 10_000;
+// Longest Retry-After delay that is waited for before giving up on a request
+export const MAX_RETRY_AFTER_MS = 60_000;
+// Abbreviated ("corgi") metadata, with a fallback for registries that only serve full packuments
+export const ABBREVIATED_METADATA_ACCEPT =
+  'application/vnd.npm.install-v1+json; q=1.0, application/json; q=0.8, */*';
+export const NPMRC_FILE_NAME = '.npmrc';
+
+// Metadata cache
+export const CACHE_DIR_NAME = 'outdated-plus';
+export const DEFAULT_CACHE_TTL_MINUTES = 60;
+
+// Config file
+export const CONFIG_FILE_NAME = '.outdated-plusrc.json';
+export const PACKAGE_JSON_CONFIG_KEY = 'outdated-plus';
+
+// Exit codes
+export const EXIT_SUCCESS = 0;
+export const EXIT_ERROR = 1;
+export const EXIT_POLICY_VIOLATION = 2;
+// Conventional exit code for SIGINT (128 + 2)
+export const EXIT_INTERRUPTED = 130;
 
 // Regex patterns
-export const NODE_MODULES_REGEX = /node_modules\/(.+)$/;
+// package-lock.json `packages` key: install location (empty for the root) and package name
+export const NODE_MODULES_REGEX =
+  /^(?:(.+)\/)?node_modules\/((?:@[^/]+\/)?[^/]+)$/;
 
 // Default concurrency
 export const DEFAULT_CONCURRENCY = 12;
 export const MAX_CONCURRENCY = 100;
 export const MIN_CONCURRENCY = 1;
+
+// Version of the --format json document structure
+export const JSON_REPORT_SCHEMA_VERSION = 1;
+
+// SARIF output
+export const SARIF_SCHEMA_URI = 'https://json.schemastore.org/sarif-2.1.0.json';
+export const TOOL_INFORMATION_URI = 'https://github.com/AlexF090/outdated-plus';
@@ -2,6 +2,9 @@
  * Custom error classes for outdated-plus
  */
 
+import { redactUrl } from './auth.js';
+import type { UnresolvedPackage } from './types.js';
+
 /**
  * Base error class for all outdated-plus errors.
  *
@@ -35,22 +38,76 @@ export class NetworkError extends OutdatedPlusError {
   public readonly url?: string;
   /** HTTP status code, if available. */
   public readonly statusCode?: number;
+  /** Delay requested by the registry's Retry-After header, if any. */
+  public readonly retryAfterMs?: number;
 
   /**
    * Creates a new NetworkError.
    *
    * @param message - Human-readable error message.
-   * @param url - The URL that failed (optional).
+   * @param url - The URL that failed (optional). Credentials are removed before it is stored.
    * @param statusCode - HTTP status code (optional).
+   * @param code - Error code, overridden by subclasses (defaults to NETWORK_ERROR).
+   * @param retryAfterMs - Delay requested by a Retry-After header (optional).
    */
-  constructor(message: string, url?: string, statusCode?: number) {
-    super(message, 'NETWORK_ERROR');
-    this.url = url;
+  constructor(
+    message: string,
+    url?: string,
+    statusCode?: number,
+    code = 'NETWORK_ERROR',
+    retryAfterMs?: number,
+  ) {
+    super(message, code);
+    this.url = url === undefined ? undefined : redactUrl(url);
     this.statusCode = statusCode;
+    this.retryAfterMs = retryAfterMs;
     this.name = 'NetworkError';
   }
 }
 
+/**
+ * Error thrown when a TLS connection to the registry fails (e.g. an untrusted certificate).
+ *
+ * @public
+ */
+export class TlsError extends NetworkError {
+  /** The TLS/OpenSSL error code (e.g. `SELF_SIGNED_CERT_IN_CHAIN`). */
+  public readonly reason: string;
+
+  /**
+   * Creates a new TlsError.
+   *
+   * @param message - Human-readable error message.
+   * @param reason - The TLS/OpenSSL error code.
+   * @param url - The URL that failed (optional).
+   */
+  constructor(message: string, reason: string, url?: string) {
+    super(message, url, undefined, 'TLS_ERROR');
+    this.reason = reason;
+    this.name = 'TlsError';
+  }
+}
+
+/**
+ * Returns a hint for resolving a TLS error.
+ *
+ * @param reason - The TLS/OpenSSL error code.
+ * @returns A short, actionable hint.
+ */
+function tlsHint(reason: string): string {
+  switch (reason) {
+    case 'CAFILE':
+      return 'Check the cafile path in .npmrc.';
+    case 'CERT_HAS_EXPIRED':
+    case 'CERT_NOT_YET_VALID':
+      return 'The registry certificate is not valid at the current time; check the system clock.';
+    case 'ERR_TLS_CERT_ALTNAME_INVALID':
+      return 'The registry certificate does not match the host name; check the registry URL.';
+    default:
+      return 'If the registry uses an internal CA, set cafile in .npmrc or NODE_EXTRA_CA_CERTS to its certificate bundle.';
+  }
+}
+
 /**
  * Error thrown when npm registry operations fail.
  *
@@ -112,6 +169,54 @@ export class PackageJsonError extends OutdatedPlusError {
   }
 }
 
+/**
+ * Error thrown when registry metadata could not be fetched for some packages and fetch
+ * failures are fatal (--fatal-fetch-errors).
+ *
+ * @public
+ */
+export class UnresolvedPackagesError extends OutdatedPlusError {
+  /** The packages that could not be resolved. */
+  public readonly packages: UnresolvedPackage[];
+
+  /**
+   * Creates a new UnresolvedPackagesError.
+   *
+   * @param packages - The packages that could not be resolved.
+   */
+  constructor(packages: UnresolvedPackage[]) {
+    super(
+      `Could not resolve ${packages.length} package(s)`,
+      'UNRESOLVED_PACKAGES',
+    );
+    this.packages = packages;
+    this.name = 'UnresolvedPackagesError';
+  }
+}
+
+/**
+ * Error used as the abort reason when a run is cancelled by the --timeout deadline or
+ * Ctrl-C. Packages that were not checked in time are reported with its code.
+ *
+ * @public
+ */
+export class CancelledError extends OutdatedPlusError {
+  /** What cancelled the run. */
+  public readonly reason: 'timeout' | 'interrupt';
+
+  /**
+   * Creates a new CancelledError.
+   *
+   * @param message - Human-readable error message.
+   * @param reason - What cancelled the run.
+   */
+  constructor(message: string, reason: 'timeout' | 'interrupt') {
+    super(message, 'CANCELLED');
+    this.reason = reason;
+    this.name = 'CancelledError';
+  }
+}
+
 /**
  * Type guard to check if an error is an OutdatedPlusError.
  *
@@ -131,6 +236,9 @@ export function isOutdatedPlusError(
  * @returns A formatted error message string.
  */
 export function formatError(error: unknown): string {
+  if (error instanceof TlsError) {
+    return `TLS error (${error.reason}): ${error.message}\nHint: ${tlsHint(error.reason)}`;
+  }
   if (error instanceof NetworkError) {
     const status = error.statusCode ? ` (HTTP ${error.statusCode})` : '';
     return `Network error${status}: ${error.message}`;
@@ -144,6 +252,15 @@ export function formatError(error: unknown): string {
   if (error instanceof PackageJsonError) {
     return `Package.json error: ${error.message}`;
   }
+  if (error instanceof CancelledError) {
+    return `Cancelled: ${error.message}`;
+  }
+  if (error instanceof UnresolvedPackagesError) {
+    const details = error.packages.map(
+      (p) => `  ${p.name}: ${p.message.replace(/\n/g, '\n    ')}`,
+    );
+    return [`Error: ${error.message}`, ...details].join('\n');
+  }
   if (error instanceof OutdatedPlusError) {
     return `Error: ${error.message}`;
   }
@@ -152,3 +269,28 @@ export function formatError(error: unknown): string {
   }
   return String(error);
 }
+
+/**
+ * Checks whether an unresolved package was not checked because the run was cancelled.
+ */
+export function isCancelledPackage(pkg: UnresolvedPackage): boolean {
+  return pkg.code === 'CANCELLED';
+}
+
+/**
+ * Describes a failed metadata fetch for the "could not resolve" part of a report.
+ *
+ * @param name - The package name.
+ * @param error - The error thrown while fetching.
+ * @returns The package with its error code and formatted message.
+ */
+export function toUnresolvedPackage(
+  name: string,
+  error: unknown,
+): UnresolvedPackage {
+  return {
+    name,
+    code: error instanceof OutdatedPlusError ? error.code : 'UNKNOWN_ERROR',
+    message: formatError(error),
+  };
+}
@@ -0,0 +1,27 @@
+import { mkdirSync, renameSync, rmSync, writeFileSync } from 'node:fs';
+import { basename, dirname, join, resolve } from 'node:path';
+
+/**
+ * Writes a file atomically.
+ *
+ * The content is written to a temporary file next to the target and then
+ * renamed over it, so readers never see a partially written file.
+ * Missing parent directories are created.
+ *
+ * @param filePath - Destination path (relative paths are resolved against the cwd).
+ * @param content - The file content.
+ */
+export function writeFileAtomic(filePath: string, content: string): void {
+  const target = resolve(filePath);
+  const dir = dirname(target);
+  mkdirSync(dir, { recursive: true });
+
+  const tmpPath = join(dir, `.${basename(target)}.${process.pid}.tmp`);
+  try {
+    writeFileSync(tmpPath, content);
+    renameSync(tmpPath, target);
+  } catch (error) {
+    rmSync(tmpPath, { force: true });
+    throw error;
+  }
+}
@@ -0,0 +1,517 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { OutdatedEntry, OutdatedMap, PackageManager } from './types.js';
+import { isOutdatedEntry } from './utils.js';
+import { parseYaml } from './yaml.js';
+
+/**
+ * Lockfile names, in the order they are looked for.
+ */
+export const LOCKFILES: [string, PackageManager][] = [
+  ['package-lock.json', 'npm'],
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['bun.lock', 'bun'],
+];
+
+function readText(path: string): string {
+  try {
+    return readFileSync(path, 'utf-8');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Checks whether a yarn.lock was written by Yarn 2 or later, which write YAML with a
+ * `__metadata` entry instead of the Yarn 1 format.
+ */
+function isBerryLockfile(content: string): boolean {
+  return /^__metadata:/m.test(content);
+}
+
+/**
+ * Finds the lockfile of a directory.
+ *
+ * @param dir - The directory.
+ * @returns The lockfile name and its package manager, or null if there is none.
+ */
+export function findLockfile(
+  dir: string,
+): { file: string; manager: PackageManager } | null {
+  for (const [file, manager] of LOCKFILES) {
+    if (existsSync(join(dir, file))) {
+      return {
+        file,
+        manager:
+          manager === 'yarn' && isBerryLockfile(readText(join(dir, file)))
+            ? 'yarn-berry'
+            : manager,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Reads the `packageManager` field of package.json (as used by Corepack, e.g.
+ * `yarn@4.1.0+sha512...`).
+ *
+ * @param dir - The project directory.
+ * @returns The package manager, or null if the field is missing or names another tool.
+ */
+export function readPackageManagerField(dir: string): PackageManager | null {
+  let field: unknown;
+  try {
+    field = JSON.parse(readText(join(dir, 'package.json'))).packageManager;
+  } catch {
+    return null;
+  }
+  const match =
+    typeof field === 'string'
+      ? field.match(/^(npm|pnpm|yarn|bun)@(\d+)/)
+      : null;
+  if (!match) {
+    return null;
+  }
+  const [, name, major] = match;
+  if (name === 'yarn') {
+    return Number(major) >= 2 ? 'yarn-berry' : 'yarn';
+  }
+  return name as PackageManager;
+}
+
+/**
+ * Detects the package manager of a project: from its lockfile, or else from the
+ * `packageManager` field of its package.json.
+ *
+ * @param dir - The directory of the lockfile.
+ * @returns The package manager; npm if there is neither.
+ */
+export function detectPackageManager(dir: string): PackageManager {
+  return findLockfile(dir)?.manager ?? readPackageManagerField(dir) ?? 'npm';
+}
+
+/**
+ * Builds the command that lists outdated dependencies (standard mode).
+ *
+ * npm can check selected workspaces in one run; Yarn classic reports the dependencies of
+ * all workspaces when run at the root. Yarn 2+ has no outdated command, `bun outdated`
+ * has no machine-readable output, and pnpm's recursive report is not split by workspace,
+ * so those are checked over HTTP instead.
+ *
+ * @param manager - The package manager of the project.
+ * @param registry - Registry URL (--registry), if given. Yarn classic reads it from its
+ * own configuration.
+ * @param workspaces - Paths of the workspaces to check, if any.
+ * @returns The command and its arguments, or null if the HTTP pipeline should be used.
+ */
+export function outdatedCommand(
+  manager: PackageManager,
+  registry?: string | null,
+  workspaces: string[] = [],
+): [string, string[]] | null {
+  const registryArgs = registry ? ['--registry', registry] : [];
+  switch (manager) {
+    case 'npm':
+      return [
+        'npm',
+        [
+          'outdated',
+          '--json',
+          ...workspaces.map((path) => `--workspace=${path}`),
+          ...registryArgs,
+        ],
+      ];
+    case 'pnpm':
+      return workspaces.length > 0
+        ? null
+        : ['pnpm', ['outdated', '--format', 'json', ...registryArgs]];
+    case 'yarn':
+      return ['yarn', ['outdated', '--json']];
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parses the output of an outdated command.
+ *
+ * npm output is returned as it is, since its `dependent` fields are needed to split it by
+ * workspace or project. pnpm and Yarn classic output are converted to the same shape.
+ *
+ * @param manager - The package manager that ran.
+ * @param output - The command output.
+ * @returns The parsed output, or an empty object if it cannot be parsed.
+ */
+export function parseOutdatedOutput(
+  manager: PackageManager,
+  output: string,
+): unknown {
+  if (manager === 'yarn') {
+    return yarnOutdated(output);
+  }
+  let data: unknown;
+  try {
+    data = output.trim() ? JSON.parse(output) : {};
+  } catch {
+    return {};
+  }
+  return manager === 'pnpm' ? pnpmOutdated(data) : data;
+}
+
+/**
+ * Converts `pnpm outdated --format json` output to an outdated map.
+ *
+ * pnpm reports `current`, `wanted` and `latest` like npm, along with fields of its own
+ * (`isDeprecated`, `dependencyType`), which are dropped. Packages that are not installed
+ * have no `current` and are left out, as with npm.
+ *
+ * @param data - The parsed pnpm output.
+ * @returns The outdated map.
+ */
+export function pnpmOutdated(data: unknown): OutdatedMap {
+  const outdated: OutdatedMap = {};
+  if (!data || typeof data !== 'object') {
+    return outdated;
+  }
+  for (const [pkg, entry] of Object.entries(data)) {
+    if (isOutdatedEntry(entry)) {
+      outdated[pkg] = {
+        current: entry.current,
+        wanted: entry.wanted,
+        latest: entry.latest,
+      };
+    }
+  }
+  return outdated;
+}
+
+/**
+ * Extracts the installed version from a pnpm lockfile version reference.
+ *
+ * Peer dependency suffixes (`1.0.0(react@18.2.0)` in v6 and v9, `1.0.0_react@18.2.0` in
+ * v5) are removed. Aliased packages (`npm:other@^1`) reference `other@1.0.0` (v9),
+ * `/other@1.0.0` (v6) or `/other/1.0.0` (v5). Links to local directories have no version.
+ *
+ * @returns The version, or null for links and unknown references.
+ */
+function pnpmVersion(reference: string): string | null {
+  if (/^(link|file|workspace):/.test(reference)) {
+    return null;
+  }
+  let version = reference.replace(/\(.*$/, '');
+  if (version.startsWith('/')) {
+    // v5 alias: /name/1.0.0 or /@scope/name/1.0.0
+    const v5 = version.match(/^\/(?:@[^/]+\/)?[^/@]+\/([^/]+)$/);
+    version = v5 ? v5[1] : version.slice(1);
+  }
+  version = version.replace(/^(\d+\.\d+\.\d+[^_]*)_.*$/, '$1');
+  version = version.slice(version.lastIndexOf('@') + 1);
+  return /^\d+\.\d+\.\d+/.test(version) ? version : null;
+}
+
+/**
+ * Reads the installed versions of a project from pnpm-lock.yaml.
+ *
+ * Versions 6 and 9 list each project of a workspace under `importers`, by its path
+ * relative to the lockfile (`.` for the root). Single-project lockfiles of version 5 and
+ * 6 have the dependency sections at the top level instead. A dependency is either a
+ * version reference (v5) or an object with `specifier` and `version` (v6 and v9).
+ *
+ * @param content - The lockfile content.
+ * @param importerPath - Project directory relative to the lockfile, or '' for the root.
+ * @returns Record mapping dependency names to their installed versions.
+ */
+export function pnpmInstalledVersions(
+  content: string,
+  importerPath = '',
+): Record<string, string> {
+  // pnpm 10 may write its own installation as a separate document before the lockfile
+  const data = content
+    .split(/^---\s*$/m)
+    .map(parseYaml)
+    .filter(
+      (doc): doc is Record<string, unknown> =>
+        !!doc && typeof doc === 'object' && 'lockfileVersion' in doc,
+    )
+    .pop();
+  if (!data) {
+    return {};
+  }
+  const importers = data.importers;
+  const importer =
+    importers && typeof importers === 'object'
+      ? (importers as Record<string, unknown>)[importerPath || '.']
+      : importerPath === ''
+        ? data
+        : null;
+  if (!importer || typeof importer !== 'object') {
+    return {};
+  }
+
+  const versions: Record<string, string> = {};
+  for (const section of [
+    'optionalDependencies',
+    'devDependencies',
+    'dependencies',
+  ]) {
+    const deps = (importer as Record<string, unknown>)[section];
+    if (!deps || typeof deps !== 'object') {
+      continue;
+    }
+    for (const [name, value] of Object.entries(deps)) {
+      const reference =
+        value && typeof value === 'object' ? value.version : value;
+      const version =
+        typeof reference === 'string' ? pnpmVersion(reference) : null;
+      if (version) {
+        versions[name] = version;
+      }
+    }
+  }
+  return versions;
+}
+
+/**
+ * Converts `yarn outdated --json` output (Yarn classic) to outdated entries.
+ *
+ * Yarn prints one JSON object per line; the outdated packages are the body of the `table`
+ * object, with columns named in its head. In a workspaces project the `Workspace` column
+ * becomes the entry's `dependent`, as in npm output.
+ *
+ * @param output - The command output.
+ * @returns The outdated entries by package name.
+ */
+export function yarnOutdated(
+  output: string,
+): Record<string, OutdatedEntry & { dependent?: string }> {
+  const outdated: Record<string, OutdatedEntry & { dependent?: string }> = {};
+  for (const line of output.split(/\r?\n/)) {
+    let data: unknown;
+    try {
+      data = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    const table =
+      data &&
+      typeof data === 'object' &&
+      'type' in data &&
+      data.type === 'table'
+        ? (data as { data?: { head?: unknown; body?: unknown } }).data
+        : null;
+    if (!Array.isArray(table?.head) || !Array.isArray(table.body)) {
+      continue;
+    }
+    const column = (name: string) => (table.head as unknown[]).indexOf(name);
+    const [pkg, current, wanted, latest, workspace] = [
+      'Package',
+      'Current',
+      'Wanted',
+      'Latest',
+      'Workspace',
+    ].map(column);
+    for (const row of table.body) {
+      if (!Array.isArray(row)) {
+        continue;
+      }
+      const entry = {
+        current: row[current],
+        wanted: row[wanted],
+        latest: row[latest],
+      };
+      if (typeof row[pkg] !== 'string' || !isOutdatedEntry(entry)) {
+        continue;
+      }
+      outdated[row[pkg]] =
+        workspace !== -1 && typeof row[workspace] === 'string'
+          ? { ...entry, dependent: row[workspace] }
+          : entry;
+    }
+  }
+  return outdated;
+}
+
+/**
+ * Removes the quotes around a Yarn 1 lockfile string.
+ */
+function unquote(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.startsWith('"') && trimmed.endsWith('"')
+    ? trimmed.slice(1, -1)
+    : trimmed;
+}
+
+/**
+ * Reads the resolved version of each descriptor (`name@range`) in yarn.lock.
+ *
+ * Yarn 1 writes an indented block per resolution under a line with its descriptors;
+ * Yarn 2+ writes YAML with the same structure, where plain ranges are prefixed with the
+ * `npm:` protocol. Both list several descriptors on one line, separated by commas.
+ */
+function yarnVersionsByDescriptor(content: string): Map<string, string> {
+  const versions = new Map<string, string>();
+  const add = (key: string, version: unknown) => {
+    if (typeof version !== 'string' && typeof version !== 'number') {
+      return;
+    }
+    for (const descriptor of key.split(',')) {
+      versions.set(unquote(descriptor), String(version));
+    }
+  };
+
+  if (isBerryLockfile(content)) {
+    const data = parseYaml(content);
+    if (data && typeof data === 'object') {
+      for (const [key, value] of Object.entries(data)) {
+        if (key !== '__metadata' && value && typeof value === 'object') {
+          add(key, (value as Record<string, unknown>).version);
+        }
+      }
+    }
+    return versions;
+  }
+
+  let key: string | null = null;
+  for (const line of content.split(/\r?\n/)) {
+    if (line.trim() === '' || line.startsWith('#')) {
+      continue;
+    }
+    if (!/^\s/.test(line)) {
+      key = line.replace(/:\s*$/, '');
+    } else if (key !== null && /^ {2}version /.test(line)) {
+      add(key, unquote(line.trim().slice('version'.length)));
+    }
+  }
+  return versions;
+}
+
+/**
+ * Reads the installed versions of a project's dependencies from yarn.lock (Yarn 1 or
+ * Yarn 2+).
+ *
+ * yarn.lock is keyed by dependency range rather than by project, so each dependency is
+ * looked up by its name and the range in package.json. Workspace packages
+ * (`0.0.0-use.local` in Yarn 2+) have no installed version.
+ *
+ * @param content - The lockfile content.
+ * @param dependencies - Dependency ranges from the project's package.json, by name.
+ * @returns Record mapping dependency names to their installed versions.
+ */
+export function yarnInstalledVersions(
+  content: string,
+  dependencies: Record<string, string>,
+): Record<string, string> {
+  const byDescriptor = yarnVersionsByDescriptor(content);
+  const versions: Record<string, string> = {};
+  for (const [name, range] of Object.entries(dependencies)) {
+    const version =
+      byDescriptor.get(`${name}@${range}`) ??
+      byDescriptor.get(`${name}@npm:${range}`);
+    if (version && !version.endsWith('-use.local')) {
+      versions[name] = version;
+    }
+  }
+  return versions;
+}
+
+/**
+ * Parses JSON with comments and trailing commas (JSONC), as written by Bun.
+ *
+ * @returns The parsed value, or null if the content is not valid.
+ */
+function parseJsonc(content: string): unknown {
+  const string = /"(?:[^"\\]|\\.)*"/y;
+  let json = '';
+  for (let i = 0; i < content.length; i++) {
+    const c = content[i];
+    if (c === '"') {
+      string.lastIndex = i;
+      const literal = string.exec(content)?.[0] ?? content.slice(i);
+      json += literal;
+      i += literal.length - 1;
+    } else if (c === '/' && content[i + 1] === '/') {
+      const end = content.indexOf('\n', i);
+      i = end === -1 ? content.length : end - 1;
+    } else if (c === '/' && content[i + 1] === '*') {
+      const end = content.indexOf('*/', i + 2);
+      i = end === -1 ? content.length : end + 1;
+    } else if (
+      c !== ',' ||
+      !/^(?:\s|\/\/[^\n]*|\/\*[\s\S]*?\*\/)*[}\]]/.test(
+        content.slice(i + 1, i + 200),
+      )
+    ) {
+      json += c;
+    }
+  }
+  try {
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the installed versions of a project from bun.lock (the text lockfile of Bun 1.1+).
+ *
+ * `workspaces` lists the dependency ranges of each project of a workspace by its path
+ * (`""` for the root). `packages` maps each dependency to its resolution
+ * (`["name@1.0.0", ...]`): hoisted under its name, or under `<workspace>/<name>` when a
+ * workspace has its own version. Workspace and local packages have no installed version.
+ *
+ * @param content - The lockfile content.
+ * @param workspacePath - Workspace directory relative to the lockfile, or '' for the root.
+ * @returns Record mapping dependency names to their installed versions.
+ */
+export function bunInstalledVersions(
+  content: string,
+  workspacePath = '',
+): Record<string, string> {
+  const data = parseJsonc(content);
+  if (!data || typeof data !== 'object') {
+    return {};
+  }
+  const { workspaces, packages } = data as Record<string, unknown>;
+  const workspace =
+    workspaces && typeof workspaces === 'object'
+      ? (workspaces as Record<string, unknown>)[workspacePath]
+      : null;
+  if (!workspace || typeof workspace !== 'object' || !packages) {
+    return {};
+  }
+  const { name } = workspace as Record<string, unknown>;
+
+  const resolve = (dep: string): string | null => {
+    const entry =
+      (typeof name === 'string' &&
+        (packages as Record<string, unknown>)[`${name}/${dep}`]) ||
+      (packages as Record<string, unknown>)[dep];
+    const resolution = Array.isArray(entry) ? entry[0] : null;
+    if (typeof resolution !== 'string') {
+      return null;
+    }
+    const version = resolution.slice(resolution.lastIndexOf('@') + 1);
+    return /^\d+\.\d+\.\d+/.test(version) ? version : null;
+  };
+
+  const versions: Record<string, string> = {};
+  for (const section of [
+    'optionalDependencies',
+    'devDependencies',
+    'dependencies',
+  ]) {
+    const deps = (workspace as Record<string, unknown>)[section];
+    if (!deps || typeof deps !== 'object') {
+      continue;
+    }
+    for (const dep of Object.keys(deps)) {
+      const version = resolve(dep);
+      if (version) {
+        versions[dep] = version;
+      }
+    }
+  }
+  return versions;
+}
@@ -0,0 +1,138 @@
+import { readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { NPMRC_FILE_NAME } from './constants.js';
+import type { NpmrcSettings } from './types.js';
+
+/**
+ * Parses the content of an .npmrc file (ini format).
+ *
+ * Comments (`#`, `;`), blank lines and section headers are ignored. Surrounding
+ * quotes are removed from values. Later keys override earlier ones, except for
+ * `key[]` array entries, which are joined with newlines.
+ *
+ * @param content - The raw file content.
+ * @returns Key/value settings from the file.
+ */
+export function parseNpmrc(content: string): NpmrcSettings {
+  const settings: NpmrcSettings = {};
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) {
+      continue;
+    }
+    if (line.startsWith('[') && line.endsWith(']')) {
+      continue;
+    }
+    const eq = line.indexOf('=');
+    if (eq <= 0) {
+      continue;
+    }
+    const key = line.slice(0, eq).trim();
+    let value = line.slice(eq + 1).trim();
+    if (
+      value.length >= 2 &&
+      (value[0] === '"' || value[0] === "'") &&
+      value.endsWith(value[0])
+    ) {
+      value = value.slice(1, -1);
+    }
+    if (key.endsWith('[]')) {
+      // Array entries (e.g. `ca[]=...`) are joined with newlines
+      const base = key.slice(0, -2);
+      settings[base] = settings[base] ? `${settings[base]}\n${value}` : value;
+      continue;
+    }
+    settings[key] = value;
+  }
+  return settings;
+}
+
+/**
+ * Replaces `${VAR}` references with environment variables, as npm does.
+ *
+ * `${VAR?}` resolves to an empty string when VAR is unset; other unset references are
+ * left untouched.
+ *
+ * @param value - The raw setting key or value.
+ * @param env - Environment variables.
+ * @returns The interpolated string.
+ */
+export function interpolateEnv(
+  value: string,
+  env: Record<string, string | undefined> = process.env,
+): string {
+  return value.replace(
+    /(\\*)\$\{([^${}?]+)(\?)?\}/g,
+    (match, escapes: string, name: string, optional?: string) => {
+      if (escapes.length % 2 === 1) {
+        return match.slice(1);
+      }
+      const resolved = env[name];
+      if (resolved !== undefined) {
+        return `${escapes}${resolved}`;
+      }
+      return optional ? escapes : match;
+    },
+  );
+}
+
+function readNpmrc(path: string): NpmrcSettings {
+  try {
+    return parseNpmrc(readFileSync(path, 'utf-8'));
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Returns the .npmrc locations npm would read, from lowest to highest precedence.
+ *
+ * Honours `npm_config_globalconfig`, `npm_config_prefix` and `npm_config_userconfig`.
+ *
+ * @param cwd - The project directory.
+ * @param env - Environment variables (defaults to process.env).
+ * @returns Paths of the global, user and project .npmrc files.
+ */
+export function npmrcPaths(
+  cwd: string,
+  env: Record<string, string | undefined> = process.env,
+): string[] {
+  const prefix =
+    env.npm_config_prefix ??
+    (process.platform === 'win32'
+      ? dirname(process.execPath)
+      : dirname(dirname(process.execPath)));
+  const globalPath =
+    env.npm_config_globalconfig ?? join(prefix, 'etc', NPMRC_FILE_NAME);
+  const userPath =
+    env.npm_config_userconfig ?? join(homedir(), NPMRC_FILE_NAME);
+  return [globalPath, userPath, join(cwd, NPMRC_FILE_NAME)];
+}
+
+/**
+ * Loads and merges npm settings for a project.
+ *
+ * Precedence (highest first): `npm_config_registry` from the environment, the
+ * project .npmrc, the user .npmrc, and the global npmrc. Missing files are ignored.
+ * `${VAR}` references in keys and values are replaced with environment variables.
+ *
+ * @param cwd - The project directory.
+ * @param env - Environment variables (defaults to process.env).
+ * @returns The merged settings.
+ */
+export function loadNpmrc(
+  cwd: string,
+  env: Record<string, string | undefined> = process.env,
+): NpmrcSettings {
+  const settings: NpmrcSettings = {};
+  for (const path of npmrcPaths(cwd, env)) {
+    for (const [key, value] of Object.entries(readNpmrc(path))) {
+      settings[interpolateEnv(key, env)] = interpolateEnv(value, env);
+    }
+  }
+  if (env.npm_config_registry) {
+    settings.registry = env.npm_config_registry;
+  }
+  return settings;
+}
@@ -0,0 +1,90 @@
+import { readFileSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+import { readCacheEntry } from './cache.js';
+import { packumentUrl } from './registry.js';
+import type { Meta, RegistryConfig } from './types.js';
+import {
+  extractLatestVersion,
+  extractTimeMap,
+  isValidNpmRegistryResponse,
+} from './utils.js';
+
+/**
+ * Where --offline looks for registry metadata.
+ */
+export type OfflineSources = {
+  registries: RegistryConfig;
+  cacheDir: string | null;
+  packumentDir: string | null;
+};
+
+/**
+ * Reads a packument exported to a directory (e.g. `curl .../lodash > dir/lodash.json`).
+ *
+ * Scoped packages may be stored as `@scope/name.json` or `@scope%2fname.json`. The
+ * file's modification time is used as the time the metadata was saved.
+ *
+ * @param dir - The packument directory.
+ * @param pkg - The package name.
+ * @returns Metadata with `cachedAt`, or null if no valid packument exists.
+ */
+export function readPackument(dir: string, pkg: string): Meta | null {
+  const candidates = [
+    join(dir, `${pkg}.json`),
+    join(dir, `${pkg.replace('/', '%2f')}.json`),
+  ];
+  for (const path of candidates) {
+    try {
+      const data: unknown = JSON.parse(readFileSync(path, 'utf-8'));
+      if (!isValidNpmRegistryResponse(data)) {
+        continue;
+      }
+      return {
+        latest: extractLatestVersion(data),
+        timeMap: extractTimeMap(data),
+        cachedAt: statSync(path).mtimeMs,
+      };
+    } catch {
+      // Missing or invalid file, try the next candidate
+    }
+  }
+  return null;
+}
+
+/**
+ * Loads metadata for packages without touching the network.
+ *
+ * An imported packument directory takes precedence over the metadata cache written by
+ * earlier online runs. Every returned Meta carries `cachedAt`.
+ *
+ * @param pkgs - Package names to look up.
+ * @param sources - Packument directory, cache directory and registries (for cache keys).
+ * @returns Metadata by package name, and the packages without local metadata.
+ */
+export function loadOfflineMetas(
+  pkgs: string[],
+  sources: OfflineSources,
+): { metas: Record<string, Meta>; missing: string[] } {
+  const metas: Record<string, Meta> = {};
+  const missing: string[] = [];
+  for (const pkg of pkgs) {
+    const fromDir = sources.packumentDir
+      ? readPackument(sources.packumentDir, pkg)
+      : null;
+    const entry =
+      fromDir || !sources.cacheDir
+        ? null
+        : readCacheEntry(
+            sources.cacheDir,
+            packumentUrl(pkg, sources.registries),
+          );
+    const meta =
+      fromDir ?? (entry ? { ...entry.meta, cachedAt: entry.fetchedAt } : null);
+    if (meta) {
+      metas[pkg] = meta;
+    } else {
+      missing.push(pkg);
+    }
+  }
+  return { metas, missing };
+}
@@ -1,12 +1,85 @@
-import { colorAge, colorBumpType, colors, isColorEnabled } from './colors.js';
-import type { BumpType, Row } from './types.js';
+import {
+  ageLevel,
+  colorAge,
+  colorBumpType,
+  colors,
+  isColorEnabled,
+} from './colors.js';
+import {
+  JSON_REPORT_SCHEMA_VERSION,
+  SARIF_SCHEMA_URI,
+  TOOL_INFORMATION_URI,
+} from './constants.js';
+import type {
+  Args,
+  BumpType,
+  JsonReport,
+  JsonReportPackage,
+  MissingPackage,
+  Row,
+  SarifLevel,
+  SarifLog,
+  SarifResult,
+  SarifRule,
+  OutputSink,
+  SkippedPackage,
+  UnresolvedPackage,
+  UpToDatePackage,
+  VersionMismatch,
+} from './types.js';
+import { isCancelledPackage } from './errors.js';
+import { findDependencyLine } from './utils.js';
+
+/**
+ * Sink that prints every line to the console.
+ */
+export const consoleSink: OutputSink = {
+  writeLine: (line) => console.log(line),
+};
+
+/**
+ * Sink that prints every line to stderr, for notes that must stay out of a report on
+ * stdout or in an --output file.
+ */
+export const stderrSink: OutputSink = {
+  writeLine: (line) => console.error(line),
+};
+
+/**
+ * Creates a sink that collects lines in memory, e.g. for writing a report to a file.
+ * ANSI color codes are stripped from collected lines.
+ */
+export function createStringSink(): OutputSink & { toString(): string } {
+  const lines: string[] = [];
+  return {
+    writeLine: (line) => {
+      lines.push(stripAnsi(line));
+    },
+    toString: () => (lines.length > 0 ? `${lines.join('\n')}\n` : ''),
+  };
+}
+
+/**
+ * Checks whether a format is meant for machine consumption or is a standalone document.
+ * Info messages must not be mixed into such output.
+ */
+export function isMachineReadableFormat(format: Args['format']): boolean {
+  return (
+    format === 'json' ||
+    format === 'csv' ||
+    format === 'tsv' ||
+    format === 'sarif' ||
+    format === 'junit' ||
+    format === 'html'
+  );
+}
 
 /**
  * Prints information about skipped packages.
  */
 export function printSkippedInfo(
   skippedPackages: string[],
-  format: 'plain' | 'md',
+  format: Args['format'],
 ) {
   if (skippedPackages.length === 0) {
     return;
@@ -25,6 +98,249 @@ export function printSkippedInfo(
   }
 }
 
+/**
+ * Prints the packages for which --offline found no locally stored metadata.
+ */
+export function printOfflineMissingInfo(
+  missingPackages: string[],
+  format: Args['format'],
+  sink: OutputSink = consoleSink,
+) {
+  if (missingPackages.length === 0) {
+    return;
+  }
+
+  const message = `No local metadata for ${missingPackages.length} package(s), run once online or use --packuments: ${missingPackages.join(', ')}`;
+
+  switch (format) {
+    case 'md':
+      sink.writeLine(`> **Warning:** ${message}`);
+      sink.writeLine('');
+      break;
+    default:
+      sink.writeLine(`${colors.yellow('!')}  ${message}`);
+      sink.writeLine('');
+  }
+}
+
+/**
+ * Describes why a report is incomplete, or returns null if every package was checked.
+ */
+function incompleteNotice(unresolved: UnresolvedPackage[]): string | null {
+  const cancelled = unresolved.filter(isCancelledPackage);
+  return cancelled.length === 0
+    ? null
+    : `${cancelled.length} package(s) not checked (${cancelled[0].message})`;
+}
+
+/**
+ * Prints the "could not resolve" section for the plain and Markdown formats, after the
+ * table. JSON, SARIF, JUnit and HTML reports include unresolved packages in the document
+ * itself; CSV and TSV print the plain section to stderr, so the file stays one table.
+ *
+ * Packages that were not checked because the run was cancelled are summarized in an
+ * "incomplete results" line.
+ *
+ * @param unresolved - Packages whose metadata could not be fetched.
+ * @param format - The output format (plain or md).
+ * @param sink - Where to write the section.
+ */
+export function printUnresolved(
+  unresolved: UnresolvedPackage[],
+  format: Args['format'],
+  sink: OutputSink = consoleSink,
+) {
+  if (unresolved.length === 0) {
+    return;
+  }
+  const singleLine = (text: string) => text.replace(/\s*\n\s*/g, ' ');
+  const failed = unresolved.filter((u) => !isCancelledPackage(u));
+  const incomplete = incompleteNotice(unresolved);
+
+  switch (format) {
+    case 'md':
+      if (failed.length > 0) {
+        sink.writeLine('');
+        sink.writeLine('### Could not resolve');
+        sink.writeLine('');
+        sink.writeLine('| Package | Code | Message |');
+        sink.writeLine('| --- | --- | --- |');
+        for (const u of failed) {
+          sink.writeLine(
+            `| ${u.name} | ${u.code} | ${singleLine(u.message).replace(/\|/g, '\\|')} |`,
+          );
+        }
+      }
+      if (incomplete) {
+        sink.writeLine('');
+        sink.writeLine(`> **Incomplete results:** ${incomplete}`);
+      }
+      break;
+    default:
+      if (failed.length > 0) {
+        sink.writeLine('');
+        sink.writeLine(
+          `${colors.red('x')}  Could not resolve ${failed.length} package(s):`,
+        );
+        for (const u of failed) {
+          sink.writeLine(
+            `   ${colors.bold(u.name)}  ${colors.gray(u.code)}  ${u.message.replace(/\n/g, '\n     ')}`,
+          );
+        }
+      }
+      if (incomplete) {
+        sink.writeLine('');
+        sink.writeLine(
+          `${colors.yellow('!')}  Incomplete results: ${incomplete}`,
+        );
+      }
+  }
+}
+
+/**
+ * Prints the "different versions across projects" section of a --recursive check for the
+ * plain and Markdown formats, after the table. JSON and HTML reports include it in the
+ * document; CSV and TSV print the plain section to stderr.
+ *
+ * @param mismatches - Dependencies installed in different versions across projects.
+ * @param format - The output format (plain or md).
+ * @param sink - Where to write the section.
+ */
+export function printVersionMismatches(
+  mismatches: VersionMismatch[],
+  format: Args['format'],
+  sink: OutputSink = consoleSink,
+) {
+  if (mismatches.length === 0) {
+    return;
+  }
+
+  switch (format) {
+    case 'md':
+      sink.writeLine('');
+      sink.writeLine('### Different versions across projects');
+      sink.writeLine('');
+      sink.writeLine('| Package | Version | Projects | Latest |');
+      sink.writeLine('| --- | --- | --- | --- |');
+      for (const m of mismatches) {
+        for (const v of m.versions) {
+          sink.writeLine(
+            `| ${m.name} | ${v.version} | ${v.projects.join(', ')} | ${m.latest ?? ''} |`,
+          );
+        }
+      }
+      break;
+    default:
+      sink.writeLine('');
+      sink.writeLine(
+        `${colors.yellow('!')}  ${mismatches.length} package(s) with different versions across projects:`,
+      );
+      for (const m of mismatches) {
+        const versions = m.versions
+          .map((v) => `${v.version} (${v.projects.join(', ')})`)
+          .join(', ');
+        const latest = m.latest ? colors.gray(`  latest ${m.latest}`) : '';
+        sink.writeLine(`   ${colors.bold(m.name)}  ${versions}${latest}`);
+      }
+  }
+}
+
+/**
+ * Checks whether any row was built from locally stored metadata (--offline).
+ * Such reports get an extra column showing how old the data is.
+ */
+function hasCachedRows(rows: Row[]): boolean {
+  return rows.some((r) => r._cached_at !== undefined);
+}
+
+/**
+ * Leading columns that tell which project or workspace a row belongs to.
+ */
+type GroupColumn = 'Project' | 'Workspace';
+
+/**
+ * Finds the group columns of the rows: "Project" for --recursive checks and "Workspace"
+ * for workspace checks (--workspaces / --workspace).
+ */
+function groupColumns(rows: Row[]): GroupColumn[] {
+  return (['Project', 'Workspace'] as const).filter((column) =>
+    rows.some((r) => r[column] !== undefined),
+  );
+}
+
+/**
+ * Column headers of the tabular formats, depending on --wanted.
+ * With `cached`, a "Cached" column is added before the index column; `groups` are added
+ * in front.
+ */
+function tableHeaders(
+  showWanted: boolean,
+  cached = false,
+  groups: GroupColumn[] = [],
+): string[] {
+  const headers = showWanted
+    ? [
+        'Package',
+        'Current',
+        'Wanted',
+        'To Wanted',
+        'Latest',
+        'To Latest',
+        'Published (Wanted)',
+        'Age(d) (Wanted)',
+        'Published (Latest)',
+        'Age(d) (Latest)',
+        '#',
+      ]
+    : ['Package', 'Current', 'Latest', 'To Latest', 'Published', 'Age(d)', '#'];
+  const withCached = cached ? withCachedColumn(headers, 'Cached') : headers;
+  return [...groups, ...withCached];
+}
+
+/**
+ * Inserts the "Cached" value before the trailing index column.
+ */
+function withCachedColumn(values: string[], cached: string): string[] {
+  return [...values.slice(0, -1), cached, values[values.length - 1]];
+}
+
+/**
+ * Uncolored cell values of a row, matching the columns of tableHeaders().
+ */
+function tableValues(
+  r: Row,
+  index: number,
+  showWanted: boolean,
+  cached = false,
+  groups: GroupColumn[] = [],
+): string[] {
+  const values = showWanted
+    ? [
+        r.Package,
+        r.Current,
+        r.Wanted,
+        r.ToWanted,
+        r.Latest,
+        r.ToLatest,
+        r.PublishedWanted,
+        r.AgeWanted,
+        r.PublishedLatest,
+        r.AgeLatest,
+        String(index + 1),
+      ]
+    : [
+        r.Package,
+        r.Current,
+        r.Latest,
+        r.ToLatest,
+        r.PublishedLatest,
+        r.AgeLatest,
+        String(index + 1),
+      ];
+  const withCached = cached ? withCachedColumn(values, r.Cached ?? '') : values;
+  return [...groups.map((g) => r[g] ?? ''), ...withCached];
+}
+
 /**
  * Strip ANSI codes from a string to get actual display length
  * Match and remove ANSI escape sequences (control characters required for terminal colors)
@@ -59,56 +375,34 @@ function formatAge(ageStr: string): string {
   return colorAge(age);
 }
 
+const RIGHT_ALIGNED_COLUMNS = new Set([
+  'Age(d)',
+  'Age(d) (Wanted)',
+  'Age(d) (Latest)',
+  'Cached',
+  '#',
+]);
+
 /**
  * Prints package information in plain text format with colored output.
  */
-export function printPlain(rows: Row[], showWanted = false) {
-  const headers = showWanted
-    ? [
-        'Package',
-        'Current',
-        'Wanted',
-        'To Wanted',
-        'Latest',
-        'To Latest',
-        'Published (Wanted)',
-        'Age(d) (Wanted)',
-        'Published (Latest)',
-        'Age(d) (Latest)',
-        '#',
-      ]
-    : ['Package', 'Current', 'Latest', 'To Latest', 'Published', 'Age(d)', '#'];
+export function printPlain(
+  rows: Row[],
+  showWanted = false,
+  sink: OutputSink = consoleSink,
+) {
+  const cached = hasCachedRows(rows);
+  const groups = groupColumns(rows);
+  const headers = tableHeaders(showWanted, cached, groups);
 
   // Build row data with raw values for width calculation
   const rawRows = rows.map((r, i) =>
-    showWanted
-      ? [
-          r.Package,
-          r.Current,
-          r.Wanted,
-          r.ToWanted,
-          r.Latest,
-          r.ToLatest,
-          r.PublishedWanted,
-          r.AgeWanted,
-          r.PublishedLatest,
-          r.AgeLatest,
-          String(i + 1),
-        ]
-      : [
-          r.Package,
-          r.Current,
-          r.Latest,
-          r.ToLatest,
-          r.PublishedLatest,
-          r.AgeLatest,
-          String(i + 1),
-        ],
+    tableValues(r, i, showWanted, cached, groups),
   );
 
   // Build colored row data for display
-  const coloredRows = rows.map((r, i) =>
-    showWanted
+  const coloredRows = rows.map((r, i) => {
+    const values = showWanted
       ? [
           colors.bold(r.Package),
           r.Current,
@@ -130,8 +424,12 @@ export function printPlain(rows: Row[], showWanted = false) {
           r.PublishedLatest,
           formatAge(r.AgeLatest),
           colors.gray(String(i + 1)),
-        ],
-  );
+        ];
+    const withCached = cached
+      ? withCachedColumn(values, colors.gray(r.Cached ?? ''))
+      : values;
+    return [...groups.map((g) => r[g] ?? ''), ...withCached];
+  });
 
   // Calculate widths based on raw (uncolored) values
   const all = [headers, ...rawRows];
@@ -145,15 +443,8 @@ export function printPlain(rows: Row[], showWanted = false) {
       .map((v, i) => {
         const rawLen = useColor ? displayLength(v) : v.length;
         const padding = widths[i] - rawLen;
-        // Right-align last column (#) and Age columns
-        // Age columns are at indices:
-        // - showWanted=false: 5 (Age), 6 (#)
-        // - showWanted=true: 7 (AgeWanted), 9 (AgeLatest), 10 (#)
-        const isNumeric = showWanted
-          ? i === 7 || i === 9 || i === 10
-          : i === 5 || i === 6;
-
-        if (isNumeric) {
+        // Right-align the index (#), Age and Cached columns
+        if (RIGHT_ALIGNED_COLUMNS.has(headers[i])) {
           return ' '.repeat(Math.max(0, padding)) + v;
         }
         return v + ' '.repeat(Math.max(0, padding));
@@ -164,8 +455,8 @@ export function printPlain(rows: Row[], showWanted = false) {
   const coloredHeaders = isColorEnabled()
     ? headers.map((h) => colors.gray(h))
     : headers;
-  console.log(fmt(coloredHeaders, isColorEnabled()));
-  console.log(
+  sink.writeLine(fmt(coloredHeaders, isColorEnabled()));
+  sink.writeLine(
     fmt(
       widths.map((w) => '-'.repeat(w)),
       false,
@@ -174,58 +465,944 @@ export function printPlain(rows: Row[], showWanted = false) {
 
   // Print rows with colors
   for (const coloredRow of coloredRows) {
-    console.log(fmt(coloredRow, true));
+    sink.writeLine(fmt(coloredRow, true));
   }
 }
 
 /**
  * Prints package information in Markdown table format.
  */
-export function printMarkdown(rows: Row[], showWanted = false) {
+export function printMarkdown(
+  rows: Row[],
+  showWanted = false,
+  sink: OutputSink = consoleSink,
+) {
   // Markdown output without colors (for file output compatibility)
-  const headers = showWanted
+  const cached = hasCachedRows(rows);
+  const groups = groupColumns(rows);
+  const headers = tableHeaders(showWanted, cached, groups);
+
+  sink.writeLine(`| ${headers.join(' | ')} |`);
+  sink.writeLine(`| ${headers.map(() => '---').join(' | ')} |`);
+  for (let i = 0; i < rows.length; i++) {
+    const values = tableValues(rows[i], i, showWanted, cached, groups);
+    sink.writeLine(`| ${values.join(' | ')} |`);
+  }
+}
+
+/**
+ * Quotes a value for delimited output (RFC 4180 style) when needed.
+ */
+function escapeDelimited(value: string, delimiter: string): string {
+  if (value.includes(delimiter) || /["\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Formats an internal timestamp (0 = unknown) as a locale-independent ISO string.
+ */
+function isoOrEmpty(ms: number): string {
+  return ms > 0 ? new Date(ms).toISOString() : '';
+}
+
+/**
+ * Formats an internal age (Infinity = unknown) as a plain number.
+ */
+function ageOrEmpty(age: number): string {
+  return Number.isFinite(age) ? String(age) : '';
+}
+
+/**
+ * Prints package information as delimiter-separated values (CSV or TSV).
+ *
+ * Uses the same column set as the other tabular formats, but always prints
+ * ISO 8601 timestamps and leaves unknown dates and ages empty so that
+ * spreadsheets can import the file regardless of locale. The "Cached"
+ * column (offline reports only) holds the time the metadata was fetched.
+ */
+export function printDelimited(
+  rows: Row[],
+  showWanted = false,
+  delimiter: ',' | '\t' = ',',
+  sink: OutputSink = consoleSink,
+) {
+  const line = (values: string[]) =>
+    values.map((v) => escapeDelimited(v, delimiter)).join(delimiter);
+
+  const cached = hasCachedRows(rows);
+  const groups = groupColumns(rows);
+  sink.writeLine(line(tableHeaders(showWanted, cached, groups)));
+  rows.forEach((r, i) => {
+    const values = tableValues(
+      {
+        ...r,
+        PublishedWanted: isoOrEmpty(r._published_wanted),
+        AgeWanted: ageOrEmpty(r._age_wanted),
+        PublishedLatest: isoOrEmpty(r._published_latest),
+        AgeLatest: ageOrEmpty(r._age_latest),
+        Cached: isoOrEmpty(r._cached_at ?? 0),
+      },
+      i,
+      showWanted,
+      cached,
+      groups,
+    );
+    sink.writeLine(line(values));
+  });
+}
+
+/**
+ * Converts an internal timestamp (0 = unknown) to epoch milliseconds or null.
+ */
+function rawTimestamp(ms: number): number | null {
+  return ms > 0 ? ms : null;
+}
+
+/**
+ * Converts an internal age (Infinity = unknown) to days or null.
+ */
+function rawAge(age: number): number | null {
+  return Number.isFinite(age) ? age : null;
+}
+
+function toJsonPackage(r: Row): JsonReportPackage {
+  const publishedWantedMs = rawTimestamp(r._published_wanted);
+  const publishedLatestMs = rawTimestamp(r._published_latest);
+  return {
+    name: r.Package,
+    current: r.Current,
+    wanted: r.Wanted,
+    latest: r.Latest,
+    toWanted: r.ToWanted,
+    toLatest: r.ToLatest,
+    publishedWanted:
+      publishedWantedMs === null
+        ? null
+        : new Date(publishedWantedMs).toISOString(),
+    publishedWantedMs,
+    ageWanted: rawAge(r._age_wanted),
+    publishedLatest:
+      publishedLatestMs === null
+        ? null
+        : new Date(publishedLatestMs).toISOString(),
+    publishedLatestMs,
+    ageLatest: rawAge(r._age_latest),
+    cachedAt:
+      r._cached_at === undefined ? null : new Date(r._cached_at).toISOString(),
+    cachedAtMs: r._cached_at ?? null,
+    workspace: r.Workspace ?? null,
+    project: r.Project ?? null,
+  };
+}
+
+/**
+ * Builds the versioned JSON report document.
+ *
+ * @param rows - Rows to include, already filtered and sorted.
+ * @param skipped - Packages hidden by skip entries.
+ * @param unresolved - Packages whose metadata could not be fetched.
+ * @param mismatches - Dependencies installed in different versions across projects.
+ * @param missing - Packages without local metadata (offline mode).
+ * @returns The report document.
+ */
+export function buildJsonReport(
+  rows: Row[],
+  skipped: SkippedPackage[] = [],
+  unresolved: UnresolvedPackage[] = [],
+  mismatches: VersionMismatch[] = [],
+  missing: MissingPackage[] = [],
+): JsonReport {
+  const byBumpType: Record<BumpType, number> = {
+    major: 0,
+    minor: 0,
+    patch: 0,
+    prerelease: 0,
+    same: 0,
+    unknown: 0,
+  };
+  for (const r of rows) {
+    byBumpType[r.ToLatest] += 1;
+  }
+
+  return {
+    schemaVersion: JSON_REPORT_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    incomplete: unresolved.some(isCancelledPackage),
+    summary: {
+      total: rows.length,
+      skipped: skipped.length,
+      unresolved: unresolved.length,
+      missing: missing.length,
+      byBumpType,
+    },
+    skipped,
+    unresolved,
+    missing,
+    packages: rows.map(toJsonPackage),
+    mismatches,
+  };
+}
+
+/**
+ * Prints package information as a versioned JSON document.
+ */
+export function printJson(
+  rows: Row[],
+  skipped: SkippedPackage[] = [],
+  unresolved: UnresolvedPackage[] = [],
+  mismatches: VersionMismatch[] = [],
+  missing: MissingPackage[] = [],
+  sink: OutputSink = consoleSink,
+) {
+  sink.writeLine(
+    JSON.stringify(
+      buildJsonReport(rows, skipped, unresolved, mismatches, missing),
+      null,
+      2,
+    ),
+  );
+}
+
+/**
+ * One SARIF rule per bump type that can show up in a report.
+ */
+const SARIF_RULES: Partial<Record<BumpType, SarifRule>> = {
+  major: {
+    id: 'outdated-major',
+    name: 'OutdatedMajor',
+    shortDescription: { text: 'A new major version is available' },
+    defaultConfiguration: { level: 'warning' },
+  },
+  minor: {
+    id: 'outdated-minor',
+    name: 'OutdatedMinor',
+    shortDescription: { text: 'A new minor version is available' },
+    defaultConfiguration: { level: 'warning' },
+  },
+  patch: {
+    id: 'outdated-patch',
+    name: 'OutdatedPatch',
+    shortDescription: { text: 'A new patch version is available' },
+    defaultConfiguration: { level: 'note' },
+  },
+  prerelease: {
+    id: 'outdated-prerelease',
+    name: 'OutdatedPrerelease',
+    shortDescription: { text: 'A new prerelease version is available' },
+    defaultConfiguration: { level: 'note' },
+  },
+  unknown: {
+    id: 'outdated-unknown',
+    name: 'OutdatedUnknown',
+    shortDescription: {
+      text: 'A newer version is available (bump type could not be determined)',
+    },
+    defaultConfiguration: { level: 'note' },
+  },
+};
+
+/**
+ * Maps the age of the latest version to a SARIF level, using the same
+ * thresholds as the age colorization.
+ */
+function sarifLevel(age: number): SarifLevel {
+  if (!Number.isFinite(age)) {
+    return 'note';
+  }
+  switch (ageLevel(age)) {
+    case 'red':
+      return 'error';
+    case 'yellow':
+      return 'warning';
+    default:
+      return 'note';
+  }
+}
+
+/**
+ * Builds a SARIF 2.1.0 log with one result per row.
+ *
+ * Results of workspace and project rows point at their own package.json.
+ *
+ * @param rows - Rows to include, already filtered and sorted.
+ * @param packageJsonContent - Raw package.json content used to locate dependency lines,
+ * or the content of each package.json by path relative to the project root.
+ * @param unresolved - Packages whose metadata could not be fetched; reported as error
+ * notifications of an unsuccessful invocation.
+ * @param missing - Packages without local metadata (offline mode); reported as warning
+ * notifications.
+ * @returns The SARIF log.
+ */
+export function buildSarifReport(
+  rows: Row[],
+  packageJsonContent: string | Record<string, string> = '',
+  unresolved: UnresolvedPackage[] = [],
+  missing: MissingPackage[] = [],
+): SarifLog {
+  const bumpTypes = Object.keys(SARIF_RULES) as BumpType[];
+  const rules = bumpTypes.map((bump) => SARIF_RULES[bump] as SarifRule);
+  const results: SarifResult[] = [];
+
+  for (const r of rows) {
+    const rule = SARIF_RULES[r.ToLatest];
+    if (!rule) {
+      continue;
+    }
+    const uri =
+      r._package_dir === undefined || r._package_dir === '.'
+        ? 'package.json'
+        : `${r._package_dir}/package.json`;
+    const content =
+      typeof packageJsonContent === 'string'
+        ? uri === 'package.json'
+          ? packageJsonContent
+          : ''
+        : (packageJsonContent[uri] ?? '');
+    const position = findDependencyLine(content, r.Package);
+    const ageLatest = rawAge(r._age_latest);
+    const ageText =
+      ageLatest === null ? '' : `, published ${ageLatest} day(s) ago`;
+    const cachedText = r.Cached ? `; offline data fetched ${r.Cached}` : '';
+    const group = r.Project ?? r.Workspace;
+    const groupText = group ? ` in ${group}` : '';
+
+    results.push({
+      ruleId: rule.id,
+      ruleIndex: bumpTypes.indexOf(r.ToLatest),
+      level: sarifLevel(r._age_latest),
+      message: {
+        text: `${r.Package} ${r.Current}${groupText} can be updated to ${r.Latest} (${r.ToLatest}${ageText}${cachedText})`,
+      },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri },
+            ...(position && {
+              region: {
+                startLine: position.line,
+                startColumn: position.column,
+              },
+            }),
+          },
+        },
+      ],
+      properties: {
+        package: r.Package,
+        current: r.Current,
+        latest: r.Latest,
+        ageLatest,
+        ...(r._cached_at !== undefined && {
+          cachedAt: new Date(r._cached_at).toISOString(),
+        }),
+        ...(r.Workspace !== undefined && { workspace: r.Workspace }),
+        ...(r.Project !== undefined && { project: r.Project }),
+      },
+    });
+  }
+
+  return {
+    $schema: SARIF_SCHEMA_URI,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'outdated-plus',
+            informationUri: TOOL_INFORMATION_URI,
+            rules,
+          },
+        },
+        results,
+        ...((unresolved.length > 0 || missing.length > 0) && {
+          invocations: [
+            {
+              executionSuccessful: unresolved.length === 0,
+              toolExecutionNotifications: [
+                ...unresolved.map((u) => ({
+                  level: 'error' as const,
+                  message: {
+                    text: `Could not resolve ${u.name}: ${u.message}`,
+                  },
+                  properties: { package: u.name, code: u.code },
+                })),
+                ...missing.map((m) => ({
+                  level: 'warning' as const,
+                  message: {
+                    text: `No local metadata for ${m.name}, run once online or use --packuments`,
+                  },
+                  properties: {
+                    package: m.name,
+                    code: 'NO_LOCAL_METADATA',
+                    ...(m.workspace !== undefined && {
+                      workspace: m.workspace,
+                    }),
+                    ...(m.project !== undefined && { project: m.project }),
+                  },
+                })),
+              ],
+            },
+          ],
+        }),
+      },
+    ],
+  };
+}
+
+/**
+ * Prints package information as a SARIF 2.1.0 log.
+ */
+export function printSarif(
+  rows: Row[],
+  packageJsonContent: string | Record<string, string> = '',
+  unresolved: UnresolvedPackage[] = [],
+  missing: MissingPackage[] = [],
+  sink: OutputSink = consoleSink,
+) {
+  sink.writeLine(
+    JSON.stringify(
+      buildSarifReport(rows, packageJsonContent, unresolved, missing),
+      null,
+      2,
+    ),
+  );
+}
+
+/**
+ * Escapes text for use in XML attributes and content.
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Collects the reasons why a row fails the JUnit report (empty = passing).
+ */
+function junitFailures(r: Row, olderThan: number): string[] {
+  const failures: string[] = [];
+  if (r.ToLatest === 'major') {
+    failures.push(`major update available (${r.Current} -> ${r.Latest})`);
+  }
+  if (olderThan > 0) {
+    const ages = [rawAge(r._age_wanted), rawAge(r._age_latest)].filter(
+      (a): a is number => a !== null,
+    );
+    const oldest = Math.max(-1, ...ages);
+    if (oldest >= olderThan) {
+      failures.push(
+        `age of ${oldest} day(s) exceeds --older-than ${olderThan}`,
+      );
+    }
+  }
+  return failures;
+}
+
+/**
+ * Testcases and counts of one JUnit testsuite.
+ */
+type JunitSuite = {
+  testcases: string[];
+  tests: number;
+  failures: number;
+  errors: number;
+  skipped: number;
+};
+
+/**
+ * Prints a JUnit XML report with one testcase per checked dependency.
+ *
+ * Rows fail when a major update is available or when their age reaches
+ * the --older-than cutoff. Up-to-date packages pass, packages hidden
+ * by skip entries are reported as skipped with the skip reason, packages
+ * without local metadata (offline mode) are reported as skipped, and packages
+ * whose metadata could not be fetched are reported as errors.
+ *
+ * Dependencies of workspaces and projects (--recursive) are grouped into one testsuite
+ * per workspace or project; everything else goes into the "dependencies" testsuite.
+ *
+ * @param rows - All outdated rows, regardless of the age cutoff.
+ * @param options - Age cutoff, skipped, up-to-date, missing and unresolved packages.
+ */
+export function printJunit(
+  rows: Row[],
+  options: {
+    olderThan?: number;
+    skipped?: SkippedPackage[];
+    upToDate?: UpToDatePackage[];
+    missing?: MissingPackage[];
+    unresolved?: UnresolvedPackage[];
+  } = {},
+  sink: OutputSink = consoleSink,
+) {
+  const {
+    olderThan = 0,
+    skipped = [],
+    upToDate = [],
+    missing = [],
+    unresolved = [],
+  } = options;
+  const suites = new Map<string, JunitSuite>();
+  // Returns the testsuite of a workspace or project and counts the testcase added to it
+  const suiteOf = (group: string | undefined): JunitSuite => {
+    const name = group ?? 'dependencies';
+    let suite = suites.get(name);
+    if (!suite) {
+      suite = { testcases: [], tests: 0, failures: 0, errors: 0, skipped: 0 };
+      suites.set(name, suite);
+    }
+    suite.tests += 1;
+    return suite;
+  };
+
+  for (const r of rows) {
+    const suite = suiteOf(r.Project ?? r.Workspace);
+    const name = escapeXml(r.Package);
+    const reasons = junitFailures(r, olderThan);
+    const cachedOut =
+      r._cached_at === undefined
+        ? []
+        : [
+            `      <system-out>${escapeXml(`offline data fetched ${new Date(r._cached_at).toISOString()} (${r.Cached})`)}</system-out>`,
+          ];
+    if (reasons.length === 0) {
+      suite.testcases.push(
+        ...(cachedOut.length === 0
+          ? [`    <testcase classname="outdated" name="${name}"/>`]
+          : [
+              `    <testcase classname="outdated" name="${name}">`,
+              ...cachedOut,
+              '    </testcase>',
+            ]),
+      );
+      continue;
+    }
+    suite.failures += 1;
+    const message = escapeXml(reasons.join('; '));
+    const details = escapeXml(
+      `${r.Package}: current ${r.Current}, wanted ${r.Wanted}, latest ${r.Latest} (${r.ToLatest}), latest published ${r.PublishedLatest}`,
+    );
+    suite.testcases.push(
+      `    <testcase classname="outdated" name="${name}">`,
+      `      <failure message="${message}" type="${escapeXml(r.ToLatest)}">${details}</failure>`,
+      ...cachedOut,
+      '    </testcase>',
+    );
+  }
+
+  for (const pkg of upToDate) {
+    suiteOf(pkg.project ?? pkg.workspace).testcases.push(
+      `    <testcase classname="up-to-date" name="${escapeXml(pkg.name)}"/>`,
+    );
+  }
+
+  for (const s of skipped) {
+    const suite = suiteOf(s.project ?? s.workspace);
+    suite.skipped += 1;
+    suite.testcases.push(
+      `    <testcase classname="skipped" name="${escapeXml(s.name)}">`,
+      `      <skipped message="${escapeXml(s.reason)}"/>`,
+      '    </testcase>',
+    );
+  }
+
+  for (const m of missing) {
+    const suite = suiteOf(m.project ?? m.workspace);
+    suite.skipped += 1;
+    suite.testcases.push(
+      `    <testcase classname="missing" name="${escapeXml(m.name)}">`,
+      '      <skipped message="No local metadata, run once online or use --packuments"/>',
+      '    </testcase>',
+    );
+  }
+
+  for (const u of unresolved) {
+    const suite = suiteOf(u.project ?? u.workspace);
+    suite.errors += 1;
+    suite.testcases.push(
+      `    <testcase classname="unresolved" name="${escapeXml(u.name)}">`,
+      `      <error message="Could not resolve package" type="${escapeXml(u.code)}">${escapeXml(u.message)}</error>`,
+      '    </testcase>',
+    );
+  }
+
+  if (suites.size === 0) {
+    suites.set('dependencies', {
+      testcases: [],
+      tests: 0,
+      failures: 0,
+      errors: 0,
+      skipped: 0,
+    });
+  }
+  const all = [...suites.values()];
+  const total = (key: 'tests' | 'failures' | 'errors' | 'skipped') =>
+    all.reduce((sum, suite) => sum + suite[key], 0);
+  const counts = (c: Omit<JunitSuite, 'testcases'>) =>
+    `tests="${c.tests}" failures="${c.failures}" errors="${c.errors}" skipped="${c.skipped}"`;
+  const timestamp = new Date().toISOString();
+
+  sink.writeLine('<?xml version="1.0" encoding="UTF-8"?>');
+  sink.writeLine(
+    `<testsuites name="outdated-plus" ${counts({
+      tests: total('tests'),
+      failures: total('failures'),
+      errors: total('errors'),
+      skipped: total('skipped'),
+    })}>`,
+  );
+  for (const [name, suite] of suites) {
+    sink.writeLine(
+      `  <testsuite name="${escapeXml(name)}" ${counts(suite)} timestamp="${timestamp}">`,
+    );
+    for (const line of suite.testcases) {
+      sink.writeLine(line);
+    }
+    sink.writeLine('  </testsuite>');
+  }
+  sink.writeLine('</testsuites>');
+}
+
+/**
+ * Sort keys offered by the HTML report, with their labels.
+ */
+const HTML_SORT_KEYS: [Args['sortBy'], string][] = [
+  ['published_latest', 'Published (Latest)'],
+  ['published_wanted', 'Published (Wanted)'],
+  ['age_latest', 'Age (Latest)'],
+  ['age_wanted', 'Age (Wanted)'],
+  ['name', 'Name'],
+  ['current', 'Current'],
+  ['wanted', 'Wanted'],
+  ['latest', 'Latest'],
+];
+
+const HTML_STYLE = `
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2328; }
+h1 { font-size: 1.4rem; margin-bottom: 0.25rem; }
+.meta { color: #6e7781; margin-top: 0; }
+.incomplete { color: #9a6700; font-weight: 600; }
+.summary { display: flex; flex-wrap: wrap; gap: 0.5rem; padding: 0; list-style: none; }
+.summary li { border: 1px solid #d0d7de; border-radius: 6px; padding: 0.4rem 0.8rem; }
+.controls { margin: 1rem 0; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border-bottom: 1px solid #d0d7de; padding: 0.4rem 0.6rem; text-align: left; white-space: nowrap; }
+th[data-sort] { cursor: pointer; user-select: none; }
+th[data-sort]:hover { background: #f6f8fa; }
+td.num { text-align: right; }
+.pkg { font-weight: 600; }
+.bump-major, .age-red { color: #cf222e; }
+.bump-minor, .age-yellow { color: #9a6700; }
+.bump-patch, .age-green { color: #1a7f37; }
+.bump-prerelease { color: #0969da; }
+.bump-same, .index, .cached { color: #6e7781; }
+.workspace, .project { color: #0969da; }
+.mismatches h2 { font-size: 1.1rem; color: #9a6700; }
+.unresolved h2 { font-size: 1.1rem; color: #cf222e; }
+.unresolved td { white-space: pre-wrap; }
+.missing h2 { font-size: 1.1rem; color: #9a6700; }
+`;
+
+const HTML_SCRIPT = `
+(function () {
+  var body = document.querySelector('#report tbody');
+  var sortBy = document.getElementById('sort-by');
+  var order = document.getElementById('order');
+  var numeric = { age_latest: 1, age_wanted: 1, published_latest: 1, published_wanted: 1 };
+  function apply() {
+    var key = sortBy.value;
+    var dir = order.value === 'desc' ? -1 : 1;
+    var rows = Array.prototype.slice.call(body.rows);
+    rows.sort(function (a, b) {
+      var x = a.dataset[key];
+      var y = b.dataset[key];
+      if (numeric[key]) {
+        x = Number(x);
+        y = Number(y);
+      }
+      return (x < y ? -1 : x > y ? 1 : 0) * dir;
+    });
+    rows.forEach(function (row, i) {
+      row.querySelector('.index').textContent = String(i + 1);
+      body.appendChild(row);
+    });
+  }
+  sortBy.addEventListener('change', apply);
+  order.addEventListener('change', apply);
+  document.querySelectorAll('th[data-sort]').forEach(function (th) {
+    th.addEventListener('click', function () {
+      if (sortBy.value === th.dataset.sort) {
+        order.value = order.value === 'asc' ? 'desc' : 'asc';
+      } else {
+        sortBy.value = th.dataset.sort;
+      }
+      apply();
+    });
+  });
+})();
+`;
+
+/**
+ * Escapes text for use in HTML content and attributes.
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Renders an age cell with the same color semantics as colorAge().
+ */
+function htmlAgeCell(age: number, text: string): string {
+  const cls = Number.isFinite(age) ? ` age-${ageLevel(age)}` : '';
+  return `<td class="num${cls}">${escapeHtml(text)}</td>`;
+}
+
+/**
+ * Prints package information as a self-contained HTML page.
+ *
+ * The page has inline CSS and JavaScript only, uses the same color semantics
+ * as the terminal output and allows sorting by every --sort-by key in the browser.
+ */
+export function printHtml(
+  rows: Row[],
+  options: {
+    showWanted?: boolean;
+    sortBy?: Args['sortBy'];
+    order?: Args['order'];
+    skipped?: SkippedPackage[];
+    unresolved?: UnresolvedPackage[];
+    missing?: MissingPackage[];
+    mismatches?: VersionMismatch[];
+  } = {},
+  sink: OutputSink = consoleSink,
+) {
+  const {
+    showWanted = false,
+    sortBy = 'published_latest',
+    order = 'desc',
+    skipped = [],
+    unresolved = [],
+    missing = [],
+    mismatches = [],
+  } = options;
+  const { summary } = buildJsonReport(
+    rows,
+    skipped,
+    unresolved,
+    mismatches,
+    missing,
+  );
+  const cached = hasCachedRows(rows);
+  const groups = groupColumns(rows);
+
+  const sortKeys: (Args['sortBy'] | null)[] = showWanted
     ? [
-        'Package',
-        'Current',
-        'Wanted',
-        'To Wanted',
-        'Latest',
-        'To Latest',
-        'Published (Wanted)',
-        'Age(d) (Wanted)',
-        'Published (Latest)',
-        'Age(d) (Latest)',
-        '#',
+        'name',
+        'current',
+        'wanted',
+        null,
+        'latest',
+        null,
+        'published_wanted',
+        'age_wanted',
+        'published_latest',
+        'age_latest',
+        null,
       ]
-    : ['Package', 'Current', 'Latest', 'To Latest', 'Published', 'Age(d)', '#'];
+    : [
+        'name',
+        'current',
+        'latest',
+        null,
+        'published_latest',
+        'age_latest',
+        null,
+      ];
+  const headerCells = tableHeaders(showWanted, cached, groups).map((h, i) => {
+    const key =
+      h === 'Cached' || i < groups.length ? null : sortKeys[i - groups.length];
+    return key
+      ? `<th data-sort="${key}">${escapeHtml(h)}</th>`
+      : `<th>${escapeHtml(h)}</th>`;
+  });
 
-  console.log(`| ${headers.join(' | ')} |`);
-  console.log(`| ${headers.map(() => '---').join(' | ')} |`);
-  for (let i = 0; i < rows.length; i++) {
-    const r = rows[i];
-    const values = showWanted
+  const bodyRows = rows.map((r, i) => {
+    const data = [
+      `data-name="${escapeHtml(r._name)}"`,
+      `data-current="${escapeHtml(r.Current)}"`,
+      `data-wanted="${escapeHtml(r.Wanted)}"`,
+      `data-latest="${escapeHtml(r._latest)}"`,
+      `data-published_wanted="${r._published_wanted}"`,
+      `data-published_latest="${r._published_latest}"`,
+      `data-age_wanted="${r._age_wanted}"`,
+      `data-age_latest="${r._age_latest}"`,
+    ].join(' ');
+    const bump = (b: BumpType) => `<td class="bump-${b}">${escapeHtml(b)}</td>`;
+    const cells = showWanted
       ? [
-          r.Package,
-          r.Current,
-          r.Wanted,
-          r.ToWanted,
-          r.Latest,
-          r.ToLatest,
-          r.PublishedWanted,
-          r.AgeWanted,
-          r.PublishedLatest,
-          r.AgeLatest,
-          String(i + 1),
+          `<td class="pkg">${escapeHtml(r.Package)}</td>`,
+          `<td>${escapeHtml(r.Current)}</td>`,
+          `<td>${escapeHtml(r.Wanted)}</td>`,
+          bump(r.ToWanted),
+          `<td>${escapeHtml(r.Latest)}</td>`,
+          bump(r.ToLatest),
+          `<td>${escapeHtml(r.PublishedWanted)}</td>`,
+          htmlAgeCell(r._age_wanted, r.AgeWanted),
+          `<td>${escapeHtml(r.PublishedLatest)}</td>`,
+          htmlAgeCell(r._age_latest, r.AgeLatest),
+          `<td class="num index">${i + 1}</td>`,
         ]
       : [
-          r.Package,
-          r.Current,
-          r.Latest,
-          r.ToLatest,
-          r.PublishedLatest,
-          r.AgeLatest,
-          String(i + 1),
+          `<td class="pkg">${escapeHtml(r.Package)}</td>`,
+          `<td>${escapeHtml(r.Current)}</td>`,
+          `<td>${escapeHtml(r.Latest)}</td>`,
+          bump(r.ToLatest),
+          `<td>${escapeHtml(r.PublishedLatest)}</td>`,
+          htmlAgeCell(r._age_latest, r.AgeLatest),
+          `<td class="num index">${i + 1}</td>`,
         ];
-    console.log(`| ${values.join(' | ')} |`);
-  }
+    const withCached = cached
+      ? withCachedColumn(
+          cells,
+          `<td class="num cached">${escapeHtml(r.Cached ?? '')}</td>`,
+        )
+      : cells;
+    const allCells = [
+      ...groups.map(
+        (g) => `<td class="${g.toLowerCase()}">${escapeHtml(r[g] ?? '')}</td>`,
+      ),
+      ...withCached,
+    ];
+    return `      <tr ${data}>${allCells.join('')}</tr>`;
+  });
+
+  const summaryItems = [
+    `<li>Total: <strong>${summary.total}</strong></li>`,
+    ...(['major', 'minor', 'patch', 'prerelease'] as const).map(
+      (b) =>
+        `<li class="bump-${b}">${b}: <strong>${summary.byBumpType[b]}</strong></li>`,
+    ),
+    `<li>Skipped: <strong>${summary.skipped}</strong></li>`,
+    ...(summary.unresolved > 0
+      ? [
+          `<li class="bump-major">Could not resolve: <strong>${summary.unresolved}</strong></li>`,
+        ]
+      : []),
+    ...(summary.missing > 0
+      ? [
+          `<li class="bump-minor">No local metadata: <strong>${summary.missing}</strong></li>`,
+        ]
+      : []),
+  ];
+
+  const incomplete = incompleteNotice(unresolved);
+  const unresolvedSection =
+    unresolved.length === 0
+      ? []
+      : [
+          '  <section class="unresolved">',
+          '    <h2>Could not resolve</h2>',
+          '    <table>',
+          '      <thead><tr><th>Package</th><th>Code</th><th>Message</th></tr></thead>',
+          '      <tbody>',
+          ...unresolved.map(
+            (u) =>
+              `        <tr><td class="pkg">${escapeHtml(u.name)}</td><td>${escapeHtml(u.code)}</td><td>${escapeHtml(u.message)}</td></tr>`,
+          ),
+          '      </tbody>',
+          '    </table>',
+          '  </section>',
+        ];
+  const missingGroup = missing.some((m) => m.project !== undefined)
+    ? 'Project'
+    : missing.some((m) => m.workspace !== undefined)
+      ? 'Workspace'
+      : null;
+  const missingSection =
+    missing.length === 0
+      ? []
+      : [
+          '  <section class="missing">',
+          '    <h2>No local metadata</h2>',
+          '    <p>Run once online or use --packuments to check these packages.</p>',
+          '    <table>',
+          `      <thead><tr>${missingGroup ? `<th>${missingGroup}</th>` : ''}<th>Package</th></tr></thead>`,
+          '      <tbody>',
+          ...missing.map(
+            (m) =>
+              `        <tr>${missingGroup ? `<td class="${missingGroup.toLowerCase()}">${escapeHtml(m.project ?? m.workspace ?? '')}</td>` : ''}<td class="pkg">${escapeHtml(m.name)}</td></tr>`,
+          ),
+          '      </tbody>',
+          '    </table>',
+          '  </section>',
+        ];
+  const mismatchSection =
+    mismatches.length === 0
+      ? []
+      : [
+          '  <section class="mismatches">',
+          '    <h2>Different versions across projects</h2>',
+          '    <table>',
+          '      <thead><tr><th>Package</th><th>Version</th><th>Projects</th><th>Latest</th></tr></thead>',
+          '      <tbody>',
+          ...mismatches.flatMap((m) =>
+            m.versions.map(
+              (v) =>
+                `        <tr><td class="pkg">${escapeHtml(m.name)}</td><td>${escapeHtml(v.version)}</td><td class="project">${escapeHtml(v.projects.join(', '))}</td><td>${escapeHtml(m.latest ?? '')}</td></tr>`,
+            ),
+          ),
+          '      </tbody>',
+          '    </table>',
+          '  </section>',
+        ];
+
+  const option = (value: string, label: string, selected: boolean) =>
+    `<option value="${value}"${selected ? ' selected' : ''}>${escapeHtml(label)}</option>`;
+
+  const html = [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '  <meta charset="utf-8">',
+    '  <meta name="viewport" content="width=device-width, initial-scale=1">',
+    '  <title>outdated-plus report</title>',
+    `  <style>${HTML_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    '  <h1>Outdated packages</h1>',
+    `  <p class="meta">Generated by outdated-plus on ${escapeHtml(new Date().toISOString())}</p>`,
+    ...(incomplete
+      ? [
+          `  <p class="incomplete">Incomplete results: ${escapeHtml(incomplete)}</p>`,
+        ]
+      : []),
+    `  <ul class="summary">${summaryItems.join('')}</ul>`,
+    '  <div class="controls">',
+    `    <label>Sort by <select id="sort-by">${HTML_SORT_KEYS.map(([key, label]) => option(key, label, key === sortBy)).join('')}</select></label>`,
+    `    <label>Order <select id="order">${option('asc', 'Ascending', order === 'asc')}${option('desc', 'Descending', order === 'desc')}</select></label>`,
+    '  </div>',
+    '  <table id="report">',
+    `    <thead><tr>${headerCells.join('')}</tr></thead>`,
+    '    <tbody>',
+    ...bodyRows,
+    '    </tbody>',
+    '  </table>',
+    ...unresolvedSection,
+    ...missingSection,
+    ...mismatchSection,
+    `  <script>${HTML_SCRIPT}</script>`,
+    '</body>',
+    '</html>',
+  ];
+
+  sink.writeLine(html.join('\n'));
 }
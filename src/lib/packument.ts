@@ -0,0 +1,231 @@
+import type { HttpResponse } from './types.js';
+
+/**
+ * Top-level packument fields that are kept while streaming. Everything else (readmes,
+ * version manifests) is skipped without being parsed.
+ */
+const CAPTURED_FIELDS = new Set(['dist-tags', 'time']);
+
+/**
+ * Top-level field whose keys (the published versions) are collected.
+ */
+const VERSIONS_FIELD = 'versions';
+
+const QUOTE = 0x22;
+const BACKSLASH = 0x5c;
+const COMMA = 0x2c;
+const COLON = 0x3a;
+const OPEN_BRACE = 0x7b;
+const CLOSE_BRACE = 0x7d;
+const OPEN_BRACKET = 0x5b;
+const CLOSE_BRACKET = 0x5d;
+
+/**
+ * The parts of a packument needed to build a Meta.
+ */
+export type PackumentBody = {
+  /** `dist-tags` and `time`, or null if the document is not a JSON object. */
+  data: Record<string, unknown> | null;
+  /** Version keys of the `versions` object. */
+  versions: string[];
+  /** Size of the response body in bytes (after decompression). */
+  bytes: number;
+  /** Bytes that were scanned but not kept. */
+  skippedBytes: number;
+};
+
+type Frame = { object: boolean; expectKey: boolean };
+
+/**
+ * Incremental scanner for packument JSON.
+ *
+ * Instead of building the whole document, it tracks nesting and string state, keeps the
+ * raw text of `dist-tags` and `time`, and records the keys of `versions`. Chunks may
+ * split the input anywhere, including inside strings and escape sequences.
+ */
+export class PackumentParser {
+  private stack: Frame[] = [];
+  private inString = false;
+  private escaped = false;
+  private rootSeen = false;
+  private rootIsObject = false;
+  private topKey: string | null = null;
+  // Raw text of the key being read, and its start offset in the current chunk (-1: none)
+  private key = '';
+  private keyStart = -1;
+  // Raw text of the captured value, and its start offset in the current chunk (-1: none)
+  private capture = '';
+  private captureStart = -1;
+  private captured: Record<string, string> = {};
+  private versions: string[] = [];
+  private scanned = 0;
+
+  /**
+   * Scans the next chunk of the document.
+   *
+   * @param chunk - Decoded JSON text.
+   */
+  write(chunk: string): void {
+    this.scanned += chunk.length;
+    for (let i = 0; i < chunk.length; i++) {
+      const c = chunk.charCodeAt(i);
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (c === BACKSLASH) {
+          this.escaped = true;
+        } else if (c === QUOTE) {
+          this.inString = false;
+          if (this.keyStart !== -1) {
+            this.finishKey(this.key + chunk.slice(this.keyStart, i));
+          }
+        }
+        continue;
+      }
+
+      const frame = this.stack[this.stack.length - 1];
+      switch (c) {
+        case QUOTE:
+          this.inString = true;
+          if (frame?.expectKey && this.collectsKeys()) {
+            this.key = '';
+            this.keyStart = i + 1;
+          }
+          break;
+        case OPEN_BRACE:
+        case OPEN_BRACKET:
+          if (!this.rootSeen) {
+            this.rootSeen = true;
+            this.rootIsObject = c === OPEN_BRACE;
+          }
+          this.stack.push({
+            object: c === OPEN_BRACE,
+            expectKey: c === OPEN_BRACE,
+          });
+          break;
+        case CLOSE_BRACE:
+        case CLOSE_BRACKET:
+          if (this.stack.length === 1) {
+            this.finishCapture(chunk, i);
+          }
+          this.stack.pop();
+          break;
+        case COLON:
+          if (this.stack.length === 1 && CAPTURED_FIELDS.has(this.topKey!)) {
+            this.capture = '';
+            this.captureStart = i + 1;
+          }
+          break;
+        case COMMA:
+          if (frame?.object) {
+            frame.expectKey = true;
+          }
+          if (this.stack.length === 1) {
+            this.finishCapture(chunk, i);
+          }
+          break;
+      }
+    }
+
+    if (this.keyStart !== -1) {
+      this.key += chunk.slice(this.keyStart);
+      this.keyStart = 0;
+    }
+    if (this.captureStart !== -1) {
+      this.capture += chunk.slice(this.captureStart);
+      this.captureStart = 0;
+    }
+  }
+
+  /**
+   * Finishes scanning and parses the captured fields.
+   *
+   * @param bytes - Size of the response body in bytes.
+   * @returns The extracted packument parts.
+   * @throws {SyntaxError} If the document is truncated or a captured field is not valid JSON.
+   */
+  end(bytes: number): PackumentBody {
+    if (this.stack.length > 0 || this.inString) {
+      throw new SyntaxError('Unexpected end of JSON input');
+    }
+    if (!this.rootIsObject) {
+      return { data: null, versions: [], bytes, skippedBytes: bytes };
+    }
+    const data: Record<string, unknown> = {};
+    let kept = 0;
+    for (const [field, raw] of Object.entries(this.captured)) {
+      data[field] = JSON.parse(raw);
+      kept += raw.length;
+    }
+    const skipped = Math.max(0, this.scanned - kept);
+    return {
+      data,
+      versions: this.versions,
+      bytes,
+      // Scanned characters are a close enough estimate of bytes for JSON
+      skippedBytes: Math.min(bytes, skipped),
+    };
+  }
+
+  private collectsKeys(): boolean {
+    return (
+      this.stack.length === 1 ||
+      (this.stack.length === 2 && this.topKey === VERSIONS_FIELD)
+    );
+  }
+
+  private finishKey(raw: string): void {
+    this.keyStart = -1;
+    this.key = '';
+    const frame = this.stack[this.stack.length - 1];
+    frame.expectKey = false;
+    const name = raw.includes('\\') ? (JSON.parse(`"${raw}"`) as string) : raw;
+    if (this.stack.length === 1) {
+      this.topKey = name;
+    } else {
+      this.versions.push(name);
+    }
+  }
+
+  private finishCapture(chunk: string, end: number): void {
+    if (this.captureStart === -1) {
+      return;
+    }
+    this.captured[this.topKey!] =
+      this.capture + chunk.slice(this.captureStart, end);
+    this.capture = '';
+    this.captureStart = -1;
+  }
+}
+
+/**
+ * Reads a packument response body, streaming it through PackumentParser so large
+ * documents are never held in memory as a whole.
+ *
+ * Responses without a readable body are parsed with `json()` instead.
+ *
+ * @param response - The registry response.
+ * @returns The extracted packument parts.
+ * @throws {SyntaxError} If the body is not valid JSON.
+ */
+export async function readPackumentBody(
+  response: HttpResponse,
+): Promise<PackumentBody> {
+  const parser = new PackumentParser();
+
+  if (!response.body) {
+    const text = JSON.stringify(await response.json()) ?? '';
+    parser.write(text);
+    return parser.end(Buffer.byteLength(text));
+  }
+
+  const decoder = new TextDecoder();
+  let bytes = 0;
+  for await (const chunk of response.body) {
+    bytes += chunk.byteLength;
+    parser.write(decoder.decode(chunk, { stream: true }));
+  }
+  parser.write(decoder.decode());
+  return parser.end(bytes);
+}
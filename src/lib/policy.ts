@@ -0,0 +1,133 @@
+import { ParseError } from './errors.js';
+import type { BumpType, FailOnRule, PolicyViolation, Row } from './types.js';
+
+/**
+ * Ranks bump types so that a rule like `minor` also trips on major updates.
+ */
+const BUMP_RANK: Record<BumpType, number> = {
+  major: 4,
+  minor: 3,
+  patch: 2,
+  prerelease: 1,
+  same: 0,
+  unknown: 0,
+};
+
+const THRESHOLD_REGEX = /^(age|count)\s*>\s*(\d+)$/;
+
+/**
+ * Parses a --fail-on value into policy rules.
+ *
+ * Accepts a comma-separated list of conditions:
+ * - `major`, `minor`, `patch`, `prerelease`: an update of at least this bump type is available
+ * - `age>N`: the latest version of an outdated package was published more than N days ago
+ * - `count>N`: more than N outdated packages are reported
+ *
+ * @param value - The raw --fail-on value.
+ * @returns The parsed rules.
+ * @throws {ParseError} If a condition is not recognized.
+ */
+export function parseFailOn(value: string): FailOnRule[] {
+  const rules: FailOnRule[] = [];
+  for (const part of value.split(',')) {
+    const source = part.trim();
+    if (!source) {
+      continue;
+    }
+    if (
+      source === 'major' ||
+      source === 'minor' ||
+      source === 'patch' ||
+      source === 'prerelease'
+    ) {
+      rules.push({ kind: 'bump', bump: source, source });
+      continue;
+    }
+    const match = THRESHOLD_REGEX.exec(source);
+    if (!match) {
+      throw new ParseError(
+        `Invalid --fail-on condition '${source}' (expected major, minor, patch, prerelease, age>N or count>N)`,
+        '--fail-on',
+      );
+    }
+    const threshold = Number(match[2]);
+    rules.push(
+      match[1] === 'age'
+        ? { kind: 'age', days: threshold, source }
+        : { kind: 'count', count: threshold, source },
+    );
+  }
+  return rules;
+}
+
+/**
+ * Evaluates policy rules against the final (filtered and sorted) rows.
+ *
+ * @param rows - The rows that are reported.
+ * @param rules - Rules parsed from --fail-on.
+ * @returns One violation per rule that tripped, in rule order.
+ */
+export function evaluateFailOn(
+  rows: Row[],
+  rules: FailOnRule[],
+): PolicyViolation[] {
+  const violations: PolicyViolation[] = [];
+  for (const rule of rules) {
+    switch (rule.kind) {
+      case 'bump': {
+        const packages = rows
+          .filter((r) => BUMP_RANK[r.ToLatest] >= BUMP_RANK[rule.bump])
+          .map((r) => r.Package);
+        if (packages.length > 0) {
+          violations.push({
+            rule: rule.source,
+            packages,
+            message: `${packages.length} package(s) with a ${rule.bump} or larger update`,
+          });
+        }
+        break;
+      }
+      case 'age': {
+        const packages = rows
+          .filter(
+            (r) => Number.isFinite(r._age_latest) && r._age_latest > rule.days,
+          )
+          .map((r) => r.Package);
+        if (packages.length > 0) {
+          violations.push({
+            rule: rule.source,
+            packages,
+            message: `${packages.length} package(s) with a latest version older than ${rule.days} day(s)`,
+          });
+        }
+        break;
+      }
+      case 'count':
+        if (rows.length > rule.count) {
+          violations.push({
+            rule: rule.source,
+            packages: rows.map((r) => r.Package),
+            message: `${rows.length} outdated package(s), more than ${rule.count}`,
+          });
+        }
+        break;
+    }
+  }
+  return violations;
+}
+
+/**
+ * Formats policy violations into a short summary for the terminal.
+ */
+export function formatViolations(violations: PolicyViolation[]): string {
+  const lines = violations.map((v) => {
+    const shown = v.packages.slice(0, 5).join(', ');
+    const more =
+      v.packages.length > 5 ? `, +${v.packages.length - 5} more` : '';
+    return `  --fail-on ${v.rule}: ${v.message} (${shown}${more})`;
+  });
+  return [
+    `Policy violation: ${violations.length} rule(s) tripped`,
+    ...lines,
+  ].join('\n');
+}
@@ -1,9 +1,21 @@
-import type { Args, Meta, OutdatedMap, Row } from './types.js';
+import type {
+  Args,
+  Meta,
+  OutdatedMap,
+  ProjectResult,
+  Row,
+  SkippedPackage,
+  SkipSources,
+  WorkspaceResult,
+} from './types.js';
 import {
   bumpType,
   daysAgo,
   fmtTime,
+  formatCacheAge,
+  isVersionHigher,
   parseIsoZ,
+  parseSkipEntry,
   shouldSkipPackage,
 } from './utils.js';
 
@@ -86,11 +98,146 @@ export function buildRows(
       _age_wanted: ageWanted ?? Number.POSITIVE_INFINITY,
       _age_latest: ageLatest ?? Number.POSITIVE_INFINITY,
       _latest: latest,
+      ...(m.cachedAt !== undefined && {
+        Cached: formatCacheAge(m.cachedAt),
+        _cached_at: m.cachedAt,
+      }),
     });
   }
   return rows;
 }
 
+/**
+ * Builds the rows of several groups (workspaces or projects): each group's rows are built
+ * and sorted on their own, tagged, and concatenated in group order.
+ */
+function buildGroupedRows<T extends { outdated: OutdatedMap }>(
+  groups: T[],
+  // eslint-disable-next-line no-unused-vars
+  tag: (group: T) => Partial<Row>,
+  metas: Record<string, Meta>,
+  showAll: boolean,
+  cutoffDays: number,
+  useIso: boolean,
+  skipPackages: string[],
+  sortBy: Args['sortBy'],
+  order: Args['order'],
+): Row[] {
+  return groups.flatMap((group) =>
+    sortRows(
+      buildRows(
+        group.outdated,
+        metas,
+        showAll,
+        cutoffDays,
+        useIso,
+        skipPackages,
+      ).map((r) => ({ ...r, ...tag(group) })),
+      sortBy,
+      order,
+    ),
+  );
+}
+
+/**
+ * Builds the rows of several workspaces, grouped by workspace.
+ *
+ * The rows of each workspace are built like buildRows() and sorted on their own, then
+ * concatenated in workspace order. Every row is tagged with its workspace.
+ *
+ * @param workspaces - The workspace results.
+ * @param metas - Map of package metadata shared by all workspaces.
+ * @param showAll - If true, ignores age cutoff filter.
+ * @param cutoffDays - Minimum age in days to include a package (0 = no filter).
+ * @param useIso - If true, uses ISO date format.
+ * @param skipPackages - Array of package skip entries.
+ * @param sortBy - Sort key within each workspace.
+ * @param order - Sort order within each workspace.
+ * @returns The rows of all workspaces.
+ */
+export function buildWorkspaceRows(
+  workspaces: WorkspaceResult[],
+  metas: Record<string, Meta>,
+  showAll: boolean,
+  cutoffDays: number,
+  useIso: boolean,
+  skipPackages: string[],
+  sortBy: Args['sortBy'],
+  order: Args['order'],
+): Row[] {
+  return buildGroupedRows(
+    workspaces,
+    (ws) => ({ Workspace: ws.name, _package_dir: ws.path }),
+    metas,
+    showAll,
+    cutoffDays,
+    useIso,
+    skipPackages,
+    sortBy,
+    order,
+  );
+}
+
+/**
+ * Builds the rows of the projects found by --recursive, grouped by project like
+ * buildWorkspaceRows(). Every row is tagged with the path of its project.
+ *
+ * @param projects - The project results.
+ * @param metas - Map of package metadata shared by all projects.
+ * @param showAll - If true, ignores age cutoff filter.
+ * @param cutoffDays - Minimum age in days to include a package (0 = no filter).
+ * @param useIso - If true, uses ISO date format.
+ * @param skipPackages - Array of package skip entries.
+ * @param sortBy - Sort key within each project.
+ * @param order - Sort order within each project.
+ * @returns The rows of all projects.
+ */
+export function buildProjectRows(
+  projects: ProjectResult[],
+  metas: Record<string, Meta>,
+  showAll: boolean,
+  cutoffDays: number,
+  useIso: boolean,
+  skipPackages: string[],
+  sortBy: Args['sortBy'],
+  order: Args['order'],
+): Row[] {
+  return buildGroupedRows(
+    projects,
+    (project) => ({ Project: project.path, _package_dir: project.path }),
+    metas,
+    showAll,
+    cutoffDays,
+    useIso,
+    skipPackages,
+    sortBy,
+    order,
+  );
+}
+
+/**
+ * Merges the outdated maps of several workspaces or projects into one. For a package that
+ * is outdated in more than one of them, the entry with the lowest current version is
+ * kept, so that skip file cleanup only drops entries that none of them needs anymore.
+ *
+ * @param results - The workspace or project results.
+ * @returns The merged outdated map.
+ */
+export function mergeOutdatedMaps(
+  results: { outdated: OutdatedMap }[],
+): OutdatedMap {
+  const merged: OutdatedMap = {};
+  for (const result of results) {
+    for (const [pkg, info] of Object.entries(result.outdated)) {
+      const existing = merged[pkg];
+      if (!existing || isVersionHigher(existing.current, info.current)) {
+        merged[pkg] = info;
+      }
+    }
+  }
+  return merged;
+}
+
 /**
  * Sorts rows based on the specified field and order.
  * Returns a new array without modifying the original.
@@ -129,3 +276,87 @@ export function sortRows(
 
   return [...rows].sort((a, b) => cmp(key(a), key(b)));
 }
+
+const NO_SKIP_SOURCES: SkipSources = { commandLine: [], config: [] };
+
+/**
+ * Collects the skip entries that actually hid an outdated package.
+ *
+ * @param outdated - Map of outdated packages.
+ * @param skipEntries - Array of package skip entries.
+ * @param sources - Where the skip entries came from (--skip, the config or the skip file).
+ * @returns The matching skip entries together with the package they refer to and why it was skipped.
+ */
+export function findSkippedPackages(
+  outdated: OutdatedMap,
+  skipEntries: string[],
+  sources: SkipSources = NO_SKIP_SOURCES,
+): SkippedPackage[] {
+  const skipped: SkippedPackage[] = [];
+  for (const entry of skipEntries) {
+    const { package: pkg } = parseSkipEntry(entry);
+    const info = outdated[pkg];
+    if (!info) {
+      continue;
+    }
+    if (
+      shouldSkipPackage(
+        pkg,
+        info.current,
+        info.wanted,
+        info.latest,
+        skipEntries,
+      )
+    ) {
+      const reason = sources.commandLine.includes(entry)
+        ? `Skipped via --skip ${entry}`
+        : sources.config.includes(entry)
+          ? `Skipped via config skip entry ${entry}`
+          : `Skipped via .outdated-plus-skip entry ${entry}${sources.fileReason ? `: ${sources.fileReason}` : ''}`;
+      skipped.push({ name: pkg, entry, reason });
+    }
+  }
+  return skipped;
+}
+
+/**
+ * Collects the skip entries that hid an outdated package, per workspace.
+ *
+ * @param workspaces - The workspace results.
+ * @param skipEntries - Array of package skip entries.
+ * @param sources - Where the skip entries came from (--skip, the config or the skip file).
+ * @returns The skipped packages of all workspaces, tagged with their workspace.
+ */
+export function findWorkspaceSkippedPackages(
+  workspaces: WorkspaceResult[],
+  skipEntries: string[],
+  sources: SkipSources = NO_SKIP_SOURCES,
+): SkippedPackage[] {
+  return workspaces.flatMap((ws) =>
+    findSkippedPackages(ws.outdated, skipEntries, sources).map((s) => ({
+      ...s,
+      workspace: ws.name,
+    })),
+  );
+}
+
+/**
+ * Collects the skip entries that hid an outdated package, per project (--recursive).
+ *
+ * @param projects - The project results.
+ * @param skipEntries - Array of package skip entries.
+ * @param sources - Where the skip entries came from (--skip, the config or the skip file).
+ * @returns The skipped packages of all projects, tagged with the project path.
+ */
+export function findProjectSkippedPackages(
+  projects: ProjectResult[],
+  skipEntries: string[],
+  sources: SkipSources = NO_SKIP_SOURCES,
+): SkippedPackage[] {
+  return projects.flatMap((project) =>
+    findSkippedPackages(project.outdated, skipEntries, sources).map((s) => ({
+      ...s,
+      project: project.path,
+    })),
+  );
+}
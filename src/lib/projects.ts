@@ -0,0 +1,284 @@
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { basename, join, posix } from 'node:path';
+import { findLockfile } from './lockfiles.js';
+import type {
+  Meta,
+  OutdatedMap,
+  Project,
+  ProjectResult,
+  VersionMismatch,
+} from './types.js';
+import { isOutdatedEntry, isVersionHigher } from './utils.js';
+
+/**
+ * A pattern from a .gitignore file.
+ */
+export type IgnoreRule = {
+  /** Directory of the .gitignore file, relative to the walk root ('' for the root). */
+  base: string;
+  regex: RegExp;
+  /** `!pattern`: re-includes what an earlier pattern ignored. */
+  negate: boolean;
+  /** Patterns with a slash match the path below `base`; others match the name alone. */
+  anchored: boolean;
+};
+
+/**
+ * Converts a gitignore glob to a regular expression. `*` and `?` stay within a path
+ * segment, `**` matches across segments, and `[...]` classes are kept.
+ */
+function globRegex(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*' && glob[i + 1] === '*') {
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (c === '*') {
+      source += '[^/]*';
+    } else if (c === '?') {
+      source += '[^/]';
+    } else if (c === '[' && glob.indexOf(']', i + 2) !== -1) {
+      const end = glob.indexOf(']', i + 2);
+      const body = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+      source += `[${body.startsWith('!') ? `^${body.slice(1)}` : body}]`;
+      i = end;
+    } else if (c === '\\' && i + 1 < glob.length) {
+      source += glob[i + 1].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      i += 1;
+    } else {
+      source += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Parses the patterns of a .gitignore file.
+ *
+ * Blank lines and comments are ignored, and a trailing `/` is dropped, since only
+ * directories are matched during the walk.
+ *
+ * @param content - The file content.
+ * @param base - Directory of the file, relative to the walk root ('' for the root).
+ * @returns The rules, in file order.
+ */
+export function parseGitignore(content: string, base = ''): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const raw of content.split(/\r?\n/)) {
+    let line = raw.replace(/(?<!\\)\s+$/, '');
+    if (line === '' || line.startsWith('#')) {
+      continue;
+    }
+    const negate = line.startsWith('!');
+    if (negate) {
+      line = line.slice(1);
+    }
+    line = line.replace(/\/+$/, '');
+    if (line === '') {
+      continue;
+    }
+    const anchored = line.includes('/');
+    rules.push({
+      base,
+      regex: globRegex(line.replace(/^\//, '')),
+      negate,
+      anchored,
+    });
+  }
+  return rules;
+}
+
+/**
+ * Checks whether a directory is ignored. As in git, the last matching rule wins.
+ *
+ * @param path - The directory, relative to the walk root, with forward slashes.
+ * @param rules - Rules of the .gitignore files above it, outermost first.
+ * @returns True if the directory is ignored.
+ */
+export function isIgnored(path: string, rules: IgnoreRule[]): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.base !== '' && !path.startsWith(`${rule.base}/`)) {
+      continue;
+    }
+    const relative = rule.base === '' ? path : path.slice(rule.base.length + 1);
+    const subject = rule.anchored ? relative : posix.basename(relative);
+    if (rule.regex.test(subject)) {
+      ignored = !rule.negate;
+    }
+  }
+  return ignored;
+}
+
+function readText(path: string): string {
+  try {
+    return readFileSync(path, 'utf-8');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Finds the projects below a directory (--recursive): every directory with a
+ * package.json, including the directory itself.
+ *
+ * Directories ignored by a .gitignore file on the way are not entered, nor are
+ * node_modules and hidden directories. Symbolic links are not followed.
+ *
+ * @param root - The directory to search.
+ * @returns The projects, sorted by path.
+ */
+export function findProjects(root: string): Project[] {
+  const projects: Project[] = [];
+  const walk = (path: string, inherited: IgnoreRule[]) => {
+    const dir = join(root, path);
+    const rules = [
+      ...inherited,
+      ...parseGitignore(readText(join(dir, '.gitignore')), path),
+    ];
+    if (existsSync(join(dir, 'package.json'))) {
+      let name = path || '.';
+      try {
+        const data = JSON.parse(readText(join(dir, 'package.json')));
+        if (typeof data?.name === 'string') {
+          name = data.name;
+        }
+      } catch {
+        // Invalid package.json: checked without dependencies
+      }
+      projects.push({ name, path: path || '.', dir });
+    }
+
+    let entries: string[];
+    try {
+      entries = readdirSync(dir, { withFileTypes: true })
+        .filter(
+          (e) =>
+            e.isDirectory() &&
+            e.name !== 'node_modules' &&
+            !e.name.startsWith('.'),
+        )
+        .map((e) => e.name)
+        .sort();
+    } catch {
+      return;
+    }
+    for (const name of entries) {
+      const child = posix.join(path, name);
+      if (!isIgnored(child, rules)) {
+        walk(child, rules);
+      }
+    }
+  };
+  walk('', []);
+  return projects;
+}
+
+/**
+ * Finds the lockfile that a project's installed versions come from: its own, or that of
+ * the nearest directory above it within the walk root (a workspaces root). Any supported
+ * lockfile counts (see LOCKFILES).
+ *
+ * @param root - The walk root.
+ * @param path - The project directory, relative to the root ('.' for the root).
+ * @returns The directory of the lockfile relative to the root ('.' for the root), or the
+ * project's own path if there is none.
+ */
+export function findLockfileDir(root: string, path: string): string {
+  for (let dir = path; ; dir = posix.dirname(dir)) {
+    if (findLockfile(join(root, dir))) {
+      return dir;
+    }
+    if (dir === '.') {
+      return path;
+    }
+  }
+}
+
+/**
+ * Picks a project's entries from `npm outdated --json` run in its directory.
+ *
+ * Inside a workspace folder npm reports the dependencies of every workspace, as an array
+ * when a package is outdated in several of them. Entries whose `dependent` (the package
+ * name, or the folder name in npm 10) is another package are left out; entries without
+ * `dependent` (older npm) are kept.
+ *
+ * @param data - The parsed npm output.
+ * @param project - The project npm ran in.
+ * @returns The outdated map of the project.
+ */
+export function projectOutdated(data: unknown, project: Project): OutdatedMap {
+  const outdated: OutdatedMap = {};
+  if (!data || typeof data !== 'object') {
+    return outdated;
+  }
+  const names = new Set([project.name, basename(project.dir)]);
+  for (const [pkg, value] of Object.entries(data)) {
+    for (const entry of Array.isArray(value) ? value : [value]) {
+      const dependent: unknown = entry?.dependent;
+      if (
+        !isOutdatedEntry(entry) ||
+        (typeof dependent === 'string' && !names.has(dependent))
+      ) {
+        continue;
+      }
+      outdated[pkg] = {
+        current: entry.current,
+        wanted: entry.wanted,
+        latest: entry.latest,
+      };
+    }
+  }
+  return outdated;
+}
+
+/**
+ * Finds dependencies that are installed in different versions across projects.
+ *
+ * @param projects - The project results with their installed versions.
+ * @param metas - Registry metadata, for the latest version (if it was looked up).
+ * @returns The packages with more than one installed version, sorted by name. Versions
+ * are listed highest first, each with the paths of the projects that use it.
+ */
+export function findVersionMismatches(
+  projects: ProjectResult[],
+  metas: Record<string, Meta> = {},
+): VersionMismatch[] {
+  const byPackage = new Map<string, Map<string, string[]>>();
+  for (const project of projects) {
+    for (const [pkg, version] of Object.entries(project.installed)) {
+      const versions = byPackage.get(pkg) ?? new Map<string, string[]>();
+      byPackage.set(pkg, versions);
+      versions.set(version, [...(versions.get(version) ?? []), project.path]);
+    }
+  }
+
+  const mismatches: VersionMismatch[] = [];
+  for (const [name, versions] of byPackage) {
+    if (versions.size < 2) {
+      continue;
+    }
+    mismatches.push({
+      name,
+      latest: metas[name]?.latest || null,
+      versions: [...versions]
+        .map(([version, paths]) => ({ version, projects: paths }))
+        .sort((a, b) =>
+          isVersionHigher(a.version, b.version)
+            ? -1
+            : isVersionHigher(b.version, a.version)
+              ? 1
+              : 0,
+        ),
+    });
+  }
+  return mismatches.sort((a, b) =>
+    a.name < b.name ? -1 : a.name > b.name ? 1 : 0,
+  );
+}
@@ -0,0 +1,101 @@
+import type { NpmrcSettings, ProxyConfig } from './types.js';
+
+/** Proxy configuration used when no proxy is configured. */
+export const NO_PROXY_CONFIG: ProxyConfig = {
+  httpProxy: null,
+  httpsProxy: null,
+  noProxy: [],
+};
+
+function proxySetting(...values: (string | undefined)[]): string | null {
+  for (const value of values) {
+    // npm treats `proxy=false` (or an empty value) as "no proxy"
+    if (value !== undefined) {
+      return value && value !== 'false' && value !== 'null' ? value : null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Builds the proxy configuration from npm settings and environment variables.
+ *
+ * `.npmrc` `https-proxy`, `proxy` and `noproxy` take precedence over `HTTPS_PROXY`,
+ * `HTTP_PROXY` and `NO_PROXY` (either case). HTTPS requests fall back to the HTTP proxy.
+ *
+ * @param settings - Merged .npmrc settings.
+ * @param env - Environment variables (defaults to process.env).
+ * @returns The proxy configuration.
+ */
+export function getProxyConfig(
+  settings: NpmrcSettings,
+  env: Record<string, string | undefined> = process.env,
+): ProxyConfig {
+  const httpProxy = proxySetting(
+    settings.proxy,
+    env.HTTP_PROXY,
+    env.http_proxy,
+  );
+  const httpsProxy =
+    proxySetting(settings['https-proxy'], env.HTTPS_PROXY, env.https_proxy) ??
+    httpProxy;
+  const noProxy = (settings.noproxy ?? env.NO_PROXY ?? env.no_proxy ?? '')
+    .split(/[\s,]+/)
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+  return { httpProxy, httpsProxy, noProxy };
+}
+
+/**
+ * Checks whether a URL matches a NO_PROXY list.
+ *
+ * Entries match the host and its subdomains (`example.com`, `.example.com` and
+ * `*.example.com` are equivalent); `host:port` entries also require the port to match,
+ * and `*` disables the proxy for every host.
+ *
+ * @param url - The request URL.
+ * @param noProxy - Lower-cased NO_PROXY entries.
+ * @returns True if the request should bypass the proxy.
+ */
+export function shouldBypassProxy(url: URL, noProxy: string[]): boolean {
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+
+  return noProxy.some((entry) => {
+    if (entry === '*') {
+      return true;
+    }
+    const match = /^(.*?)(?::(\d+))?$/.exec(entry);
+    const entryHost = (match?.[1] ?? entry)
+      .replace(/^\[|\]$/g, '')
+      .replace(/^\*?\./, '');
+    const entryPort = match?.[2];
+    if (entryPort && entryPort !== port) {
+      return false;
+    }
+    return host === entryHost || host.endsWith(`.${entryHost}`);
+  });
+}
+
+/**
+ * Selects the proxy for a request URL.
+ *
+ * @param url - The request URL.
+ * @param proxy - The proxy configuration.
+ * @returns The proxy URL, or null if the request should go direct.
+ */
+export function proxyForUrl(url: URL, proxy: ProxyConfig): URL | null {
+  const proxyUrl =
+    url.protocol === 'https:' ? proxy.httpsProxy : proxy.httpProxy;
+  if (!proxyUrl || shouldBypassProxy(url, proxy.noProxy)) {
+    return null;
+  }
+  try {
+    // Like npm and curl, a proxy without protocol is treated as an HTTP proxy
+    return new URL(
+      /^[a-z]+:\/\//i.test(proxyUrl) ? proxyUrl : `http://${proxyUrl}`,
+    );
+  } catch {
+    return null;
+  }
+}
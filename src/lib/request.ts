@@ -0,0 +1,326 @@
+import http from 'node:http';
+import https from 'node:https';
+import type { Socket } from 'node:net';
+import { pipeline, type Readable } from 'node:stream';
+import tls from 'node:tls';
+import { createBrotliDecompress, createGunzip, createInflate } from 'node:zlib';
+import { redactUrl } from './auth.js';
+import { NetworkError, TlsError } from './errors.js';
+import { proxyForUrl } from './proxy.js';
+import { hasCustomTls } from './tls.js';
+import type { HttpResponse, ProxyConfig, TlsConfig } from './types.js';
+
+export type RequestOptions = {
+  headers: Record<string, string>;
+  signal?: AbortSignal;
+  proxy?: ProxyConfig;
+  tls?: TlsConfig;
+};
+
+const REDIRECT_STATUS = new Set([301, 302, 303, 307, 308]);
+
+// The same limit as fetch
+const MAX_REDIRECTS = 20;
+
+const TLS_ERROR_CODE =
+  /^(ERR_TLS_|ERR_SSL_|CERT_|UNABLE_TO_|SELF_SIGNED_CERT|DEPTH_ZERO_SELF_SIGNED_CERT|HOSTNAME_MISMATCH)/;
+
+function proxyHeaders(proxyUrl: URL): Record<string, string> {
+  if (!proxyUrl.username && !proxyUrl.password) {
+    return {};
+  }
+  const userInfo = `${decodeURIComponent(proxyUrl.username)}:${decodeURIComponent(proxyUrl.password)}`;
+  return {
+    'Proxy-Authorization': `Basic ${Buffer.from(userInfo).toString('base64')}`,
+  };
+}
+
+function defaultPort(url: URL): number {
+  return Number(url.port) || (url.protocol === 'https:' ? 443 : 80);
+}
+
+function decodeBody(res: http.IncomingMessage): Readable {
+  const decoder =
+    res.headers['content-encoding'] === 'gzip'
+      ? createGunzip()
+      : res.headers['content-encoding'] === 'deflate'
+        ? createInflate()
+        : res.headers['content-encoding'] === 'br'
+          ? createBrotliDecompress()
+          : null;
+  // pipeline forwards errors of the response to the decoded stream
+  return decoder ? pipeline(res, decoder, () => {}) : res;
+}
+
+function toResponse(res: http.IncomingMessage): HttpResponse {
+  const body = decodeBody(res);
+  const status = res.statusCode ?? 0;
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: {
+      get: (name) => {
+        const value = res.headers[name.toLowerCase()];
+        return Array.isArray(value) ? value.join(', ') : (value ?? null);
+      },
+    },
+    body,
+    json: async () => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of body) {
+        chunks.push(chunk as Buffer);
+      }
+      return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    },
+  };
+}
+
+/**
+ * Opens a CONNECT tunnel through an HTTP(S) proxy.
+ *
+ * @param proxyUrl - The proxy URL.
+ * @param target - The URL to tunnel to.
+ * @param secure - TLS options used when the proxy itself is HTTPS.
+ * @param signal - Optional abort signal.
+ * @returns Promise that resolves to the raw tunnel socket.
+ * @throws {NetworkError} If the proxy refuses the tunnel.
+ */
+function openTunnel(
+  proxyUrl: URL,
+  target: URL,
+  secure: tls.ConnectionOptions,
+  signal?: AbortSignal,
+): Promise<Socket> {
+  const authority = `${target.hostname}:${defaultPort(target)}`;
+  const transport = proxyUrl.protocol === 'https:' ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const req = transport.request({
+      host: proxyUrl.hostname,
+      port: defaultPort(proxyUrl),
+      method: 'CONNECT',
+      path: authority,
+      headers: { Host: authority, ...proxyHeaders(proxyUrl) },
+      signal,
+      ...(proxyUrl.protocol === 'https:' ? secure : {}),
+    });
+    req.on('connect', (res, socket) => {
+      if (res.statusCode === 200) {
+        resolve(socket);
+        return;
+      }
+      socket.destroy();
+      reject(
+        new NetworkError(
+          `Proxy refused tunnel to ${authority}`,
+          redactUrl(proxyUrl.href),
+          res.statusCode,
+        ),
+      );
+    });
+    req.on('response', (res) => {
+      res.resume();
+      reject(
+        new NetworkError(
+          `Proxy does not support CONNECT tunnels`,
+          redactUrl(proxyUrl.href),
+          res.statusCode,
+        ),
+      );
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+function tlsOptions(config: TlsConfig | undefined): tls.ConnectionOptions {
+  if (!config) {
+    return {};
+  }
+  return {
+    ...(config.ca ? { ca: config.ca } : {}),
+    rejectUnauthorized: config.strictSsl,
+  };
+}
+
+/**
+ * Sends a GET request with node:http/node:https. The response body is streamed, except
+ * for redirects, whose body is discarded.
+ *
+ * @param transport - The http or https module.
+ * @param options - Request options.
+ * @param onError - Optional cleanup when the request fails.
+ * @returns Promise that resolves to the response.
+ */
+function send(
+  transport: typeof http | typeof https,
+  options: https.RequestOptions,
+  onError?: () => void,
+): Promise<HttpResponse> {
+  return new Promise((resolve, reject) => {
+    const req = transport.request({ ...options, method: 'GET' });
+    req.on('response', (res) => {
+      if (REDIRECT_STATUS.has(res.statusCode ?? 0)) {
+        res.resume();
+      }
+      resolve(toResponse(res));
+    });
+    req.on('error', (error) => {
+      onError?.();
+      reject(error);
+    });
+    req.end();
+  });
+}
+
+async function sendWithNode(
+  target: URL,
+  proxyUrl: URL | null,
+  options: RequestOptions,
+): Promise<HttpResponse> {
+  const headers = {
+    ...options.headers,
+    'Accept-Encoding': 'gzip, deflate, br',
+  };
+  const secure = tlsOptions(options.tls);
+  const path = `${target.pathname}${target.search}`;
+
+  if (!proxyUrl) {
+    return send(target.protocol === 'https:' ? https : http, {
+      host: target.hostname,
+      port: defaultPort(target),
+      path,
+      headers,
+      signal: options.signal,
+      ...(target.protocol === 'https:' ? secure : {}),
+    });
+  }
+
+  if (target.protocol === 'http:') {
+    // Plain HTTP: send the absolute URL to the proxy
+    return send(proxyUrl.protocol === 'https:' ? https : http, {
+      host: proxyUrl.hostname,
+      port: defaultPort(proxyUrl),
+      path: target.href,
+      headers: { ...headers, Host: target.host, ...proxyHeaders(proxyUrl) },
+      signal: options.signal,
+      ...(proxyUrl.protocol === 'https:' ? secure : {}),
+    });
+  }
+
+  const socket = await openTunnel(proxyUrl, target, secure, options.signal);
+  return send(
+    https,
+    {
+      host: target.hostname,
+      port: defaultPort(target),
+      path,
+      headers,
+      signal: options.signal,
+      createConnection: () =>
+        tls.connect({ ...secure, socket, servername: target.hostname }),
+    },
+    () => socket.destroy(),
+  );
+}
+
+/**
+ * Sends a GET request with node:http/node:https, following redirects as fetch does. The
+ * proxy is chosen again for each location, and the Authorization header is only sent to
+ * the original origin.
+ *
+ * @throws {NetworkError} If there are more than MAX_REDIRECTS redirects.
+ */
+async function requestWithNode(
+  target: URL,
+  options: RequestOptions,
+): Promise<HttpResponse> {
+  let headers = options.headers;
+  for (let redirects = 0; ; redirects++) {
+    const proxyUrl = options.proxy ? proxyForUrl(target, options.proxy) : null;
+    const response = await sendWithNode(target, proxyUrl, {
+      ...options,
+      headers,
+    });
+    const location = response.headers.get('location');
+    if (!REDIRECT_STATUS.has(response.status) || !location) {
+      return response;
+    }
+    if (redirects === MAX_REDIRECTS) {
+      throw new NetworkError(
+        'Too many redirects',
+        target.href,
+        response.status,
+      );
+    }
+    const next = new URL(location, target);
+    if (next.origin !== target.origin) {
+      headers = Object.fromEntries(
+        Object.entries(headers).filter(
+          ([name]) => name.toLowerCase() !== 'authorization',
+        ),
+      );
+    }
+    target = next;
+  }
+}
+
+function errorCode(error: unknown): string | undefined {
+  const { code, cause } = (error ?? {}) as { code?: unknown; cause?: unknown };
+  if (typeof code === 'string') {
+    return code;
+  }
+  // fetch wraps connection errors in a TypeError with the original error as cause
+  return cause ? errorCode(cause) : undefined;
+}
+
+/**
+ * Converts certificate and handshake failures into TlsError.
+ *
+ * @param error - The error thrown by fetch or node:https.
+ * @param url - The request URL.
+ * @returns A TlsError, or the original error if it is not TLS related.
+ */
+export function toTlsError(error: unknown, url: string): unknown {
+  const code = errorCode(error);
+  if (!code || !TLS_ERROR_CODE.test(code)) {
+    return error;
+  }
+  const cause = (error as { cause?: unknown }).cause;
+  const detail =
+    cause instanceof Error ? cause : error instanceof Error ? error : null;
+  return new TlsError(detail?.message ?? 'TLS connection failed', code, url);
+}
+
+/**
+ * Performs a GET request, going through a proxy when one applies to the URL.
+ *
+ * Requests use the global fetch unless a proxy or custom TLS settings apply; those use
+ * node:http/node:https (with a CONNECT tunnel for HTTPS targets behind a proxy), so no
+ * extra dependencies are needed. Both follow redirects.
+ *
+ * @param url - The URL to request.
+ * @param options - Request headers, abort signal, proxy and TLS configuration.
+ * @returns Promise that resolves to the response.
+ * @throws {NetworkError} If the proxy refuses the request, or there are too many
+ * redirects.
+ * @throws {TlsError} If the TLS handshake or certificate verification fails.
+ */
+export async function httpRequest(
+  url: string,
+  options: RequestOptions,
+): Promise<HttpResponse> {
+  const target = new URL(url);
+  const proxyUrl = options.proxy ? proxyForUrl(target, options.proxy) : null;
+  try {
+    if (!proxyUrl && !(options.tls && hasCustomTls(options.tls))) {
+      return await fetch(url, {
+        headers: options.headers,
+        signal: options.signal,
+      });
+    }
+    return await requestWithNode(target, options);
+  } catch (error) {
+    throw toTlsError(error, url);
+  }
+}
@@ -0,0 +1,183 @@
+import { MAX_RETRY_AFTER_MS } from './constants.js';
+import { NetworkError, TlsError } from './errors.js';
+import type { NpmrcSettings, RetryConfig } from './types.js';
+
+/**
+ * Retry settings used when .npmrc has no fetch-retry entries.
+ * Shorter than npm's install defaults, since only small metadata requests are retried.
+ */
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  retries: 2,
+  factor: 2,
+  minTimeoutMs: 1000,
+  maxTimeoutMs: 30_000,
+};
+
+/** HTTP statuses that are worth retrying. */
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/** HTTP statuses that indicate the registry is throttling requests. */
+const THROTTLE_STATUSES = new Set([429, 503]);
+
+function toNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && Number.isFinite(parsed) && parsed >= 0
+    ? parsed
+    : fallback;
+}
+
+/**
+ * Builds the retry configuration from npm settings
+ * (`fetch-retries`, `fetch-retry-factor`, `fetch-retry-mintimeout`, `fetch-retry-maxtimeout`).
+ *
+ * @param settings - Merged .npmrc settings.
+ * @returns The retry configuration.
+ */
+export function getRetryConfig(settings: NpmrcSettings): RetryConfig {
+  return {
+    retries: Math.floor(
+      toNumber(settings['fetch-retries'], DEFAULT_RETRY_CONFIG.retries),
+    ),
+    factor: toNumber(
+      settings['fetch-retry-factor'],
+      DEFAULT_RETRY_CONFIG.factor,
+    ),
+    minTimeoutMs: toNumber(
+      settings['fetch-retry-mintimeout'],
+      DEFAULT_RETRY_CONFIG.minTimeoutMs,
+    ),
+    maxTimeoutMs: toNumber(
+      settings['fetch-retry-maxtimeout'],
+      DEFAULT_RETRY_CONFIG.maxTimeoutMs,
+    ),
+  };
+}
+
+/**
+ * Parses a Retry-After header (delay in seconds or an HTTP date).
+ *
+ * @param value - The header value.
+ * @param now - Current time in milliseconds (for testing).
+ * @returns The delay in milliseconds, or null if the header is missing or invalid.
+ */
+export function parseRetryAfter(
+  value: string | null,
+  now = Date.now(),
+): number | null {
+  if (!value) {
+    return null;
+  }
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Computes the backoff delay before a retry: exponential growth capped at
+ * `maxTimeoutMs`, with the upper half randomized so parallel requests spread out.
+ *
+ * @param attempt - The number of the retry (0 for the first retry).
+ * @param config - Retry settings.
+ * @param random - Random number source in [0, 1) (for testing).
+ * @returns The delay in milliseconds.
+ */
+export function retryDelay(
+  attempt: number,
+  config: RetryConfig,
+  random: () => number = Math.random,
+): number {
+  const base = Math.min(
+    config.maxTimeoutMs,
+    config.minTimeoutMs * config.factor ** attempt,
+  );
+  return Math.round(base / 2 + (random() * base) / 2);
+}
+
+/**
+ * Checks whether a failed request should be retried.
+ * Timeouts, connection failures and 408/429/5xx responses are retried; TLS errors,
+ * authentication failures and missing packages are not.
+ *
+ * @param error - The error thrown by the request.
+ * @returns True if the request may succeed when retried.
+ */
+export function isRetryable(error: unknown): boolean {
+  if (!(error instanceof NetworkError) || error instanceof TlsError) {
+    return false;
+  }
+  return (
+    error.statusCode === undefined || RETRYABLE_STATUSES.has(error.statusCode)
+  );
+}
+
+/**
+ * Checks whether an error shows that the registry is throttling requests.
+ *
+ * @param error - The error thrown by the request.
+ * @returns True for 429 Too Many Requests and 503 Service Unavailable.
+ */
+export function isThrottled(error: unknown): boolean {
+  return (
+    error instanceof NetworkError &&
+    error.statusCode !== undefined &&
+    THROTTLE_STATUSES.has(error.statusCode)
+  );
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs an operation, retrying retryable failures with jittered exponential backoff.
+ *
+ * A Retry-After delay sent by the registry is used instead of the backoff delay. If it
+ * is longer than MAX_RETRY_AFTER_MS, the error is thrown right away rather than keeping
+ * the run waiting.
+ *
+ * @param operation - The operation to run.
+ * @param config - Retry settings.
+ * @param onRetry - Called before each retry with the error and the delay.
+ * @param signal - Stops retrying when aborted; a pending backoff delay rejects with the
+ * abort reason.
+ * @returns Promise that resolves to the operation's result.
+ * @throws The last error if it is not retryable or all retries failed.
+ */
+export async function withRetries<T>(
+  operation: () => Promise<T>,
+  config: RetryConfig,
+  // eslint-disable-next-line no-unused-vars
+  onRetry?: (error: unknown, delayMs: number) => void,
+  signal?: AbortSignal,
+): Promise<T> {
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await operation();
+    } catch (error) {
+      signal?.throwIfAborted();
+      if (attempt >= config.retries || !isRetryable(error)) {
+        throw error;
+      }
+      const retryAfter = (error as NetworkError).retryAfterMs;
+      if (retryAfter !== undefined && retryAfter > MAX_RETRY_AFTER_MS) {
+        throw error;
+      }
+      const delay = retryAfter ?? retryDelay(attempt, config);
+      onRetry?.(error, delay);
+      await sleep(delay, signal);
+    }
+  }
+}
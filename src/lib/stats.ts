@@ -0,0 +1,110 @@
+import type { PackumentBody } from './packument.js';
+
+/**
+ * Counters collected while fetching registry metadata, printed by --stats.
+ */
+export type FetchStats = {
+  /** Packages looked up. */
+  packages: number;
+  /** Fresh cache entries used without a request. */
+  cacheHits: number;
+  /** Revalidations answered with 304 Not Modified. */
+  notModified: number;
+  /** Abbreviated documents downloaded. */
+  abbreviated: number;
+  /** Full packuments downloaded. */
+  full: number;
+  /** Response bytes received (after decompression). */
+  bytes: number;
+  /** Bytes the streaming parser scanned without keeping. */
+  skippedBytes: number;
+  /** Estimated full packument bytes that did not have to be downloaded. */
+  savedBytes: number;
+  /** Time spent on requests, summed over all requests. */
+  requestMs: number;
+  /** Requests that were retried. */
+  retries: number;
+  /** Retries caused by throttling (429/503). */
+  throttled: number;
+};
+
+/**
+ * Creates an empty set of fetch counters.
+ */
+export function createFetchStats(): FetchStats {
+  return {
+    packages: 0,
+    cacheHits: 0,
+    notModified: 0,
+    abbreviated: 0,
+    full: 0,
+    bytes: 0,
+    skippedBytes: 0,
+    savedBytes: 0,
+    requestMs: 0,
+    retries: 0,
+    throttled: 0,
+  };
+}
+
+/**
+ * Records a downloaded document.
+ *
+ * @param stats - The counters to update.
+ * @param abbreviated - Whether the abbreviated format was requested.
+ * @param body - The parsed response body.
+ * @param ms - How long the request took.
+ */
+export function recordDownload(
+  stats: FetchStats,
+  abbreviated: boolean,
+  body: PackumentBody,
+  ms: number,
+): void {
+  if (abbreviated) {
+    stats.abbreviated += 1;
+  } else {
+    stats.full += 1;
+  }
+  stats.bytes += body.bytes;
+  stats.skippedBytes += body.skippedBytes;
+  stats.requestMs += ms;
+}
+
+/**
+ * Formats a byte count with a binary unit (B, KB, MB, GB).
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return unit === 0 ? `${value} B` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Formats the --stats summary.
+ *
+ * The time saved is estimated from the bytes not downloaded at the transfer rate
+ * observed during this run.
+ *
+ * @param stats - The collected counters.
+ * @param elapsedMs - Wall-clock time of the metadata phase.
+ * @returns The summary lines.
+ */
+export function formatFetchStats(stats: FetchStats, elapsedMs: number): string {
+  const requests = stats.abbreviated + stats.full;
+  const rate = stats.requestMs > 0 ? stats.bytes / stats.requestMs : 0;
+  const savedMs = rate > 0 ? stats.savedBytes / rate : 0;
+  const lines = [
+    `Stats: ${stats.packages} package(s), ${requests} request(s) (${stats.abbreviated} abbreviated, ${stats.full} full) in ${(elapsedMs / 1000).toFixed(1)}s`,
+    `  Downloaded: ${formatBytes(stats.bytes)}, ${formatBytes(stats.skippedBytes)} skipped while parsing`,
+    `  Cache: ${stats.cacheHits} fresh, ${stats.notModified} not modified`,
+    `  Retries: ${stats.retries} (${stats.throttled} throttled)`,
+    `  Saved: ~${formatBytes(stats.savedBytes)}${savedMs > 0 ? ` (~${(savedMs / 1000).toFixed(1)}s)` : ''}`,
+  ];
+  return lines.join('\n');
+}
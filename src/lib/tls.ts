@@ -0,0 +1,81 @@
+import { readFileSync } from 'node:fs';
+import { TlsError } from './errors.js';
+import type { NpmrcSettings, TlsConfig } from './types.js';
+
+/** TLS configuration used when no CA or strict-ssl settings are given. */
+export const DEFAULT_TLS_CONFIG: TlsConfig = {
+  ca: null,
+  strictSsl: true,
+};
+
+const PEM_CERTIFICATE =
+  /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g;
+
+/**
+ * Extracts PEM certificates from a bundle.
+ *
+ * Literal `\n` sequences (as used for inline `ca` values in .npmrc) are treated as newlines.
+ *
+ * @param bundle - One or more PEM certificates.
+ * @returns The individual certificates.
+ */
+export function splitCertificates(bundle: string): string[] {
+  return bundle.replace(/\\n/g, '\n').match(PEM_CERTIFICATE) ?? [];
+}
+
+function readCertificates(path: string): string[] {
+  try {
+    return splitCertificates(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    const code = (error as { code?: string }).code ?? 'unknown error';
+    throw new TlsError(`Cannot read CA file ${path} (${code})`, 'CAFILE');
+  }
+}
+
+/**
+ * Builds the TLS configuration from npm settings.
+ *
+ * Like npm, `cafile` and `ca` replace the built-in CA list; certificates from
+ * `NODE_EXTRA_CA_CERTS` are always added. `strict-ssl=false` disables certificate checks.
+ *
+ * @param settings - Merged .npmrc settings.
+ * @param env - Environment variables (defaults to process.env).
+ * @returns The TLS configuration.
+ * @throws {TlsError} If `cafile` cannot be read.
+ */
+export function getTlsConfig(
+  settings: NpmrcSettings,
+  env: Record<string, string | undefined> = process.env,
+): TlsConfig {
+  const strictSsl = settings['strict-ssl'] !== 'false';
+  const configured = settings.cafile
+    ? readCertificates(settings.cafile)
+    : settings.ca
+      ? splitCertificates(settings.ca)
+      : null;
+
+  if (configured === null) {
+    // Node already trusts NODE_EXTRA_CA_CERTS for requests with the default CA list
+    return { ca: null, strictSsl };
+  }
+
+  let extra: string[] = [];
+  if (env.NODE_EXTRA_CA_CERTS) {
+    try {
+      extra = splitCertificates(readFileSync(env.NODE_EXTRA_CA_CERTS, 'utf-8'));
+    } catch {
+      // Node reports unreadable NODE_EXTRA_CA_CERTS itself at startup
+    }
+  }
+  return { ca: [...configured, ...extra], strictSsl };
+}
+
+/**
+ * Checks whether requests need TLS options that the global fetch cannot apply.
+ *
+ * @param config - The TLS configuration.
+ * @returns True if a custom CA list or disabled certificate checks are configured.
+ */
+export function hasCustomTls(config: TlsConfig): boolean {
+  return config.ca !== null || !config.strictSsl;
+}
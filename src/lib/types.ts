@@ -1,3 +1,5 @@
+import type { FetchStats } from './stats.js';
+
 export type OutdatedEntry = {
   current: string;
   wanted: string;
@@ -6,9 +8,120 @@ export type OutdatedEntry = {
 
 export type OutdatedMap = Record<string, OutdatedEntry>;
 
+/** Raw key/value settings merged from .npmrc files. */
+export type NpmrcSettings = Record<string, string>;
+
+/**
+ * Proxies for registry requests. `noProxy` holds lower-cased NO_PROXY entries.
+ */
+export type ProxyConfig = {
+  httpProxy: string | null;
+  httpsProxy: string | null;
+  noProxy: string[];
+};
+
+/**
+ * TLS settings for registry requests. `ca` replaces the built-in CA list when set.
+ */
+export type TlsConfig = {
+  ca: string[] | null;
+  strictSsl: boolean;
+};
+
+/**
+ * Retry settings for registry requests (`fetch-retry-*` in .npmrc).
+ */
+export type RetryConfig = {
+  retries: number;
+  factor: number;
+  minTimeoutMs: number;
+  maxTimeoutMs: number;
+};
+
+/**
+ * Registries used for metadata lookups.
+ * `scopes` maps a scope (e.g., `@acme`) to its registry URL; `credentials` maps a
+ * registry nerf dart (e.g., `//npm.acme.dev/`) to its Authorization header value.
+ */
+export type RegistryConfig = {
+  registry: string;
+  scopes: Record<string, string>;
+  credentials: Record<string, string>;
+  proxy: ProxyConfig;
+  tls: TlsConfig;
+  retry: RetryConfig;
+};
+
+/**
+ * Minimal response interface shared by fetch and the proxy-aware request helper.
+ */
+export type HttpResponse = {
+  ok: boolean;
+  status: number;
+  headers: {
+    // eslint-disable-next-line no-unused-vars
+    get(name: string): string | null;
+  };
+  json(): Promise<unknown>;
+  /** Decoded response body as a stream of chunks, if available. */
+  body?: AsyncIterable<Uint8Array> | null;
+};
+
 export type Meta = {
   latest: string;
   timeMap: Record<string, string>;
+  /** When the metadata was fetched, if it was loaded from local storage (--offline). */
+  cachedAt?: number;
+};
+
+/**
+ * ETag and Last-Modified of one representation of a packument, for conditional requests.
+ */
+export type CacheValidators = {
+  etag: string | null;
+  lastModified: string | null;
+};
+
+/**
+ * Cached registry metadata for one packument URL, with validators for conditional requests.
+ */
+export type CacheEntry = {
+  url: string;
+  fetchedAt: number;
+  /**
+   * Validators per representation, since the registry sends different ETags for the full
+   * packument and the abbreviated metadata. Missing in entries of older versions.
+   */
+  validators?: {
+    full?: CacheValidators;
+    abbreviated?: CacheValidators;
+  };
+  meta: Meta;
+  /** Size of the full packument the time map was read from (for --stats). */
+  bytes?: number;
+};
+
+/**
+ * Metadata cache settings. With `refresh`, cached entries are ignored but still updated.
+ */
+export type CacheOptions = {
+  dir: string;
+  ttlMs: number;
+  refresh: boolean;
+};
+
+/**
+ * Settings for fetching registry metadata for a set of packages.
+ */
+export type MetaFetchOptions = {
+  concurrency: number;
+  registries: RegistryConfig;
+  cache: CacheOptions | null;
+  stats: FetchStats | null;
+  signal?: AbortSignal;
+  /** Called after each package with the number of packages done and the total. */
+  // eslint-disable-next-line no-unused-vars
+  onProgress?: (done: number, total: number) => void;
 };
 
 export interface NpmRegistryResponse {
@@ -39,6 +152,18 @@ export type Row = {
   _age_wanted: number;
   _age_latest: number;
   _latest: string;
+  /** How long ago the metadata was fetched; only set for rows built from local metadata. */
+  Cached?: string;
+  _cached_at?: number;
+  /** Name of the workspace the dependency belongs to; only set when checking workspaces. */
+  Workspace?: string;
+  /** Path of the project the dependency belongs to; only set with --recursive. */
+  Project?: string;
+  /**
+   * Directory of the package.json that declares the dependency, relative to the checked
+   * directory; only set for workspace and project rows.
+   */
+  _package_dir?: string;
 };
 
 export type Args = {
@@ -61,11 +186,91 @@ export type Args = {
     | 'wanted'
     | 'latest';
   order: 'asc' | 'desc';
-  format: 'plain' | 'md';
+  format: 'plain' | 'md' | 'json' | 'csv' | 'tsv' | 'sarif' | 'junit' | 'html';
   skip: string[];
+  output: string | null;
+  failOn: FailOnRule[];
+  registry: string | null;
+  cache: boolean;
+  refresh: boolean;
+  cacheTtl: number;
+  offline: boolean;
+  packuments: string | null;
+  stats: boolean;
+  retries: number | null;
+  fatalFetchErrors: boolean;
+  timeout: number;
+  workspaces: boolean;
+  workspace: string[];
+  recursive: boolean;
+  /** Absolute path of the project directory (--cwd / --prefix). */
+  cwd: string;
   _skipConfig?: SkipFileConfig | null;
   _skipFilePath?: string | null;
   _commandLineSkips?: string[];
+  _configSkips?: string[];
+};
+
+/**
+ * A single --fail-on condition.
+ */
+export type FailOnRule =
+  | {
+      kind: 'bump';
+      bump: 'major' | 'minor' | 'patch' | 'prerelease';
+      source: string;
+    }
+  | { kind: 'age'; days: number; source: string }
+  | { kind: 'count'; count: number; source: string };
+
+/**
+ * A --fail-on rule that tripped, with the packages that caused it.
+ */
+export type PolicyViolation = {
+  rule: string;
+  packages: string[];
+  message: string;
+};
+
+/**
+ * Destination for rendered report lines (console, in-memory string, ...).
+ */
+export type OutputSink = {
+  // eslint-disable-next-line no-unused-vars
+  writeLine: (line: string) => void;
+};
+
+/**
+ * Project defaults from `.outdated-plusrc.json` or the `outdated-plus` key in package.json.
+ * Keys mirror the Args fields; enum values are validated like their CLI counterparts.
+ */
+export type ConfigFile = {
+  olderThan?: number;
+  showAll?: boolean;
+  showWanted?: boolean;
+  quiet?: boolean;
+  checkAll?: boolean;
+  iso?: boolean;
+  concurrency?: number;
+  sortBy?: string;
+  order?: string;
+  format?: string;
+  skip?: string[];
+  output?: string;
+  failOn?: string[];
+  registry?: string;
+  cache?: boolean;
+  refresh?: boolean;
+  cacheTtl?: number;
+  offline?: boolean;
+  packuments?: string;
+  stats?: boolean;
+  retries?: number;
+  fatalFetchErrors?: boolean;
+  timeout?: number;
+  workspaces?: boolean;
+  workspace?: string[];
+  recursive?: boolean;
 };
 
 export type SkipFileConfig = {
@@ -81,3 +286,330 @@ export type BumpType =
   | 'prerelease'
   | 'same'
   | 'unknown';
+
+/**
+ * A package that was left out of the report because of a skip entry.
+ */
+/**
+ * Where skip entries came from; entries in neither list are from the skip file.
+ */
+export type SkipSources = {
+  /** Entries passed via --skip. */
+  commandLine: string[];
+  /** Entries from the `skip` key of the project config. */
+  config: string[];
+  /** The `reason` field of the skip file, if any. */
+  fileReason?: string;
+};
+
+export type SkippedPackage = {
+  name: string;
+  entry: string;
+  reason: string;
+  /** The workspace whose dependency was skipped (workspace checks only). */
+  workspace?: string;
+  /** The project whose dependency was skipped (--recursive only). */
+  project?: string;
+};
+
+/**
+ * A checked package that is up to date (listed as a passing JUnit testcase).
+ */
+export type UpToDatePackage = {
+  name: string;
+  /** The workspace that depends on it (workspace checks only). */
+  workspace?: string;
+  /** The project that depends on it (--recursive only). */
+  project?: string;
+};
+
+/**
+ * A package without locally stored metadata in offline mode.
+ */
+export type MissingPackage = {
+  name: string;
+  /** The workspace that depends on it (workspace checks only). */
+  workspace?: string;
+  /** The project that depends on it (--recursive only). */
+  project?: string;
+};
+
+/**
+ * A package whose registry metadata could not be fetched.
+ * `code` is the error code (e.g. NETWORK_ERROR), `message` the formatted error.
+ */
+export type UnresolvedPackage = {
+  name: string;
+  code: string;
+  message: string;
+  /** The workspace that depends on it (JUnit reports of workspace checks only). */
+  workspace?: string;
+  /** The project that depends on it (JUnit reports with --recursive only). */
+  project?: string;
+};
+
+/**
+ * A single package entry in the JSON report.
+ * Timestamps are ISO 8601 strings plus epoch milliseconds, ages are numbers of days.
+ */
+export type JsonReportPackage = {
+  name: string;
+  current: string;
+  wanted: string;
+  latest: string;
+  toWanted: BumpType;
+  toLatest: BumpType;
+  publishedWanted: string | null;
+  publishedWantedMs: number | null;
+  ageWanted: number | null;
+  publishedLatest: string | null;
+  publishedLatestMs: number | null;
+  ageLatest: number | null;
+  /** When the metadata was fetched (offline reports only, otherwise null). */
+  cachedAt: string | null;
+  cachedAtMs: number | null;
+  /** The workspace that depends on the package (workspace checks only, otherwise null). */
+  workspace: string | null;
+  /** The project that depends on the package (--recursive only, otherwise null). */
+  project: string | null;
+};
+
+/**
+ * Versioned document emitted by `--format json`.
+ */
+export type JsonReport = {
+  schemaVersion: number;
+  generatedAt: string;
+  /** True if the run was cancelled before every package was checked. */
+  incomplete: boolean;
+  summary: {
+    total: number;
+    skipped: number;
+    unresolved: number;
+    missing: number;
+    byBumpType: Record<BumpType, number>;
+  };
+  skipped: SkippedPackage[];
+  unresolved: UnresolvedPackage[];
+  /** Packages without local metadata (--offline only). */
+  missing: MissingPackage[];
+  packages: JsonReportPackage[];
+  /** Dependencies installed in different versions across projects (--recursive only). */
+  mismatches: VersionMismatch[];
+};
+
+/**
+ * Subset of the SARIF 2.1.0 format emitted by `--format sarif`.
+ */
+export type SarifLevel = 'error' | 'warning' | 'note';
+
+export type SarifRule = {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+};
+
+export type SarifResult = {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: {
+    physicalLocation: {
+      artifactLocation: { uri: string };
+      region?: { startLine: number; startColumn: number };
+    };
+  }[];
+  properties: {
+    package: string;
+    current: string;
+    latest: string;
+    ageLatest: number | null;
+    cachedAt?: string;
+    workspace?: string;
+    project?: string;
+  };
+};
+
+/**
+ * Run details; used to report packages that could not be resolved or have no local
+ * metadata.
+ */
+export type SarifInvocation = {
+  executionSuccessful: boolean;
+  toolExecutionNotifications: {
+    level: SarifLevel;
+    message: { text: string };
+    properties: {
+      package: string;
+      code: string;
+      workspace?: string;
+      project?: string;
+    };
+  }[];
+};
+
+export type SarifLog = {
+  $schema: string;
+  version: '2.1.0';
+  runs: {
+    tool: {
+      driver: {
+        name: string;
+        informationUri: string;
+        rules: SarifRule[];
+      };
+    };
+    results: SarifResult[];
+    invocations?: SarifInvocation[];
+  }[];
+};
+
+/**
+ * Options of checkOutdated, the programmatic API. They mirror the CLI options; omitted
+ * options use the CLI defaults. Config files and the skip file are not read.
+ */
+export type CheckOptions = {
+  /** Project directory (default: process.cwd()). */
+  cwd?: string;
+  /** Check every dependency via the registry instead of running `npm outdated`. */
+  checkAll?: boolean;
+  /** Use locally stored metadata only (cache of earlier runs or `packuments`). */
+  offline?: boolean;
+  /** Directory of imported packuments for offline mode. */
+  packuments?: string | null;
+  /** Only include packages whose update is at least this many days old. */
+  olderThan?: number;
+  /** Ignore the `olderThan` filter. */
+  showAll?: boolean;
+  /** Skip entries (`name` or `name@version`). */
+  skip?: string[];
+  /** Format dates in rows as ISO 8601. */
+  iso?: boolean;
+  sortBy?: Args['sortBy'];
+  order?: Args['order'];
+  /** Default registry URL; overrides .npmrc, scoped registries still apply. */
+  registry?: string | null;
+  /** Maximum number of parallel registry requests. */
+  concurrency?: number;
+  /** Retries for failed registry requests (default: `fetch-retries` from .npmrc). */
+  retries?: number | null;
+  /** Use the metadata cache (default: true). */
+  cache?: boolean;
+  /** Ignore cached entries, but still update them. */
+  refresh?: boolean;
+  /** Minutes before cached metadata is revalidated. */
+  cacheTtl?: number;
+  /** Check every workspace from the `workspaces` field of package.json. */
+  workspaces?: boolean;
+  /** Check only these workspaces (by name or path); implies `workspaces`. */
+  workspace?: string[];
+  /**
+   * Check every project (directory with a package.json) below `cwd`, respecting .gitignore.
+   * Takes precedence over `workspaces`.
+   */
+  recursive?: boolean;
+  /** Cancels the check; lookups that have not finished are reported as CANCELLED. */
+  signal?: AbortSignal;
+  /** Called after each registry lookup with the number of packages done and the total. */
+  // eslint-disable-next-line no-unused-vars
+  onProgress?: (done: number, total: number) => void;
+};
+
+/**
+ * Result of checkOutdated.
+ */
+export type CheckResult = {
+  /** Outdated packages after filtering and sorting, as printed by the CLI. */
+  rows: Row[];
+  /** Current, wanted and latest version of every outdated package. */
+  outdated: OutdatedMap;
+  /** Registry metadata by package name. */
+  metas: Record<string, Meta>;
+  /** Packages left out because of a skip entry. */
+  skipped: SkippedPackage[];
+  /** Packages whose metadata could not be fetched, with the error code and message. */
+  unresolved: UnresolvedPackage[];
+  /** Packages without locally stored metadata (offline mode only). */
+  missing: string[];
+  /** True if the signal was aborted before every package was checked. */
+  incomplete: boolean;
+  /** Request and cache counters of the registry lookups. */
+  stats: FetchStats;
+  /** Outdated packages per workspace (empty unless workspaces were checked). */
+  workspaces: WorkspaceResult[];
+  /** Outdated packages per project (empty unless `recursive` was set). */
+  projects: ProjectResult[];
+  /** Dependencies installed in different versions across projects (`recursive` only). */
+  mismatches: VersionMismatch[];
+};
+
+/**
+ * A workspace of an npm workspaces project.
+ */
+export type Workspace = {
+  /** Package name from the workspace's package.json (its path if it has no name). */
+  name: string;
+  /** Directory relative to the project root, with forward slashes. */
+  path: string;
+  /** Absolute directory. */
+  dir: string;
+};
+
+/**
+ * The check result of one workspace.
+ */
+export type WorkspaceResult = Workspace & {
+  /** Current, wanted and latest version of every outdated dependency. */
+  outdated: OutdatedMap;
+  /**
+   * Dependencies that were checked: all of them with `checkAll` or `offline`, otherwise
+   * the ones `npm outdated` reported.
+   */
+  packages: string[];
+};
+
+/**
+ * A project found by --recursive: a directory with a package.json.
+ */
+export type Project = {
+  /** Package name from the project's package.json (its path if it has no name). */
+  name: string;
+  /** Directory relative to the checked directory, with forward slashes ('.' for itself). */
+  path: string;
+  /** Absolute directory. */
+  dir: string;
+};
+
+/**
+ * The check result of one project.
+ */
+export type ProjectResult = Project & {
+  /** Current, wanted and latest version of every outdated dependency. */
+  outdated: OutdatedMap;
+  /**
+   * Dependencies that were checked: all of them with `checkAll` or `offline`, otherwise
+   * the ones `npm outdated` reported.
+   */
+  packages: string[];
+  /** Installed version of each dependency, from the lockfile. */
+  installed: Record<string, string>;
+};
+
+/**
+ * A dependency that is installed in different versions across projects.
+ */
+export type VersionMismatch = {
+  name: string;
+  /** Latest version from the registry, or null if it was not looked up. */
+  latest: string | null;
+  /** The installed versions, highest first, with the paths of the projects using them. */
+  versions: { version: string; projects: string[] }[];
+};
+
+/**
+ * A package manager, detected from the lockfile or the `packageManager` field of a project.
+ * `yarn` is Yarn classic (1.x), `yarn-berry` Yarn 2 and later.
+ */
+export type PackageManager = 'npm' | 'pnpm' | 'yarn' | 'yarn-berry' | 'bun';
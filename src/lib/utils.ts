@@ -1,5 +1,10 @@
-import { MS_PER_DAY } from './constants.js';
-import type { BumpType, NpmRegistryResponse, OutdatedMap } from './types.js';
+import { MS_PER_DAY, MS_PER_MINUTE } from './constants.js';
+import type {
+  BumpType,
+  NpmRegistryResponse,
+  OutdatedEntry,
+  OutdatedMap,
+} from './types.js';
 
 export function parseIsoZ(s?: string): number | null {
   if (!s) {
@@ -50,24 +55,27 @@ export function isOutdatedMap(data: unknown): data is OutdatedMap {
   if (!data || typeof data !== 'object') {
     return false;
   }
+  return Object.values(data).every(isOutdatedEntry);
+}
 
-  for (const value of Object.values(data)) {
-    if (!value || typeof value !== 'object') {
-      return false;
-    }
-    if (!('current' in value) || !('wanted' in value) || !('latest' in value)) {
-      return false;
-    }
-    if (
-      typeof value.current !== 'string' ||
-      typeof value.wanted !== 'string' ||
-      typeof value.latest !== 'string'
-    ) {
-      return false;
-    }
+/**
+ * Type guard to validate that data is an OutdatedEntry.
+ *
+ * @param value - The data to validate.
+ * @returns True if current, wanted and latest are strings.
+ */
+export function isOutdatedEntry(value: unknown): value is OutdatedEntry {
+  if (!value || typeof value !== 'object') {
+    return false;
   }
-
-  return true;
+  if (!('current' in value) || !('wanted' in value) || !('latest' in value)) {
+    return false;
+  }
+  return (
+    typeof value.current === 'string' &&
+    typeof value.wanted === 'string' &&
+    typeof value.latest === 'string'
+  );
 }
 
 /**
@@ -122,6 +130,20 @@ export function daysAgo(ms: number | null): number | null {
   return Math.max(0, Math.floor(delta / MS_PER_DAY));
 }
 
+/**
+ * Formats how long ago metadata was stored, e.g. `45m ago`, `5h ago` or `3d ago`.
+ */
+export function formatCacheAge(ms: number, now: number = Date.now()): string {
+  const minutes = Math.max(0, Math.floor((now - ms) / MS_PER_MINUTE));
+  if (minutes < 60) {
+    return `${minutes}m ago`;
+  }
+  if (minutes < 48 * 60) {
+    return `${Math.floor(minutes / 60)}h ago`;
+  }
+  return `${Math.floor((now - ms) / MS_PER_DAY)}d ago`;
+}
+
 /**
  * Formats a timestamp into a human-readable date string.
  */
@@ -377,3 +399,47 @@ export function shouldSkipPackage(
 
   return false;
 }
+
+/**
+ * Finds the line of a dependency declaration in package.json content.
+ *
+ * Prefers declarations inside a dependency section (dependencies, devDependencies,
+ * peerDependencies, optionalDependencies) over other keys with the same name.
+ *
+ * @param content - Raw package.json content.
+ * @param pkg - The package name to look for.
+ * @returns 1-based line and column of the dependency key, or null if not found.
+ */
+export function findDependencyLine(
+  content: string,
+  pkg: string,
+): { line: number; column: number } | null {
+  const lines = content.split(/\r?\n/);
+  const key = `"${pkg}"`;
+  let fallback: { line: number; column: number } | null = null;
+  let inSection = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const text = lines[i];
+    const opensSection =
+      /^\s*"(?:dev|peer|optional)?[dD]ependencies"\s*:\s*\{/.test(text);
+    if (opensSection) {
+      inSection = true;
+    }
+    const column = text.indexOf(key);
+    if (column !== -1 && /^\s*:/.test(text.slice(column + key.length))) {
+      const position = { line: i + 1, column: column + 1 };
+      if (inSection) {
+        return position;
+      }
+      fallback = fallback ?? position;
+    }
+    if (
+      opensSection ? /\}\s*,?\s*$/.test(text) : inSection && /^\s*\}/.test(text)
+    ) {
+      inSection = false;
+    }
+  }
+
+  return fallback;
+}
@@ -0,0 +1,219 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { join, posix } from 'node:path';
+import { PackageJsonError } from './errors.js';
+import type { OutdatedMap, Workspace } from './types.js';
+import { isOutdatedEntry } from './utils.js';
+
+/**
+ * Reads the `workspaces` patterns from package.json. Both the array form and the
+ * `{ "packages": [...] }` object form are supported.
+ *
+ * @param cwd - The project root.
+ * @returns The patterns, or an empty array if there are none.
+ */
+export function readWorkspacePatterns(cwd: string): string[] {
+  try {
+    const data = JSON.parse(readFileSync(join(cwd, 'package.json'), 'utf-8'));
+    const workspaces = Array.isArray(data.workspaces)
+      ? data.workspaces
+      : data.workspaces?.packages;
+    return Array.isArray(workspaces)
+      ? workspaces.filter((p: unknown): p is string => typeof p === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Lists the subdirectories of a directory, leaving out node_modules and hidden directories.
+ */
+function subdirectories(root: string, path: string): string[] {
+  try {
+    return readdirSync(join(root, path), { withFileTypes: true })
+      .filter(
+        (e) =>
+          e.isDirectory() &&
+          e.name !== 'node_modules' &&
+          !e.name.startsWith('.'),
+      )
+      .map((e) => e.name)
+      .sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Lists a directory and all directories below it (for `**`).
+ */
+function descendants(root: string, path: string): string[] {
+  return [
+    path,
+    ...subdirectories(root, path).flatMap((name) =>
+      descendants(root, posix.join(path, name)),
+    ),
+  ];
+}
+
+/**
+ * Converts a path segment with `*` and `?` wildcards to a regular expression.
+ */
+function segmentRegex(segment: string): RegExp {
+  const source = segment
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\?/g, '[^/]');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Expands a workspace pattern to the directories it matches. Supports `*` and `?` within
+ * a path segment and `**` for any number of directories.
+ *
+ * @param root - The project root.
+ * @param pattern - The pattern, relative to the root.
+ * @returns Matching directories relative to the root, with forward slashes.
+ */
+export function expandWorkspacePattern(
+  root: string,
+  pattern: string,
+): string[] {
+  const segments = posix
+    .normalize(pattern.replace(/\\/g, '/'))
+    .split('/')
+    .filter((s) => s !== '' && s !== '.');
+  let paths = [''];
+  for (const segment of segments) {
+    if (segment === '**') {
+      paths = paths.flatMap((path) => descendants(root, path));
+    } else if (/[*?]/.test(segment)) {
+      const regex = segmentRegex(segment);
+      paths = paths.flatMap((path) =>
+        subdirectories(root, path)
+          .filter((name) => regex.test(name))
+          .map((name) => posix.join(path, name)),
+      );
+    } else {
+      paths = paths.map((path) => posix.join(path, segment));
+    }
+  }
+  return paths.filter((path) => path !== '');
+}
+
+/**
+ * Finds the workspaces of an npm workspaces project.
+ *
+ * Patterns starting with `!` exclude directories. Matched directories without a
+ * package.json are ignored, as npm does.
+ *
+ * @param cwd - The project root.
+ * @returns The workspaces in pattern order.
+ */
+export function findWorkspaces(cwd: string): Workspace[] {
+  const patterns = readWorkspacePatterns(cwd);
+  const excluded = new Set(
+    patterns
+      .filter((p) => p.startsWith('!'))
+      .flatMap((p) => expandWorkspacePattern(cwd, p.slice(1))),
+  );
+  const paths = patterns
+    .filter((p) => !p.startsWith('!'))
+    .flatMap((p) => expandWorkspacePattern(cwd, p))
+    .filter((path) => !excluded.has(path));
+
+  const workspaces: Workspace[] = [];
+  for (const path of new Set(paths)) {
+    const dir = join(cwd, path);
+    try {
+      const data = JSON.parse(readFileSync(join(dir, 'package.json'), 'utf-8'));
+      const name = typeof data?.name === 'string' ? data.name : path;
+      workspaces.push({ name, path, dir });
+    } catch {
+      // Not a package
+    }
+  }
+  return workspaces;
+}
+
+/**
+ * Selects workspaces by name or path (--workspace). A path also selects the workspaces
+ * below it, so `packages` selects every workspace in `packages/`.
+ *
+ * @param workspaces - All workspaces of the project.
+ * @param filters - Workspace names or paths; an empty list selects every workspace.
+ * @returns The selected workspaces, in project order.
+ * @throws {PackageJsonError} If the project has no workspaces or a filter matches none.
+ */
+export function selectWorkspaces(
+  workspaces: Workspace[],
+  filters: string[],
+): Workspace[] {
+  if (workspaces.length === 0) {
+    throw new PackageJsonError('No workspaces found in package.json');
+  }
+  if (filters.length === 0) {
+    return workspaces;
+  }
+
+  const selected = new Set<Workspace>();
+  for (const filter of filters) {
+    const path = posix.normalize(filter.replace(/\\/g, '/')).replace(/\/$/, '');
+    const matches = workspaces.filter(
+      (ws) =>
+        ws.name === filter ||
+        ws.path === path ||
+        ws.path.startsWith(`${path}/`),
+    );
+    if (matches.length === 0) {
+      throw new PackageJsonError(`No workspace matches '${filter}'`);
+    }
+    matches.forEach((ws) => selected.add(ws));
+  }
+  return workspaces.filter((ws) => selected.has(ws));
+}
+
+/**
+ * Splits `npm outdated --json --workspace ...` output by workspace.
+ *
+ * npm names the workspace that depends on a package in the `dependent` field (its package
+ * name, or its folder name in npm 10), and turns the entry into an array when the package
+ * is outdated in more than one workspace.
+ *
+ * @param data - The parsed npm output.
+ * @param workspaces - The checked workspaces.
+ * @returns The outdated map of each workspace, by workspace name.
+ */
+export function splitOutdatedByWorkspace(
+  data: unknown,
+  workspaces: Workspace[],
+): Record<string, OutdatedMap> {
+  const byWorkspace: Record<string, OutdatedMap> = Object.fromEntries(
+    workspaces.map((ws) => [ws.name, {}]),
+  );
+  const names = new Map<string, string>();
+  for (const ws of workspaces) {
+    names.set(posix.basename(ws.path), ws.name);
+  }
+  for (const ws of workspaces) {
+    names.set(ws.name, ws.name);
+  }
+  if (!data || typeof data !== 'object') {
+    return byWorkspace;
+  }
+  for (const [pkg, value] of Object.entries(data)) {
+    for (const entry of Array.isArray(value) ? value : [value]) {
+      const dependent: unknown = entry?.dependent;
+      const name = typeof dependent === 'string' && names.get(dependent);
+      if (!name || !isOutdatedEntry(entry)) {
+        continue;
+      }
+      byWorkspace[name][pkg] = {
+        current: entry.current,
+        wanted: entry.wanted,
+        latest: entry.latest,
+      };
+    }
+  }
+  return byWorkspace;
+}
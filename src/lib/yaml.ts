@@ -0,0 +1,250 @@
+/**
+ * A YAML reader for lockfiles.
+ *
+ * Only the subset that package managers write is supported: block mappings and sequences,
+ * plain and quoted scalars (on one line), single-line flow collections (`{...}` and
+ * `[...]`) and comments. Anchors, tags and multi-line scalars are not.
+ */
+
+type Line = { indent: number; text: string };
+
+/**
+ * Removes a comment from a line, outside of quoted strings.
+ */
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quote) {
+      if (c === quote) {
+        quote = null;
+      }
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+}
+
+/**
+ * Reads a quoted scalar starting at `start`.
+ *
+ * @returns The value and the index after the closing quote.
+ */
+function readQuoted(text: string, start: number): [string, number] {
+  const quote = text[start];
+  let value = '';
+  for (let i = start + 1; i < text.length; i++) {
+    const c = text[i];
+    if (quote === "'" && c === "'") {
+      if (text[i + 1] === "'") {
+        value += "'";
+        i += 1;
+        continue;
+      }
+      return [value, i + 1];
+    }
+    if (quote === '"' && c === '\\' && i + 1 < text.length) {
+      const next = text[i + 1];
+      value += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+      i += 1;
+      continue;
+    }
+    if (quote === '"' && c === '"') {
+      return [value, i + 1];
+    }
+    value += c;
+  }
+  return [value, text.length];
+}
+
+/**
+ * Converts a plain scalar to null, a boolean, a number or a string.
+ */
+function plainScalar(text: string): unknown {
+  if (text === '' || text === '~' || text === 'null') {
+    return null;
+  }
+  if (text === 'true' || text === 'false') {
+    return text === 'true';
+  }
+  if (/^-?\d+(?:\.\d+)?$/.test(text)) {
+    return Number(text);
+  }
+  return text;
+}
+
+/**
+ * Reads a flow collection or scalar starting at `start`.
+ *
+ * @returns The value and the index after it.
+ */
+function readFlow(text: string, start: number): [unknown, number] {
+  let i = start;
+  const skipSpaces = () => {
+    while (text[i] === ' ') {
+      i += 1;
+    }
+  };
+  skipSpaces();
+  if (text[i] === '{' || text[i] === '[') {
+    const isMap = text[i] === '{';
+    const close = isMap ? '}' : ']';
+    const map: Record<string, unknown> = {};
+    const list: unknown[] = [];
+    i += 1;
+    for (;;) {
+      skipSpaces();
+      if (i >= text.length || text[i] === close) {
+        return [isMap ? map : list, i + 1];
+      }
+      if (isMap) {
+        const [key, afterKey] = readFlow(text, i);
+        i = afterKey;
+        skipSpaces();
+        let value: unknown = null;
+        if (text[i] === ':') {
+          [value, i] = readFlow(text, i + 1);
+        }
+        map[String(key)] = value;
+      } else {
+        let value: unknown;
+        [value, i] = readFlow(text, i);
+        list.push(value);
+      }
+      skipSpaces();
+      if (text[i] === ',') {
+        i += 1;
+      }
+    }
+  }
+  if (text[i] === '"' || text[i] === "'") {
+    return readQuoted(text, i);
+  }
+  // A plain scalar ends at a flow indicator, or at `: ` (a key)
+  let end = i;
+  while (
+    end < text.length &&
+    !',]}'.includes(text[end]) &&
+    !(text[end] === ':' && /[\s,]|^$/.test(text[end + 1] ?? ''))
+  ) {
+    end += 1;
+  }
+  return [plainScalar(text.slice(i, end).trim()), end];
+}
+
+/**
+ * Reads a scalar or flow collection that fills the rest of a line.
+ */
+function parseValue(text: string): unknown {
+  if (text.startsWith('"') || text.startsWith("'")) {
+    return readQuoted(text, 0)[0];
+  }
+  if (text.startsWith('{') || text.startsWith('[')) {
+    return readFlow(text, 0)[0];
+  }
+  return plainScalar(text);
+}
+
+/**
+ * Splits a mapping entry into its key and the text after the colon.
+ *
+ * @returns The key and value text, or null if the line is not a mapping entry.
+ */
+function splitEntry(text: string): [string, string] | null {
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const [key, end] = readQuoted(text, 0);
+    const rest = text.slice(end).trimStart();
+    return rest.startsWith(':') ? [key, rest.slice(1).trim()] : null;
+  }
+  const match = text.match(/^(.*?):(?:\s+(.*))?$/);
+  return match ? [match[1].trim(), (match[2] ?? '').trim()] : null;
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+/**
+ * Parses a YAML document.
+ *
+ * @param content - The document. Parsing stops at a second document (`---`).
+ * @returns The parsed value: mappings become objects and sequences arrays. An empty
+ * document gives null.
+ */
+export function parseYaml(content: string): unknown {
+  const lines: Line[] = [];
+  for (const raw of content.split(/\r?\n/)) {
+    const text = stripComment(raw.replace(/\t/g, '  '));
+    if (text.trim() === '') {
+      continue;
+    }
+    if (/^(---|\.\.\.)(\s|$)/.test(text)) {
+      if (lines.length > 0) {
+        break;
+      }
+      continue;
+    }
+    lines.push({
+      indent: text.length - text.trimStart().length,
+      text: text.trim(),
+    });
+  }
+
+  let pos = 0;
+  const parseBlock = (indent: number): unknown => {
+    const first = lines[pos];
+    if (!first || first.indent < indent) {
+      return null;
+    }
+    indent = first.indent;
+    if (isSequenceItem(first.text)) {
+      const list: unknown[] = [];
+      while (
+        pos < lines.length &&
+        lines[pos].indent === indent &&
+        isSequenceItem(lines[pos].text)
+      ) {
+        const rest = lines[pos].text.slice(1).trimStart();
+        if (rest === '') {
+          pos += 1;
+          list.push(parseBlock(indent + 1));
+        } else if (splitEntry(rest) && !/^[[{]/.test(rest)) {
+          // `- key: value` starts a mapping indented to the key
+          lines[pos] = { indent: indent + 2, text: rest };
+          list.push(parseBlock(indent + 2));
+        } else {
+          pos += 1;
+          list.push(parseValue(rest));
+        }
+      }
+      return list;
+    }
+
+    const map: Record<string, unknown> = {};
+    while (pos < lines.length && lines[pos].indent === indent) {
+      const entry = splitEntry(lines[pos].text);
+      pos += 1;
+      if (!entry) {
+        continue;
+      }
+      const [key, rest] = entry;
+      if (rest !== '') {
+        map[key] = parseValue(rest);
+      } else if (
+        pos < lines.length &&
+        (lines[pos].indent > indent ||
+          (lines[pos].indent === indent && isSequenceItem(lines[pos].text)))
+      ) {
+        map[key] = parseBlock(lines[pos].indent);
+      } else {
+        map[key] = null;
+      }
+    }
+    return map;
+  };
+
+  return parseBlock(0);
+}
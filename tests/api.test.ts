@@ -0,0 +1,696 @@
+import {
+  chmodSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CancelledError, PackageJsonError } from '../src/lib/errors.js';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const packument = (latest: string) => ({
+  ok: true,
+  status: 200,
+  headers: new Headers(),
+  json: () =>
+    Promise.resolve({
+      'dist-tags': { latest },
+      versions: { [latest]: {} },
+      time: { [latest]: '2024-01-01T00:00:00.000Z' },
+    }),
+});
+
+describe('checkOutdated', () => {
+  let dir: string;
+  let logSpy: ReturnType<typeof vi.spyOn>;
+  let errorSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    dir = mkdtempSync(join(tmpdir(), 'outdated-plus-api-'));
+    // Ignore the machine's npm and proxy settings
+    vi.stubEnv('npm_config_globalconfig', join(dir, 'global-npmrc'));
+    vi.stubEnv('npm_config_userconfig', join(dir, 'user-npmrc'));
+    vi.stubEnv('npm_config_registry', '');
+    vi.stubEnv('HTTPS_PROXY', '');
+    vi.stubEnv('HTTP_PROXY', '');
+    writeFileSync(
+      join(dir, 'package.json'),
+      JSON.stringify({
+        dependencies: { lodash: '^4.0.0', missing: '^1.0.0' },
+        devDependencies: { vitest: '^1.0.0' },
+      }),
+    );
+    writeFileSync(
+      join(dir, 'package-lock.json'),
+      JSON.stringify({
+        packages: {
+          'node_modules/lodash': { version: '4.17.20' },
+          'node_modules/missing': { version: '1.0.0' },
+          'node_modules/vitest': { version: '1.0.0' },
+        },
+      }),
+    );
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should check the given directory without printing anything', async () => {
+    mockFetch.mockImplementation((url: string) =>
+      Promise.resolve(
+        url.endsWith('/missing')
+          ? { ok: false, status: 404 }
+          : packument(url.endsWith('/lodash') ? '4.17.21' : '1.0.0'),
+      ),
+    );
+
+    const { checkOutdated } = await import('../src/index.js');
+    const result = await checkOutdated({
+      cwd: dir,
+      checkAll: true,
+      cache: false,
+      retries: 0,
+      registry: 'https://registry.example.com',
+    });
+
+    expect(result.rows.map((r) => [r.Package, r.Current, r.Latest])).toEqual([
+      ['lodash', '4.17.20', '4.17.21'],
+    ]);
+    expect(result.outdated).toEqual({
+      lodash: { current: '4.17.20', wanted: '4.17.21', latest: '4.17.21' },
+    });
+    expect(result.unresolved).toEqual([
+      {
+        name: 'missing',
+        code: 'REGISTRY_ERROR',
+        message: "Registry error for 'missing': Package not found",
+      },
+    ]);
+    expect(result.incomplete).toBe(false);
+    expect(result.stats.packages).toBe(3);
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://registry.example.com/lodash',
+      expect.anything(),
+    );
+    expect(logSpy).not.toHaveBeenCalled();
+    expect(errorSpy).not.toHaveBeenCalled();
+  });
+
+  it('should apply skip entries and report progress', async () => {
+    mockFetch.mockImplementation(() => Promise.resolve(packument('9.0.0')));
+    const onProgress = vi.fn();
+
+    const { checkOutdated } = await import('../src/index.js');
+    const result = await checkOutdated({
+      cwd: dir,
+      checkAll: true,
+      cache: false,
+      skip: ['vitest'],
+      sortBy: 'name',
+      order: 'asc',
+      onProgress,
+    });
+
+    expect(result.rows.map((r) => r.Package)).toEqual(['lodash', 'missing']);
+    expect(result.skipped).toEqual([
+      { name: 'vitest', entry: 'vitest', reason: 'Skipped via --skip vitest' },
+    ]);
+    expect(onProgress).toHaveBeenCalledTimes(3);
+    expect(onProgress).toHaveBeenLastCalledWith(3, 3);
+  });
+
+  it('should read installed versions from pnpm-lock.yaml', async () => {
+    rmSync(join(dir, 'package-lock.json'));
+    writeFileSync(
+      join(dir, 'pnpm-lock.yaml'),
+      [
+        "lockfileVersion: '9.0'",
+        'importers:',
+        '  .:',
+        '    dependencies:',
+        '      lodash:',
+        '        specifier: ^4.0.0',
+        '        version: 4.17.20',
+        '    devDependencies:',
+        '      vitest:',
+        '        specifier: ^1.0.0',
+        '        version: 1.0.0(@types/node@20.0.0)',
+      ].join('\n'),
+    );
+    mockFetch.mockImplementation((url: string) =>
+      Promise.resolve(packument(url.endsWith('/lodash') ? '4.17.21' : '1.0.0')),
+    );
+
+    const { checkOutdated } = await import('../src/index.js');
+    const result = await checkOutdated({
+      cwd: dir,
+      checkAll: true,
+      cache: false,
+      sortBy: 'name',
+      order: 'asc',
+    });
+
+    expect(result.rows.map((r) => [r.Package, r.Current, r.Latest])).toEqual([
+      ['lodash', '4.17.20', '4.17.21'],
+      ['missing', '0.0.0', '1.0.0'],
+    ]);
+  });
+
+  it('should check Yarn 2+ projects over HTTP in standard mode', async () => {
+    rmSync(join(dir, 'package-lock.json'));
+    writeFileSync(
+      join(dir, 'yarn.lock'),
+      [
+        '__metadata:',
+        '  version: 8',
+        '',
+        '"lodash@npm:^4.0.0":',
+        '  version: 4.17.20',
+        '',
+        '"vitest@npm:^1.0.0":',
+        '  version: 1.0.0',
+      ].join('\n'),
+    );
+    mockFetch.mockImplementation((url: string) =>
+      Promise.resolve(packument(url.endsWith('/lodash') ? '4.17.21' : '1.0.0')),
+    );
+
+    const { checkOutdated } = await import('../src/index.js');
+    const result = await checkOutdated({
+      cwd: dir,
+      cache: false,
+      sortBy: 'name',
+      order: 'asc',
+    });
+
+    expect(result.rows.map((r) => [r.Package, r.Current, r.Latest])).toEqual([
+      ['lodash', '4.17.20', '4.17.21'],
+      ['missing', '0.0.0', '1.0.0'],
+    ]);
+  });
+
+  it('should check Bun projects over HTTP in standard mode', async () => {
+    rmSync(join(dir, 'package-lock.json'));
+    writeFileSync(
+      join(dir, 'bun.lock'),
+      JSON.stringify({
+        lockfileVersion: 1,
+        workspaces: {
+          '': {
+            dependencies: { lodash: '^4.0.0' },
+            devDependencies: { vitest: '^1.0.0' },
+          },
+        },
+        packages: {
+          lodash: ['lodash@4.17.20', '', {}, 'sha512-a'],
+          vitest: ['vitest@1.0.0', '', {}, 'sha512-b'],
+        },
+      }),
+    );
+    mockFetch.mockImplementation((url: string) =>
+      Promise.resolve(packument(url.endsWith('/lodash') ? '4.17.21' : '1.0.0')),
+    );
+
+    const { checkOutdated } = await import('../src/index.js');
+    const result = await checkOutdated({ cwd: dir, cache: false });
+
+    expect(result.outdated).toEqual({
+      lodash: { current: '4.17.20', wanted: '4.17.21', latest: '4.17.21' },
+      missing: { current: '0.0.0', wanted: '1.0.0', latest: '1.0.0' },
+    });
+    expect(
+      result.rows.find((r) => r.Package === 'lodash')?._published_latest,
+    ).toBe(Date.parse('2024-01-01T00:00:00.000Z'));
+  });
+
+  it('should check workspaces with one lookup per package', async () => {
+    writeFileSync(
+      join(dir, 'package.json'),
+      JSON.stringify({ workspaces: ['packages/*'] }),
+    );
+    for (const [name, dependencies] of [
+      ['app', { lodash: '^4.0.0', '@acme/lib': '*' }],
+      ['lib', { lodash: '^3.0.0', vitest: '^1.0.0' }],
+    ] as const) {
+      mkdirSync(join(dir, 'packages', name), { recursive: true });
+      writeFileSync(
+        join(dir, 'packages', name, 'package.json'),
+        JSON.stringify({ name: `@acme/${name}`, dependencies }),
+      );
+    }
+    writeFileSync(
+      join(dir, 'package-lock.json'),
+      JSON.stringify({
+        packages: {
+          'node_modules/@acme/lib': { resolved: 'packages/lib', link: true },
+          'node_modules/lodash': { version: '4.17.20' },
+          'node_modules/vitest': { version: '1.0.0' },
+          'packages/lib/node_modules/lodash': { version: '3.10.1' },
+        },
+      }),
+    );
+    mockFetch.mockImplementation((url: string) =>
+      Promise.resolve(packument(url.endsWith('/lodash') ? '4.17.21' : '1.0.0')),
+    );
+
+    const { checkOutdated } = await import('../src/index.js');
+    const result = await checkOutdated({
+      cwd: dir,
+      checkAll: true,
+      cache: false,
+      workspaces: true,
+    });
+
+    expect(
+      result.rows.map((r) => [r.Workspace, r.Package, r.Current, r.Latest]),
+    ).toEqual([
+      ['@acme/app', 'lodash', '4.17.20', '4.17.21'],
+      ['@acme/lib', 'lodash', '3.10.1', '4.17.21'],
+    ]);
+    expect(result.workspaces.map((ws) => [ws.path, ws.packages])).toEqual([
+      ['packages/app', ['lodash']],
+      ['packages/lib', ['lodash', 'vitest']],
+    ]);
+    expect(result.outdated.lodash.current).toBe('3.10.1');
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+
+    const selected = await checkOutdated({
+      cwd: dir,
+      checkAll: true,
+      cache: false,
+      workspace: ['@acme/app'],
+    });
+    expect(selected.rows.map((r) => r.Workspace)).toEqual(['@acme/app']);
+  });
+
+  it('should check projects recursively with one lookup per package', async () => {
+    const writeJson = (path: string, data: unknown) => {
+      mkdirSync(join(dir, path, '..'), { recursive: true });
+      writeFileSync(join(dir, path), JSON.stringify(data));
+    };
+    writeJson('package.json', { name: 'root', dependencies: { lodash: '^4' } });
+    writeJson('package-lock.json', {
+      packages: { 'node_modules/lodash': { version: '4.17.21' } },
+    });
+    writeJson('services/api/package.json', {
+      name: 'api',
+      dependencies: { lodash: '^3', root: '*' },
+    });
+    writeJson('services/api/package-lock.json', {
+      packages: { 'node_modules/lodash': { version: '3.10.1' } },
+    });
+    writeJson('services/web/package.json', {
+      name: 'web',
+      devDependencies: { vitest: '^1.0.0' },
+    });
+    writeJson('vendor/copy/package.json', { dependencies: { left: '*' } });
+    writeFileSync(join(dir, '.gitignore'), 'vendor/\n');
+    mockFetch.mockImplementation((url: string) =>
+      Promise.resolve(packument(url.endsWith('/lodash') ? '4.17.21' : '1.0.0')),
+    );
+
+    const { checkOutdated } = await import('../src/index.js');
+    const result = await checkOutdated({
+      cwd: dir,
+      checkAll: true,
+      cache: false,
+      recursive: true,
+    });
+
+    expect(result.projects.map((p) => [p.path, p.packages])).toEqual([
+      ['.', ['lodash']],
+      ['services/api', ['lodash']],
+      ['services/web', ['vitest']],
+    ]);
+    expect(
+      result.rows.map((r) => [r.Project, r.Package, r.Current, r.Latest]),
+    ).toEqual([
+      ['services/api', 'lodash', '3.10.1', '4.17.21'],
+      ['services/web', 'vitest', '0.0.0', '1.0.0'],
+    ]);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(result.mismatches).toEqual([
+      {
+        name: 'lodash',
+        latest: '4.17.21',
+        versions: [
+          { version: '4.17.21', projects: ['.'] },
+          { version: '3.10.1', projects: ['services/api'] },
+        ],
+      },
+    ]);
+  });
+
+  it('should throw PackageJsonError for a missing or invalid package.json', async () => {
+    const { checkOutdated } = await import('../src/index.js');
+    await expect(
+      checkOutdated({ cwd: join(dir, 'missing'), cache: false }),
+    ).rejects.toThrow(PackageJsonError);
+
+    writeFileSync(join(dir, 'package.json'), '{ invalid');
+    await expect(checkOutdated({ cwd: dir, cache: false })).rejects.toThrow(
+      PackageJsonError,
+    );
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should return a partial result when cancelled', async () => {
+    const reason = new CancelledError('Interrupted', 'interrupt');
+
+    const { checkOutdated } = await import('../src/index.js');
+    const result = await checkOutdated({
+      cwd: dir,
+      checkAll: true,
+      cache: false,
+      signal: AbortSignal.abort(reason),
+    });
+
+    expect(result.rows).toEqual([]);
+    expect(result.incomplete).toBe(true);
+    expect(result.unresolved.map((u) => u.code)).toEqual([
+      'CANCELLED',
+      'CANCELLED',
+      'CANCELLED',
+    ]);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('run', () => {
+  let dir: string;
+  let output: string[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    output = [];
+    vi.spyOn(console, 'log').mockImplementation((line = '') => {
+      output.push(String(line));
+    });
+    vi.spyOn(console, 'error').mockImplementation((line = '') => {
+      output.push(String(line));
+    });
+
+    dir = mkdtempSync(join(tmpdir(), 'outdated-plus-run-'));
+    vi.stubEnv('npm_config_globalconfig', join(dir, 'global-npmrc'));
+    vi.stubEnv('npm_config_userconfig', join(dir, 'user-npmrc'));
+    vi.stubEnv('npm_config_registry', '');
+    vi.stubEnv('HTTPS_PROXY', '');
+    vi.stubEnv('HTTP_PROXY', '');
+    // Only the fake package manager commands below can be run
+    mkdirSync(join(dir, 'bin'));
+    vi.stubEnv('PATH', join(dir, 'bin'));
+    writeFileSync(
+      join(dir, 'package.json'),
+      JSON.stringify({
+        dependencies: { lodash: '^4.0.0' },
+        devDependencies: { vitest: '^1.0.0' },
+      }),
+    );
+    writeFileSync(
+      join(dir, 'package-lock.json'),
+      JSON.stringify({
+        packages: {
+          'node_modules/lodash': { version: '4.17.21' },
+          'node_modules/vitest': { version: '1.0.0' },
+        },
+      }),
+    );
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  // A package manager command that records its arguments and prints `stdout`
+  const fakeCommand = (name: string, stdout: string) => {
+    const path = join(dir, 'bin', name);
+    writeFileSync(
+      path,
+      `#!/bin/sh\necho "$@" >> "${join(dir, 'bin', `${name}.args`)}"\ncat <<'EOF'\n${stdout}\nEOF\nexit 1\n`,
+    );
+    chmodSync(path, 0o755);
+  };
+  const commandArgs = (name: string) =>
+    readFileSync(join(dir, 'bin', `${name}.args`), 'utf-8');
+
+  const runWith = async (...args: string[]) => {
+    vi.spyOn(process, 'argv', 'get').mockReturnValue([
+      'node',
+      'outdated-plus',
+      '--cwd',
+      dir,
+      '--no-cache',
+      '--retries',
+      '0',
+      ...args,
+    ]);
+    const { run } = await import('../src/index.js');
+    return run();
+  };
+
+  const printed = (stream: 'log' | 'error') =>
+    vi
+      .mocked(console[stream])
+      .mock.calls.map((call) => String(call[0] ?? ''))
+      .join('\n');
+
+  it('should print unresolved packages of a CSV report to stderr', async () => {
+    mockFetch.mockImplementation((url: string) =>
+      Promise.resolve(
+        url.endsWith('/lodash')
+          ? { ok: false, status: 404 }
+          : packument('2.0.0'),
+      ),
+    );
+
+    expect(await runWith('--check-all', '--format', 'csv')).toBe(0);
+
+    const csv = printed('log').split('\n');
+    expect(csv[0]).toMatch(/^Package,Current,Latest,/);
+    expect(csv.slice(1).map((line) => line.split(',')[0])).toEqual(['vitest']);
+    expect(printed('error')).toContain('Could not resolve 1 package(s):');
+    expect(printed('error')).toContain('lodash');
+  });
+
+  it('should print version mismatches of a CSV report to stderr', async () => {
+    mkdirSync(join(dir, 'services/api'), { recursive: true });
+    writeFileSync(
+      join(dir, 'services/api/package.json'),
+      JSON.stringify({ name: 'api', dependencies: { lodash: '^3' } }),
+    );
+    writeFileSync(
+      join(dir, 'services/api/package-lock.json'),
+      JSON.stringify({
+        packages: { 'node_modules/lodash': { version: '3.10.1' } },
+      }),
+    );
+    mockFetch.mockImplementation((url: string) =>
+      Promise.resolve(packument(url.endsWith('/lodash') ? '4.17.21' : '1.0.0')),
+    );
+
+    expect(await runWith('--check-all', '--recursive', '--format', 'csv')).toBe(
+      0,
+    );
+
+    const csv = printed('log').split('\n');
+    expect(csv[0]).toMatch(/^Project,Package,/);
+    expect(csv.slice(1).map((line) => line.split(',')[0])).toEqual([
+      'services/api',
+    ]);
+    expect(printed('error')).toContain(
+      '1 package(s) with different versions across projects:',
+    );
+  });
+
+  // Package managers without a usable outdated command are checked over HTTP
+  describe.each([
+    {
+      manager: 'Bun',
+      lockfile: 'bun.lock',
+      content: JSON.stringify({
+        lockfileVersion: 1,
+        workspaces: {
+          '': {
+            dependencies: { lodash: '^4.0.0' },
+            devDependencies: { vitest: '^1.0.0' },
+          },
+        },
+        packages: {
+          lodash: ['lodash@4.17.21', '', {}, 'sha512-a'],
+          vitest: ['vitest@1.0.0', '', {}, 'sha512-b'],
+        },
+      }),
+    },
+    {
+      manager: 'Yarn 2+',
+      lockfile: 'yarn.lock',
+      content: [
+        '__metadata:',
+        '  version: 8',
+        '',
+        '"lodash@npm:^4.0.0":',
+        '  version: 4.17.21',
+        '',
+        '"vitest@npm:^1.0.0":',
+        '  version: 1.0.0',
+      ].join('\n'),
+    },
+  ])('with a $manager project', ({ lockfile, content }) => {
+    beforeEach(() => {
+      rmSync(join(dir, 'package-lock.json'));
+      writeFileSync(join(dir, lockfile), content);
+    });
+
+    it('should not report failed lookups as up to date', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 500 });
+
+      expect(await runWith('--format', 'json')).toBe(0);
+
+      const report = JSON.parse(printed('log'));
+      expect(report.unresolved.map((u: { name: string }) => u.name)).toEqual([
+        'lodash',
+        'vitest',
+      ]);
+      expect(printed('log')).not.toContain('No updates available');
+    });
+
+    it('should fail with --fatal-fetch-errors', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 500 });
+
+      expect(await runWith('--fatal-fetch-errors')).toBe(1);
+      expect(printed('log')).not.toContain('No updates available');
+      expect(printed('error')).toContain('lodash');
+    });
+
+    it('should report a cancelled run when the deadline passes', async () => {
+      // A registry that never answers
+      mockFetch.mockImplementation(
+        (_url: string, init: { signal: AbortSignal }) =>
+          new Promise((_resolve, reject) => {
+            init.signal.addEventListener('abort', () =>
+              reject(init.signal.reason),
+            );
+          }),
+      );
+
+      expect(await runWith('--timeout', '0.05')).toBe(1);
+      expect(printed('log')).not.toContain('No updates available');
+      expect(printed('log')).toContain('Incomplete results');
+      expect(printed('error')).toContain('--timeout 0.05s');
+    });
+
+    it('should report up-to-date dependencies', async () => {
+      mockFetch.mockImplementation((url: string) =>
+        Promise.resolve(
+          packument(url.endsWith('/lodash') ? '4.17.21' : '1.0.0'),
+        ),
+      );
+
+      expect(await runWith()).toBe(0);
+      expect(printed('log')).toContain('No updates available');
+    });
+  });
+
+  it('should report up-to-date dependencies as passing JUnit testcases', async () => {
+    fakeCommand('npm', '{}');
+
+    expect(await runWith('--format', 'junit')).toBe(0);
+
+    const xml = output.join('\n');
+    expect(xml).toContain('tests="2"');
+    expect(xml).toContain('<testcase classname="up-to-date" name="lodash"/>');
+    expect(xml).toContain('<testcase classname="up-to-date" name="vitest"/>');
+    expect(commandArgs('npm')).toContain('outdated --json');
+  });
+
+  it('should report packages without local metadata as skipped JUnit testcases', async () => {
+    expect(await runWith('--offline', '--format', 'junit')).toBe(0);
+
+    const xml = output.join('\n');
+    expect(xml).toContain('tests="2" failures="0" errors="0" skipped="2"');
+    expect(xml).toContain('<testcase classname="missing" name="lodash">');
+    expect(xml).toContain('<testcase classname="missing" name="vitest">');
+    expect(xml).not.toContain('classname="up-to-date"');
+  });
+
+  describe('offline without local metadata', () => {
+    it('should list the missing packages instead of reporting them as up to date', async () => {
+      expect(await runWith('--offline')).toBe(0);
+
+      expect(printed('log')).toContain(
+        'No local metadata for 2 package(s), run once online or use --packuments: lodash, vitest',
+      );
+      expect(printed('log')).not.toContain('No updates available');
+    });
+
+    it('should include the missing packages in the JSON report', async () => {
+      expect(await runWith('--offline', '--format', 'json')).toBe(0);
+
+      const report = JSON.parse(printed('log'));
+      expect(report.summary.missing).toBe(2);
+      expect(report.missing).toEqual([{ name: 'lodash' }, { name: 'vitest' }]);
+    });
+
+    it('should print the missing packages of a CSV report to stderr', async () => {
+      expect(await runWith('--offline', '--format', 'csv')).toBe(0);
+
+      expect(printed('log')).toMatch(/^Package,Current,Latest,/);
+      expect(printed('log')).not.toContain('No local metadata');
+      expect(printed('error')).toContain(
+        'No local metadata for 2 package(s), run once online or use --packuments: lodash, vitest',
+      );
+    });
+  });
+
+  it('should group unresolved JUnit testcases per workspace', async () => {
+    writeFileSync(
+      join(dir, 'package.json'),
+      JSON.stringify({ workspaces: ['packages/*'] }),
+    );
+    for (const [name, dependencies] of [
+      ['app', { lodash: '^4.0.0' }],
+      ['lib', { lodash: '^4.0.0', vitest: '^1.0.0' }],
+    ] as const) {
+      mkdirSync(join(dir, 'packages', name), { recursive: true });
+      writeFileSync(
+        join(dir, 'packages', name, 'package.json'),
+        JSON.stringify({ name: `@acme/${name}`, dependencies }),
+      );
+    }
+    mockFetch.mockImplementation((url: string) =>
+      Promise.resolve(
+        url.endsWith('/lodash')
+          ? { ok: false, status: 404 }
+          : packument('1.0.0'),
+      ),
+    );
+
+    expect(
+      await runWith('--check-all', '--workspaces', '--format', 'junit'),
+    ).toBe(0);
+
+    const xml = output.join('\n');
+    expect(xml).toMatch(
+      /<testsuite name="@acme\/app" tests="1" failures="0" errors="1"[^]*name="lodash"/,
+    );
+    expect(xml).toMatch(
+      /<testsuite name="@acme\/lib" tests="2" failures="0" errors="1"/,
+    );
+    expect(xml).not.toContain('<testsuite name="dependencies"');
+  });
+});
@@ -1,7 +1,16 @@
-import { existsSync, readFileSync, unlinkSync } from 'node:fs';
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  unlinkSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import { afterEach, beforeEach, describe, expect, it } from 'vitest';
 import { cleanupAndSaveSkipFile, parseArgs } from '../src/args.js';
+import { ParseError } from '../src/lib/errors.js';
 import type { OutdatedMap, SkipFileConfig } from '../src/lib/types.js';
 
 describe('parseArgs', () => {
@@ -50,6 +59,19 @@ describe('parseArgs', () => {
     expect(result.iso).toBe(true);
   });
 
+  it('should parse --option=value and --flag=false', () => {
+    const result = parseArgs([
+      'node',
+      'script.js',
+      '--format=json',
+      '--iso=false',
+      '--quiet=true',
+    ]);
+    expect(result.format).toBe('json');
+    expect(result.iso).toBe(false);
+    expect(result.quiet).toBe(true);
+  });
+
   it('should normalize legacy sort options', () => {
     const ageResult = parseArgs(['node', 'script.js', '--sort-by', 'age']);
     expect(ageResult.sortBy).toBe('age_latest');
@@ -103,7 +125,16 @@ describe('parseArgs', () => {
   });
 
   it('should handle all format options', () => {
-    const formats = ['plain', 'md'];
+    const formats = [
+      'plain',
+      'md',
+      'json',
+      'csv',
+      'tsv',
+      'sarif',
+      'junit',
+      'html',
+    ];
 
     for (const format of formats) {
       const result = parseArgs(['node', 'script.js', '--format', format]);
@@ -136,12 +167,313 @@ describe('parseArgs', () => {
     expect(result.skip).toEqual(['react', 'vue', 'angular']);
   });
 
+  it('should parse the output path', () => {
+    expect(parseArgs(['node', 'script.js']).output).toBeNull();
+    expect(
+      parseArgs(['node', 'script.js', '--output', 'reports/deps.md']).output,
+    ).toBe('reports/deps.md');
+  });
+
+  it('should parse --fail-on rules', () => {
+    expect(parseArgs(['node', 'script.js']).failOn).toEqual([]);
+    expect(
+      parseArgs(['node', 'script.js', '--fail-on', 'major,count>10']).failOn,
+    ).toEqual([
+      { kind: 'bump', bump: 'major', source: 'major' },
+      { kind: 'count', count: 10, source: 'count>10' },
+    ]);
+  });
+
+  it('should throw on invalid --fail-on rules', () => {
+    expect(() =>
+      parseArgs(['node', 'script.js', '--fail-on', 'sometimes']),
+    ).toThrow('Invalid --fail-on condition');
+  });
+
+  it('should parse --registry', () => {
+    expect(parseArgs(['node', 'script.js']).registry).toBeNull();
+    expect(
+      parseArgs(['node', 'script.js', '--registry', 'https://npm.acme.dev/'])
+        .registry,
+    ).toBe('https://npm.acme.dev/');
+  });
+
+  it('should parse cache options', () => {
+    const defaults = parseArgs(['node', 'script.js']);
+    expect(defaults.cache).toBe(true);
+    expect(defaults.refresh).toBe(false);
+    expect(defaults.cacheTtl).toBe(60);
+
+    const result = parseArgs([
+      'node',
+      'script.js',
+      '--no-cache',
+      '--refresh',
+      '--cache-ttl',
+      '240',
+    ]);
+    expect(result.cache).toBe(false);
+    expect(result.refresh).toBe(true);
+    expect(result.cacheTtl).toBe(240);
+  });
+
+  it('should parse offline options', () => {
+    const defaults = parseArgs(['node', 'script.js']);
+    expect(defaults.offline).toBe(false);
+    expect(defaults.packuments).toBeNull();
+
+    const result = parseArgs([
+      'node',
+      'script.js',
+      '--offline',
+      '--packuments',
+      './packuments',
+    ]);
+    expect(result.offline).toBe(true);
+    expect(result.packuments).toBe('./packuments');
+  });
+
+  it('should parse --retries', () => {
+    expect(parseArgs(['node', 'script.js']).retries).toBeNull();
+    expect(parseArgs(['node', 'script.js', '--retries', '5']).retries).toBe(5);
+    expect(parseArgs(['node', 'script.js', '--retries', '-1']).retries).toBe(0);
+  });
+
+  it('should parse --fatal-fetch-errors', () => {
+    expect(parseArgs(['node', 'script.js']).fatalFetchErrors).toBe(false);
+    expect(
+      parseArgs(['node', 'script.js', '--fatal-fetch-errors']).fatalFetchErrors,
+    ).toBe(true);
+  });
+
+  it('should parse --timeout', () => {
+    expect(parseArgs(['node', 'script.js']).timeout).toBe(0);
+    expect(parseArgs(['node', 'script.js', '--timeout', '30']).timeout).toBe(
+      30,
+    );
+    expect(parseArgs(['node', 'script.js', '--timeout=2.5']).timeout).toBe(2.5);
+    expect(parseArgs(['node', 'script.js', '--no-timeout']).timeout).toBe(0);
+  });
+
+  it('should reject --timeout without a positive number', () => {
+    for (const args of [
+      ['--timeout'],
+      ['--timeout', '--quiet'],
+      ['--timeout', 'x'],
+      ['--timeout', '0'],
+      ['--timeout', '-5'],
+    ]) {
+      expect(() => parseArgs(['node', 'script.js', ...args])).toThrow(
+        ParseError,
+      );
+    }
+  });
+
+  it('should parse --workspaces and --workspace', () => {
+    const defaults = parseArgs(['node', 'script.js']);
+    expect(defaults.workspaces).toBe(false);
+    expect(defaults.workspace).toEqual([]);
+    expect(parseArgs(['node', 'script.js', '--workspaces']).workspaces).toBe(
+      true,
+    );
+
+    const result = parseArgs([
+      'node',
+      'script.js',
+      '--workspace',
+      '@acme/app, packages/lib',
+    ]);
+    expect(result.workspace).toEqual(['@acme/app', 'packages/lib']);
+    expect(result.workspaces).toBe(true);
+  });
+
+  it('should parse --recursive and reject it with --workspaces', () => {
+    expect(parseArgs(['node', 'script.js']).recursive).toBe(false);
+    expect(parseArgs(['node', 'script.js', '--recursive']).recursive).toBe(
+      true,
+    );
+    expect(() =>
+      parseArgs(['node', 'script.js', '--recursive', '--workspace', 'a']),
+    ).toThrow('--recursive cannot be combined with --workspaces');
+  });
+
+  it('should parse --stats', () => {
+    expect(parseArgs(['node', 'script.js']).stats).toBe(false);
+    expect(parseArgs(['node', 'script.js', '--stats']).stats).toBe(true);
+  });
+
   it('should default to empty skip array when no skip options provided', () => {
     const result = parseArgs(['node', 'script.js']);
     expect(result.skip).toEqual([]);
   });
 });
 
+describe('parseArgs with --config', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'outdated-plus-args-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeConfig(config: unknown): string {
+    const path = join(dir, 'config.json');
+    writeFileSync(path, JSON.stringify(config));
+    return path;
+  }
+
+  it('should use config values as defaults', () => {
+    const path = writeConfig({
+      olderThan: 30,
+      sortBy: 'age_latest',
+      showWanted: true,
+      iso: true,
+      failOn: ['major'],
+    });
+    const result = parseArgs(['node', 'script.js', '--config', path]);
+    expect(result.olderThan).toBe(30);
+    expect(result.sortBy).toBe('age_latest');
+    expect(result.showWanted).toBe(true);
+    expect(result.iso).toBe(true);
+    expect(result.failOn).toEqual([
+      { kind: 'bump', bump: 'major', source: 'major' },
+    ]);
+  });
+
+  it('should let CLI flags take precedence over the config', () => {
+    const path = writeConfig({ olderThan: 30, format: 'md' });
+    const result = parseArgs([
+      'node',
+      'script.js',
+      '--config',
+      path,
+      '--older-than',
+      '7',
+      '--format',
+      'json',
+    ]);
+    expect(result.olderThan).toBe(7);
+    expect(result.format).toBe('json');
+  });
+
+  it('should turn off boolean config options with --no-<flag> or --<flag>=false', () => {
+    const path = writeConfig({
+      checkAll: true,
+      quiet: true,
+      offline: true,
+      showAll: true,
+      stats: true,
+      refresh: true,
+    });
+    const result = parseArgs([
+      'node',
+      'script.js',
+      '--config',
+      path,
+      '--no-check-all',
+      '--no-quiet',
+      '--offline=false',
+      '--show-all=false',
+      '--no-stats',
+      '--refresh',
+      'false',
+    ]);
+    expect(result.checkAll).toBe(false);
+    expect(result.quiet).toBe(false);
+    expect(result.offline).toBe(false);
+    expect(result.showAll).toBe(false);
+    expect(result.stats).toBe(false);
+    expect(result.refresh).toBe(false);
+  });
+
+  it('should turn on the cache with --cache when the config disables it', () => {
+    const path = writeConfig({ cache: false });
+    expect(parseArgs(['node', 'script.js', '--config', path]).cache).toBe(
+      false,
+    );
+    expect(
+      parseArgs(['node', 'script.js', '--config', path, '--cache']).cache,
+    ).toBe(true);
+  });
+
+  it('should resolve config paths against the config file directory', () => {
+    const path = writeConfig({
+      output: 'reports/outdated.json',
+      packuments: 'packuments',
+    });
+    const result = parseArgs(['node', 'script.js', '--config', path]);
+    expect(result.output).toBe(join(dir, 'reports/outdated.json'));
+    expect(result.packuments).toBe(join(dir, 'packuments'));
+  });
+
+  it('should combine config skips with --skip without persisting them', () => {
+    const path = writeConfig({ skip: ['lodash', 'react'] });
+    const result = parseArgs([
+      'node',
+      'script.js',
+      '--config',
+      path,
+      '--skip',
+      'react',
+    ]);
+    expect(result.skip).toEqual(['react', 'lodash']);
+    expect(result._commandLineSkips).toEqual(['react']);
+    expect(result._configSkips).toEqual(['lodash']);
+  });
+
+  it('should throw ParseError for an invalid config', () => {
+    const path = writeConfig({ unknown: true });
+    expect(() => parseArgs(['node', 'script.js', '--config', path])).toThrow(
+      ParseError,
+    );
+  });
+});
+
+describe('parseArgs with --cwd', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'outdated-plus-cwd-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should default to process.cwd()', () => {
+    expect(parseArgs(['node', 'script.js']).cwd).toBe(process.cwd());
+  });
+
+  it('should resolve --cwd and its --prefix alias', () => {
+    expect(parseArgs(['node', 'script.js', '--cwd', dir]).cwd).toBe(dir);
+    expect(parseArgs(['node', 'script.js', '--prefix', dir]).cwd).toBe(dir);
+  });
+
+  it('should throw ParseError for a missing directory', () => {
+    expect(() =>
+      parseArgs(['node', 'script.js', '--cwd', join(dir, 'missing')]),
+    ).toThrow(ParseError);
+  });
+
+  it('should read the config and skip file from the --cwd directory', () => {
+    writeFileSync(
+      join(dir, '.outdated-plusrc.json'),
+      JSON.stringify({ olderThan: 14 }),
+    );
+    writeFileSync(
+      join(dir, '.outdated-plus-skip'),
+      JSON.stringify({ packages: ['lodash'] }),
+    );
+    const result = parseArgs(['node', 'script.js', '--cwd', dir]);
+    expect(result.olderThan).toBe(14);
+    expect(result.skip).toEqual(['lodash']);
+    expect(result._skipFilePath).toBe(join(dir, '.outdated-plus-skip'));
+  });
+});
+
 describe('cleanupAndSaveSkipFile', () => {
   const testFilePath = join(process.cwd(), '.test-outdated-plus-skip');
 
@@ -0,0 +1,105 @@
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  clearCache,
+  getCacheDir,
+  isCacheFresh,
+  readCacheEntry,
+  writeCacheEntry,
+} from '../src/lib/cache.js';
+import type { CacheEntry } from '../src/lib/types.js';
+
+const entry: CacheEntry = {
+  url: 'https://registry.npmjs.org/lodash',
+  fetchedAt: 1_000,
+  validators: {
+    full: { etag: '"abc"', lastModified: 'Wed, 01 Jan 2025 00:00:00 GMT' },
+  },
+  meta: { latest: '4.17.21', timeMap: { '4.17.21': '2021-02-20T15:42:16Z' } },
+};
+
+describe('getCacheDir', () => {
+  it('should prefer OUTDATED_PLUS_CACHE_DIR', () => {
+    expect(
+      getCacheDir({ OUTDATED_PLUS_CACHE_DIR: '/tmp/op', XDG_CACHE_HOME: '/x' }),
+    ).toBe('/tmp/op');
+  });
+
+  it('should use XDG_CACHE_HOME', () => {
+    expect(getCacheDir({ XDG_CACHE_HOME: '/x' })).toBe(
+      join('/x', 'outdated-plus'),
+    );
+  });
+});
+
+describe('cache entries', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'outdated-plus-cache-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should round-trip an entry', () => {
+    writeCacheEntry(dir, entry);
+    expect(readCacheEntry(dir, entry.url)).toEqual(entry);
+  });
+
+  it('should key entries by URL', () => {
+    writeCacheEntry(dir, entry);
+    expect(readCacheEntry(dir, 'https://npm.acme.dev/lodash')).toBeNull();
+  });
+
+  it('should return null for missing or corrupt entries', () => {
+    expect(readCacheEntry(dir, entry.url)).toBeNull();
+    writeCacheEntry(dir, entry);
+    const [file] = readdirSync(dir);
+    writeFileSync(join(dir, file), '{ not json');
+    expect(readCacheEntry(dir, entry.url)).toBeNull();
+  });
+
+  it('should remove all entries on clean', () => {
+    writeCacheEntry(dir, entry);
+    writeCacheEntry(dir, { ...entry, url: 'https://registry.npmjs.org/react' });
+    expect(clearCache(dir)).toBe(2);
+    expect(readdirSync(dir)).toEqual([]);
+    expect(clearCache(dir)).toBe(0);
+    expect(clearCache(join(dir, 'missing'))).toBe(0);
+  });
+
+  it('should leave unrelated files and directories alone', () => {
+    writeCacheEntry(dir, entry);
+    writeFileSync(join(dir, 'notes.txt'), '');
+    writeFileSync(join(dir, 'settings.json'), '{}');
+    mkdirSync(join(dir, 'important'));
+    writeFileSync(join(dir, 'important/notes.txt'), '');
+
+    expect(clearCache(dir)).toBe(1);
+    expect(readdirSync(dir).sort()).toEqual([
+      'important',
+      'notes.txt',
+      'settings.json',
+    ]);
+    expect(existsSync(join(dir, 'important/notes.txt'))).toBe(true);
+  });
+});
+
+describe('isCacheFresh', () => {
+  it('should compare the entry age with the TTL', () => {
+    expect(isCacheFresh(entry, 60_000, 30_000)).toBe(true);
+    expect(isCacheFresh(entry, 60_000, 61_000)).toBe(false);
+    expect(isCacheFresh(entry, 0, 1_000)).toBe(false);
+  });
+});
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRunSignal } from '../src/lib/cancel.js';
+import { CancelledError } from '../src/lib/errors.js';
+
+describe('createRunSignal', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should abort with a timeout error after the deadline', () => {
+    const { signal, dispose } = createRunSignal(5);
+
+    vi.advanceTimersByTime(4999);
+    expect(signal.aborted).toBe(false);
+    vi.advanceTimersByTime(1);
+
+    expect(signal.reason).toBeInstanceOf(CancelledError);
+    expect(signal.reason.reason).toBe('timeout');
+    expect(signal.reason.message).toBe(
+      'Run did not finish within --timeout 5s',
+    );
+    dispose();
+  });
+
+  it('should not set a deadline for 0', () => {
+    const { signal, dispose } = createRunSignal(0);
+
+    vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+
+    expect(signal.aborted).toBe(false);
+    dispose();
+  });
+
+  it('should abort on SIGINT', () => {
+    const listeners = process.listenerCount('SIGINT');
+    const { signal, dispose } = createRunSignal(0);
+    expect(process.listenerCount('SIGINT')).toBe(listeners + 1);
+
+    process.emit('SIGINT');
+
+    expect(signal.reason).toBeInstanceOf(CancelledError);
+    expect(signal.reason.reason).toBe('interrupt');
+    expect(process.listenerCount('SIGINT')).toBe(listeners);
+    dispose();
+  });
+
+  it('should remove the timer and SIGINT handler on dispose', () => {
+    const listeners = process.listenerCount('SIGINT');
+    const { signal, dispose } = createRunSignal(5);
+
+    dispose();
+    vi.advanceTimersByTime(5000);
+
+    expect(signal.aborted).toBe(false);
+    expect(process.listenerCount('SIGINT')).toBe(listeners);
+  });
+});
@@ -1,5 +1,6 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import {
+  ageLevel,
   colorAge,
   colorBumpType,
   colors,
@@ -100,6 +101,17 @@ describe('colorBumpType', () => {
   });
 });
 
+describe('ageLevel', () => {
+  it('should classify ages by the color thresholds', () => {
+    expect(ageLevel(400)).toBe('red');
+    expect(ageLevel(366)).toBe('red');
+    expect(ageLevel(365)).toBe('yellow');
+    expect(ageLevel(91)).toBe('yellow');
+    expect(ageLevel(90)).toBe('green');
+    expect(ageLevel(0)).toBe('green');
+  });
+});
+
 describe('colorAge', () => {
   it('should return dash for null', () => {
     expect(colorAge(null)).toBe('-');
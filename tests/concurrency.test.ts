@@ -1,5 +1,10 @@
 import { describe, expect, it, vi } from 'vitest';
-import { fetchWithConcurrency, META_FALLBACK } from '../src/lib/concurrency.js';
+import {
+  AdaptiveConcurrency,
+  fetchOutcomesWithConcurrency,
+  fetchWithConcurrency,
+  META_FALLBACK,
+} from '../src/lib/concurrency.js';
 
 describe('fetchWithConcurrency', () => {
   it('should return empty object for empty items array', async () => {
@@ -96,6 +101,136 @@ describe('fetchWithConcurrency', () => {
     expect(executionOrder[1]).toBe('end-a');
     expect(executionOrder[2]).toBe('start-b');
   });
+
+  it('should start fewer operations after an adaptive limit is lowered', async () => {
+    const limiter = new AdaptiveConcurrency(4);
+    let throttled = false;
+    let currentConcurrent = 0;
+    let maxConcurrent = 0;
+    let maxAfterThrottling = 0;
+
+    const fetcher = async (item: string) => {
+      currentConcurrent++;
+      maxConcurrent = Math.max(maxConcurrent, currentConcurrent);
+      if (throttled) {
+        maxAfterThrottling = Math.max(maxAfterThrottling, currentConcurrent);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      if (item === 'a') {
+        limiter.throttled();
+        limiter.throttled();
+        throttled = true;
+      }
+      currentConcurrent--;
+      return item;
+    };
+
+    await fetchWithConcurrency(
+      ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'],
+      fetcher,
+      vi.fn(),
+      'fallback',
+      limiter,
+    );
+
+    expect(maxConcurrent).toBe(4);
+    expect(maxAfterThrottling).toBe(1);
+  });
+});
+
+describe('fetchOutcomesWithConcurrency', () => {
+  it('should return the value or the error for each item', async () => {
+    const failure = new Error('Simulated failure');
+    const onProgress = vi.fn();
+
+    const outcomes = await fetchOutcomesWithConcurrency(
+      ['ok', 'fail'],
+      async (item) => {
+        if (item === 'fail') {
+          throw failure;
+        }
+        return `result-${item}`;
+      },
+      onProgress,
+      2,
+    );
+
+    expect(outcomes).toEqual({
+      ok: { ok: true, value: 'result-ok' },
+      fail: { ok: false, error: failure },
+    });
+    expect(onProgress).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fail unfinished items with the abort reason', async () => {
+    const controller = new AbortController();
+    const reason = new Error('cancelled');
+    const started: string[] = [];
+
+    const outcomes = await fetchOutcomesWithConcurrency(
+      ['fast', 'slow', 'queued'],
+      (item) => {
+        started.push(item);
+        if (item === 'fast') {
+          return Promise.resolve(item);
+        }
+        // Never settles: the abort must not wait for it
+        setTimeout(() => controller.abort(reason), 10);
+        return new Promise<string>(() => {});
+      },
+      vi.fn(),
+      1,
+      controller.signal,
+    );
+
+    expect(outcomes).toEqual({
+      fast: { ok: true, value: 'fast' },
+      slow: { ok: false, error: reason },
+      queued: { ok: false, error: reason },
+    });
+    expect(started).toEqual(['fast', 'slow']);
+  });
+
+  it('should not start items when already aborted', async () => {
+    const fetcher = vi.fn();
+
+    const outcomes = await fetchOutcomesWithConcurrency(
+      ['a'],
+      fetcher,
+      vi.fn(),
+      2,
+      AbortSignal.abort('stop'),
+    );
+
+    expect(outcomes).toEqual({ a: { ok: false, error: 'stop' } });
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+});
+
+describe('AdaptiveConcurrency', () => {
+  it('should halve on throttling and grow back slowly', () => {
+    const limiter = new AdaptiveConcurrency(8);
+    limiter.throttled();
+    expect(limiter.limit).toBe(4);
+    limiter.throttled();
+    limiter.throttled();
+    limiter.throttled();
+    expect(limiter.limit).toBe(1);
+
+    limiter.succeeded();
+    expect(limiter.limit).toBe(2);
+    limiter.succeeded();
+    expect(limiter.limit).toBe(2);
+    limiter.succeeded();
+    expect(limiter.limit).toBe(3);
+  });
+
+  it('should not grow beyond the maximum', () => {
+    const limiter = new AdaptiveConcurrency(2);
+    limiter.succeeded();
+    limiter.succeeded();
+    expect(limiter.limit).toBe(2);
+  });
 });
 
 describe('META_FALLBACK', () => {
@@ -0,0 +1,141 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { loadConfig, normalizeConfig } from '../src/lib/config.js';
+import { ParseError } from '../src/lib/errors.js';
+
+describe('normalizeConfig', () => {
+  it('should accept every supported option', () => {
+    const config = normalizeConfig(
+      {
+        olderThan: 30,
+        showAll: true,
+        showWanted: true,
+        quiet: false,
+        checkAll: true,
+        iso: true,
+        concurrency: 4,
+        sortBy: 'age_latest',
+        order: 'asc',
+        format: 'md',
+        skip: ['lodash', 'react@18.0.0'],
+        output: 'report.md',
+        failOn: ['major', 'age>180'],
+      },
+      'test',
+    );
+    expect(config.olderThan).toBe(30);
+    expect(config.skip).toEqual(['lodash', 'react@18.0.0']);
+    expect(config.failOn).toEqual(['major', 'age>180']);
+  });
+
+  it('should split comma-separated list values', () => {
+    const config = normalizeConfig(
+      { skip: 'lodash, react', failOn: 'major,count>10' },
+      'test',
+    );
+    expect(config.skip).toEqual(['lodash', 'react']);
+    expect(config.failOn).toEqual(['major', 'count>10']);
+  });
+
+  it('should reject unknown options', () => {
+    expect(() => normalizeConfig({ olderthan: 30 }, 'test')).toThrow(
+      "Unknown config option 'olderthan' in test",
+    );
+  });
+
+  it('should reject values of the wrong type', () => {
+    expect(() => normalizeConfig({ olderThan: '30' }, 'test')).toThrow(
+      "Config option 'olderThan' in test must be a number",
+    );
+    expect(() => normalizeConfig({ skip: [1, 2] }, 'test')).toThrow(
+      "Config option 'skip' in test must be a string or string array",
+    );
+  });
+
+  it('should reject non-object configs', () => {
+    expect(() => normalizeConfig(['--iso'], 'test')).toThrow(ParseError);
+    expect(() => normalizeConfig(null, 'test')).toThrow(ParseError);
+  });
+});
+
+describe('loadConfig', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'outdated-plus-config-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should return an empty config when nothing is configured', () => {
+    expect(loadConfig(dir, null)).toEqual({});
+  });
+
+  it('should read .outdated-plusrc.json', () => {
+    writeFileSync(
+      join(dir, '.outdated-plusrc.json'),
+      JSON.stringify({ olderThan: 30, iso: true }),
+    );
+    expect(loadConfig(dir, null)).toEqual({ olderThan: 30, iso: true });
+  });
+
+  it('should read the outdated-plus key from package.json', () => {
+    writeFileSync(
+      join(dir, 'package.json'),
+      JSON.stringify({ name: 'app', 'outdated-plus': { showWanted: true } }),
+    );
+    expect(loadConfig(dir, null)).toEqual({ showWanted: true });
+  });
+
+  it('should prefer .outdated-plusrc.json over package.json', () => {
+    writeFileSync(
+      join(dir, '.outdated-plusrc.json'),
+      JSON.stringify({ olderThan: 30 }),
+    );
+    writeFileSync(
+      join(dir, 'package.json'),
+      JSON.stringify({ 'outdated-plus': { olderThan: 90 } }),
+    );
+    expect(loadConfig(dir, null)).toEqual({ olderThan: 30 });
+  });
+
+  it('should prefer an explicit config path', () => {
+    writeFileSync(
+      join(dir, '.outdated-plusrc.json'),
+      JSON.stringify({ olderThan: 30 }),
+    );
+    writeFileSync(join(dir, 'ci.json'), JSON.stringify({ olderThan: 7 }));
+    expect(loadConfig(dir, 'ci.json')).toEqual({ olderThan: 7 });
+  });
+
+  it('should resolve output and packuments against the config directory', () => {
+    writeFileSync(
+      join(dir, '.outdated-plusrc.json'),
+      JSON.stringify({ output: 'report.md', packuments: '/srv/packuments' }),
+    );
+    expect(loadConfig(dir, null)).toEqual({
+      output: join(dir, 'report.md'),
+      packuments: '/srv/packuments',
+    });
+  });
+
+  it('should throw when an explicit config file is missing', () => {
+    expect(() => loadConfig(dir, 'missing.json')).toThrow(
+      'Config file not found',
+    );
+  });
+
+  it('should throw on invalid JSON', () => {
+    writeFileSync(join(dir, '.outdated-plusrc.json'), '{ olderThan: 30 }');
+    expect(() => loadConfig(dir, null)).toThrow(ParseError);
+  });
+
+  it('should ignore a package.json without the config key', () => {
+    writeFileSync(join(dir, 'package.json'), JSON.stringify({ name: 'app' }));
+    expect(loadConfig(dir, null)).toEqual({});
+  });
+});
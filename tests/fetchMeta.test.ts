@@ -1,9 +1,16 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_REGISTRY_CONFIG } from '../src/lib/registry.js';
+import { DEFAULT_RETRY_CONFIG } from '../src/lib/retry.js';
 
 // Mock fetch globally
 const mockFetch = vi.fn();
 global.fetch = mockFetch;
 
+const noRetries = {
+  ...DEFAULT_REGISTRY_CONFIG,
+  retry: { ...DEFAULT_RETRY_CONFIG, retries: 0 },
+};
+
 describe('fetchPackageMeta', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -75,7 +82,7 @@ describe('fetchPackageMeta', () => {
 
     const { fetchPackageMeta } = await import('../src/index.js');
 
-    await expect(fetchPackageMeta('test-package')).rejects.toThrow(
+    await expect(fetchPackageMeta('test-package', noRetries)).rejects.toThrow(
       'Failed to fetch package metadata',
     );
   });
@@ -155,6 +162,6 @@ describe('fetchPackageMeta', () => {
 
     const { fetchPackageMeta } = await import('../src/index.js');
 
-    await expect(fetchPackageMeta('test-package')).rejects.toThrow();
+    await expect(fetchPackageMeta('test-package', noRetries)).rejects.toThrow();
   });
 });
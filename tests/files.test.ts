@@ -0,0 +1,51 @@
+import {
+  existsSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { writeFileAtomic } from '../src/lib/files.js';
+
+describe('writeFileAtomic', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'outdated-plus-files-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should write the file content', () => {
+    const target = join(dir, 'report.md');
+    writeFileAtomic(target, 'hello\n');
+    expect(readFileSync(target, 'utf-8')).toBe('hello\n');
+  });
+
+  it('should create missing parent directories', () => {
+    const target = join(dir, 'a', 'b', 'report.json');
+    writeFileAtomic(target, '{}');
+    expect(readFileSync(target, 'utf-8')).toBe('{}');
+  });
+
+  it('should replace existing files without leaving temporary files', () => {
+    const target = join(dir, 'report.txt');
+    writeFileAtomic(target, 'old');
+    writeFileAtomic(target, 'new');
+    expect(readFileSync(target, 'utf-8')).toBe('new');
+    expect(readdirSync(dir)).toEqual(['report.txt']);
+  });
+
+  it('should throw and clean up when the target cannot be written', () => {
+    const target = join(dir, 'existing-dir');
+    writeFileAtomic(join(target, 'file'), 'x');
+    expect(() => writeFileAtomic(target, 'x')).toThrow();
+    expect(readdirSync(dir)).toEqual(['existing-dir']);
+    expect(existsSync(join(target, 'file'))).toBe(true);
+  });
+});
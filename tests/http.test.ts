@@ -1,9 +1,28 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { readCacheEntry, writeCacheEntry } from '../src/lib/cache.js';
+import { AdaptiveConcurrency } from '../src/lib/concurrency.js';
+import { ABBREVIATED_METADATA_ACCEPT } from '../src/lib/constants.js';
+import { CancelledError } from '../src/lib/errors.js';
+import { DEFAULT_REGISTRY_CONFIG } from '../src/lib/registry.js';
+import { DEFAULT_RETRY_CONFIG } from '../src/lib/retry.js';
+import { createFetchStats } from '../src/lib/stats.js';
 
 // Mock fetch globally
 const mockFetch = vi.fn();
 global.fetch = mockFetch;
 
+const noRetries = {
+  ...DEFAULT_REGISTRY_CONFIG,
+  retry: { ...DEFAULT_RETRY_CONFIG, retries: 0 },
+};
+const fastRetries = {
+  ...DEFAULT_REGISTRY_CONFIG,
+  retry: { ...DEFAULT_RETRY_CONFIG, minTimeoutMs: 1, maxTimeoutMs: 1 },
+};
+
 describe('HTTP API Functions', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -31,6 +50,8 @@ describe('HTTP API Functions', () => {
       const { fetchPackageMeta } = await import('../src/index.js');
       const result = await fetchPackageMeta('test-package');
 
+      // Without a cache entry only the full packument has the dates
+      expect(mockFetch).toHaveBeenCalledTimes(1);
       expect(mockFetch).toHaveBeenCalledWith(
         'https://registry.npmjs.org/test-package',
         expect.objectContaining({
@@ -42,6 +63,68 @@ describe('HTTP API Functions', () => {
       expect(result.timeMap['2.0.0']).toBe('2023-06-01T10:00:00Z');
     });
 
+    it('should fetch scoped packages from their scope registry', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({ 'dist-tags': { latest: '1.0.0' }, time: {} }),
+      });
+
+      const { fetchPackageMeta } = await import('../src/index.js');
+      await fetchPackageMeta('@acme/ui', {
+        registry: 'https://mirror.dev',
+        scopes: { '@acme': 'https://npm.acme.dev/api' },
+        credentials: {},
+      });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://npm.acme.dev/api/@acme%2Fui',
+        expect.anything(),
+      );
+    });
+
+    it('should send the matching registry credentials', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({ 'dist-tags': { latest: '1.0.0' }, time: {} }),
+      });
+
+      const { fetchPackageMeta } = await import('../src/index.js');
+      await fetchPackageMeta('@acme/ui', {
+        registry: 'https://registry.npmjs.org',
+        scopes: { '@acme': 'https://npm.acme.dev' },
+        credentials: { '//npm.acme.dev/': 'Bearer secret' },
+      });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://npm.acme.dev/@acme%2Fui',
+        expect.objectContaining({
+          headers: {
+            Accept: 'application/json',
+            Authorization: 'Bearer secret',
+          },
+        }),
+      );
+    });
+
+    it('should report rejected credentials without leaking them', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 401 });
+
+      const { fetchPackageMeta } = await import('../src/index.js');
+      const { formatError } = await import('../src/lib/errors.js');
+      const error = await fetchPackageMeta('private-pkg', {
+        ...DEFAULT_REGISTRY_CONFIG,
+        registry: 'https://npm.acme.dev',
+        credentials: { '//npm.acme.dev/': 'Bearer secret' },
+      }).catch((e: unknown) => e);
+
+      expect(formatError(error)).toBe(
+        'Network error (HTTP 401): Registry rejected the configured credentials',
+      );
+      expect(JSON.stringify(error)).not.toContain('secret');
+    });
+
     it('should handle 404 errors', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: false,
@@ -63,7 +146,7 @@ describe('HTTP API Functions', () => {
 
       const { fetchPackageMeta } = await import('../src/index.js');
 
-      await expect(fetchPackageMeta('test-package')).rejects.toThrow(
+      await expect(fetchPackageMeta('test-package', noRetries)).rejects.toThrow(
         'Failed to fetch package metadata',
       );
     });
@@ -73,7 +156,397 @@ describe('HTTP API Functions', () => {
 
       const { fetchPackageMeta } = await import('../src/index.js');
 
-      await expect(fetchPackageMeta('test-package')).rejects.toThrow();
+      await expect(
+        fetchPackageMeta('test-package', noRetries),
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('fetchPackageMeta retries', () => {
+    const success = {
+      ok: true,
+      status: 200,
+      json: () =>
+        Promise.resolve({
+          'dist-tags': { latest: '1.0.0' },
+          time: { '1.0.0': '2023-01-01T10:00:00Z' },
+        }),
+    };
+
+    it('should retry transient failures', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 503 })
+        .mockRejectedValueOnce(new Error('socket hang up'))
+        .mockResolvedValueOnce(success);
+
+      const stats = createFetchStats();
+      const limiter = new AdaptiveConcurrency(8);
+      const { fetchPackageMeta } = await import('../src/index.js');
+      const result = await fetchPackageMeta(
+        'test-package',
+        fastRetries,
+        null,
+        stats,
+        limiter,
+      );
+
+      expect(result.latest).toBe('1.0.0');
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(stats).toMatchObject({ retries: 2, throttled: 1 });
+      expect(limiter.limit).toBe(4);
+    });
+
+    it('should give up after the configured number of retries', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 500 });
+
+      const { fetchPackageMeta } = await import('../src/index.js');
+      await expect(
+        fetchPackageMeta('test-package', fastRetries),
+      ).rejects.toThrow('Failed to fetch package metadata');
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry missing packages', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 404 });
+
+      const { fetchPackageMeta } = await import('../src/index.js');
+      await expect(
+        fetchPackageMeta('test-package', fastRetries),
+      ).rejects.toThrow('Package not found');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up when Retry-After asks for too long a wait', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 429,
+        headers: {
+          get: (name: string) => (name === 'retry-after' ? '3600' : null),
+        },
+      });
+
+      const limiter = new AdaptiveConcurrency(8);
+      const { fetchPackageMeta } = await import('../src/index.js');
+      await expect(
+        fetchPackageMeta('test-package', fastRetries, null, null, limiter),
+      ).rejects.toThrow('Registry rate limit exceeded');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(limiter.limit).toBe(4);
+    });
+
+    it('should lower the concurrency limit without retries', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 503 });
+
+      const stats = createFetchStats();
+      const limiter = new AdaptiveConcurrency(8);
+      const { fetchPackageMeta } = await import('../src/index.js');
+      await expect(
+        fetchPackageMeta('test-package', noRetries, null, stats, limiter),
+      ).rejects.toThrow('Failed to fetch package metadata');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(limiter.limit).toBe(4);
+      expect(stats).toMatchObject({ retries: 0, throttled: 0 });
+    });
+  });
+
+  describe('fetchPackageMeta cancellation', () => {
+    it('should not send requests when the signal is already aborted', async () => {
+      const reason = new CancelledError('Interrupted', 'interrupt');
+
+      const { fetchPackageMeta } = await import('../src/index.js');
+      await expect(
+        fetchPackageMeta(
+          'test-package',
+          fastRetries,
+          null,
+          null,
+          null,
+          AbortSignal.abort(reason),
+        ),
+      ).rejects.toBe(reason);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should cancel in-flight requests without retrying', async () => {
+      const controller = new AbortController();
+      const reason = new CancelledError('Interrupted', 'interrupt');
+      mockFetch.mockImplementation(
+        (_url: string, init: { signal: AbortSignal }) =>
+          new Promise((_resolve, reject) => {
+            init.signal.addEventListener('abort', () => {
+              const error = new Error('aborted');
+              error.name = 'AbortError';
+              reject(error);
+            });
+          }),
+      );
+
+      const { fetchPackageMeta } = await import('../src/index.js');
+      const result = fetchPackageMeta(
+        'test-package',
+        fastRetries,
+        null,
+        null,
+        null,
+        controller.signal,
+      );
+      controller.abort(reason);
+
+      await expect(result).rejects.toBe(reason);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+});
+
+describe('fetchPackageMeta with cache', () => {
+  let dir: string;
+  const url = 'https://registry.npmjs.org/lodash';
+  const meta = { latest: '4.17.21', timeMap: { '4.17.21': '2021-02-20' } };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    dir = mkdtempSync(join(tmpdir(), 'outdated-plus-http-cache-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const headers = (values: Record<string, string>) => ({
+    get: (name: string) => values[name.toLowerCase()] ?? null,
+  });
+
+  it('should store fetched metadata with validators', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      headers: headers({ etag: '"v1"' }),
+      json: () =>
+        Promise.resolve({
+          'dist-tags': { latest: '4.17.21' },
+          time: meta.timeMap,
+        }),
+    });
+
+    const { fetchPackageMeta } = await import('../src/index.js');
+    await fetchPackageMeta('lodash', undefined, {
+      dir,
+      ttlMs: 60_000,
+      refresh: false,
+    });
+
+    expect(readCacheEntry(dir, url)).toMatchObject({
+      validators: { full: { etag: '"v1"', lastModified: null } },
+      meta,
+    });
+  });
+
+  it('should return fresh entries without a request', async () => {
+    writeCacheEntry(dir, { url, fetchedAt: Date.now(), meta });
+
+    const { fetchPackageMeta } = await import('../src/index.js');
+    const result = await fetchPackageMeta('lodash', undefined, {
+      dir,
+      ttlMs: 60_000,
+      refresh: false,
+    });
+
+    expect(result).toEqual(meta);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should revalidate stale entries and reuse them on 304', async () => {
+    writeCacheEntry(dir, {
+      url,
+      fetchedAt: 0,
+      validators: {
+        full: { etag: '"full"', lastModified: null },
+        abbreviated: {
+          etag: '"v1"',
+          lastModified: 'Wed, 01 Jan 2025 00:00:00 GMT',
+        },
+      },
+      meta,
+    });
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 304 });
+
+    const { fetchPackageMeta } = await import('../src/index.js');
+    const result = await fetchPackageMeta('lodash', undefined, {
+      dir,
+      ttlMs: 60_000,
+      refresh: false,
     });
+
+    expect(result).toEqual(meta);
+    expect(mockFetch).toHaveBeenCalledWith(
+      url,
+      expect.objectContaining({
+        headers: {
+          Accept: ABBREVIATED_METADATA_ACCEPT,
+          'If-None-Match': '"v1"',
+          'If-Modified-Since': 'Wed, 01 Jan 2025 00:00:00 GMT',
+        },
+      }),
+    );
+    expect(readCacheEntry(dir, url)?.fetchedAt).toBeGreaterThan(0);
+  });
+
+  it('should revalidate with abbreviated metadata and keep cached dates', async () => {
+    writeCacheEntry(dir, { url, fetchedAt: 0, meta, bytes: 5000 });
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      headers: headers({ etag: '"corgi"' }),
+      json: () =>
+        Promise.resolve({
+          'dist-tags': { latest: '4.17.21' },
+          versions: { '4.17.21': { dist: {} } },
+        }),
+    });
+
+    const stats = createFetchStats();
+    const { fetchPackageMeta } = await import('../src/index.js');
+    const result = await fetchPackageMeta(
+      'lodash',
+      undefined,
+      { dir, ttlMs: 60_000, refresh: false },
+      stats,
+    );
+
+    expect(result).toEqual(meta);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(readCacheEntry(dir, url)).toMatchObject({
+      validators: { abbreviated: { etag: '"corgi"' } },
+      bytes: 5000,
+    });
+    expect(stats).toMatchObject({ packages: 1, abbreviated: 1, full: 0 });
+    expect(stats.savedBytes).toBeGreaterThan(4900);
+  });
+
+  it('should download the full packument when new versions were published', async () => {
+    writeCacheEntry(dir, {
+      url,
+      fetchedAt: 0,
+      validators: {
+        full: { etag: '"full"', lastModified: null },
+        abbreviated: { etag: '"corgi"', lastModified: null },
+      },
+      meta,
+    });
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: headers({ etag: '"corgi2"' }),
+        json: () =>
+          Promise.resolve({
+            'dist-tags': { latest: '4.18.0' },
+            versions: { '4.17.21': {}, '4.18.0': {} },
+          }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: headers({}),
+        json: () =>
+          Promise.resolve({
+            'dist-tags': { latest: '4.18.0' },
+            time: { ...meta.timeMap, '4.18.0': '2025-01-01' },
+          }),
+      });
+
+    const stats = createFetchStats();
+    const { fetchPackageMeta } = await import('../src/index.js');
+    const result = await fetchPackageMeta(
+      'lodash',
+      undefined,
+      { dir, ttlMs: 60_000, refresh: false },
+      stats,
+    );
+
+    expect(result.timeMap['4.18.0']).toBe('2025-01-01');
+    // Each request only sends the validators of the representation it asks for
+    expect(mockFetch).toHaveBeenNthCalledWith(
+      1,
+      url,
+      expect.objectContaining({
+        headers: {
+          Accept: ABBREVIATED_METADATA_ACCEPT,
+          'If-None-Match': '"corgi"',
+        },
+      }),
+    );
+    expect(mockFetch).toHaveBeenLastCalledWith(
+      url,
+      expect.objectContaining({
+        headers: { Accept: 'application/json', 'If-None-Match': '"full"' },
+      }),
+    );
+    expect(readCacheEntry(dir, url)?.validators).toEqual({
+      abbreviated: { etag: '"corgi2"', lastModified: null },
+      full: { etag: null, lastModified: null },
+    });
+    expect(stats).toMatchObject({ abbreviated: 1, full: 1 });
+  });
+
+  it('should merge the abbreviated metadata when the full packument is unchanged', async () => {
+    writeCacheEntry(dir, {
+      url,
+      fetchedAt: 0,
+      validators: { full: { etag: '"full"', lastModified: null } },
+      meta,
+    });
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: headers({}),
+        json: () =>
+          Promise.resolve({
+            'dist-tags': { latest: '4.18.0' },
+            versions: { '4.17.21': {}, '4.18.0': {} },
+          }),
+      })
+      .mockResolvedValueOnce({ ok: false, status: 304 });
+
+    const { fetchPackageMeta } = await import('../src/index.js');
+    const result = await fetchPackageMeta('lodash', undefined, {
+      dir,
+      ttlMs: 60_000,
+      refresh: false,
+    });
+
+    expect(result).toEqual({ latest: '4.18.0', timeMap: meta.timeMap });
+    expect(readCacheEntry(dir, url)?.meta.latest).toBe('4.18.0');
+  });
+
+  it('should ignore cached entries with refresh', async () => {
+    writeCacheEntry(dir, {
+      url,
+      fetchedAt: Date.now(),
+      validators: { full: { etag: '"v1"', lastModified: null } },
+      meta,
+    });
+    mockFetch.mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: headers({}),
+      json: () =>
+        Promise.resolve({ 'dist-tags': { latest: '5.0.0' }, time: {} }),
+    });
+
+    const { fetchPackageMeta } = await import('../src/index.js');
+    const result = await fetchPackageMeta('lodash', undefined, {
+      dir,
+      ttlMs: 60_000,
+      refresh: true,
+    });
+
+    expect(result.latest).toBe('5.0.0');
+    expect(mockFetch).toHaveBeenCalledWith(
+      url,
+      expect.objectContaining({ headers: { Accept: 'application/json' } }),
+    );
+    expect(readCacheEntry(dir, url)?.meta.latest).toBe('5.0.0');
   });
 });
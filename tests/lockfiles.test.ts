@@ -0,0 +1,424 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  bunInstalledVersions,
+  detectPackageManager,
+  outdatedCommand,
+  parseOutdatedOutput,
+  pnpmInstalledVersions,
+  pnpmOutdated,
+  yarnInstalledVersions,
+  yarnOutdated,
+} from '../src/lib/lockfiles.js';
+
+describe('detectPackageManager', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'outdated-plus-lockfiles-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should detect the package manager from the lockfile', () => {
+    expect(detectPackageManager(dir)).toBe('npm');
+    writeFileSync(join(dir, 'pnpm-lock.yaml'), '');
+    expect(detectPackageManager(dir)).toBe('pnpm');
+    writeFileSync(join(dir, 'package-lock.json'), '{}');
+    expect(detectPackageManager(dir)).toBe('npm');
+  });
+
+  it('should tell Yarn classic and Yarn 2+ lockfiles apart', () => {
+    writeFileSync(join(dir, 'yarn.lock'), '# yarn lockfile v1\n');
+    expect(detectPackageManager(dir)).toBe('yarn');
+    writeFileSync(join(dir, 'yarn.lock'), '__metadata:\n  version: 8\n');
+    expect(detectPackageManager(dir)).toBe('yarn-berry');
+    writeFileSync(join(dir, 'bun.lock'), '{}');
+    expect(detectPackageManager(dir)).toBe('yarn-berry');
+    rmSync(join(dir, 'yarn.lock'));
+    expect(detectPackageManager(dir)).toBe('bun');
+  });
+
+  it('should fall back to the packageManager field without a lockfile', () => {
+    const withField = (packageManager: unknown) => {
+      writeFileSync(
+        join(dir, 'package.json'),
+        JSON.stringify({ packageManager }),
+      );
+      return detectPackageManager(dir);
+    };
+    expect(withField('yarn@1.22.22')).toBe('yarn');
+    expect(withField('yarn@4.1.0+sha512.abc')).toBe('yarn-berry');
+    expect(withField('pnpm@9.0.0')).toBe('pnpm');
+    expect(withField('bun@1.1.38')).toBe('bun');
+    expect(withField('bower@1.0.0')).toBe('npm');
+    expect(withField(3)).toBe('npm');
+
+    writeFileSync(join(dir, 'package-lock.json'), '{}');
+    expect(withField('pnpm@9.0.0')).toBe('npm');
+  });
+});
+
+describe('outdatedCommand', () => {
+  it('should build the JSON outdated command of each package manager', () => {
+    expect(outdatedCommand('npm')).toEqual(['npm', ['outdated', '--json']]);
+    expect(outdatedCommand('pnpm', 'https://registry.example.com')).toEqual([
+      'pnpm',
+      [
+        'outdated',
+        '--format',
+        'json',
+        '--registry',
+        'https://registry.example.com',
+      ],
+    ]);
+    expect(outdatedCommand('yarn', 'https://registry.example.com')).toEqual([
+      'yarn',
+      ['outdated', '--json'],
+    ]);
+  });
+
+  it('should select workspaces with npm, and use HTTP where no command fits', () => {
+    expect(outdatedCommand('npm', null, ['apps/web', 'libs/ui'])).toEqual([
+      'npm',
+      ['outdated', '--json', '--workspace=apps/web', '--workspace=libs/ui'],
+    ]);
+    expect(outdatedCommand('pnpm', null, ['apps/web'])).toBeNull();
+    expect(outdatedCommand('yarn-berry')).toBeNull();
+    expect(outdatedCommand('bun')).toBeNull();
+  });
+});
+
+describe('parseOutdatedOutput', () => {
+  it('should parse JSON output and ignore invalid output', () => {
+    const entry = { current: '1.0.0', wanted: '1.0.0', latest: '2.0.0' };
+    expect(
+      parseOutdatedOutput('npm', JSON.stringify({ a: [entry, entry] })),
+    ).toEqual({ a: [entry, entry] });
+    expect(
+      parseOutdatedOutput(
+        'pnpm',
+        JSON.stringify({ a: { ...entry, isDeprecated: false } }),
+      ),
+    ).toEqual({ a: entry });
+    expect(parseOutdatedOutput('npm', 'npm ERR! code E404')).toEqual({});
+    expect(parseOutdatedOutput('pnpm', '')).toEqual({});
+  });
+});
+
+describe('yarnOutdated', () => {
+  it('should read the table of yarn outdated --json', () => {
+    const output = [
+      '{"type":"info","data":"Color legend : ..."}',
+      JSON.stringify({
+        type: 'table',
+        data: {
+          head: [
+            'Package',
+            'Current',
+            'Wanted',
+            'Latest',
+            'Workspace',
+            'Package Type',
+            'URL',
+          ],
+          body: [
+            [
+              'lodash',
+              '4.17.20',
+              '4.17.21',
+              '4.17.21',
+              'web',
+              'dependencies',
+              'https://lodash.com',
+            ],
+            ['react', 'exotic', 'exotic', '19.0.0', 'web', 'dependencies', ''],
+            ['vite', '4.0.0', '4.5.0', '5.0.0', 'ui', 'devDependencies', ''],
+          ],
+        },
+      }),
+    ].join('\n');
+
+    expect(yarnOutdated(output)).toEqual({
+      lodash: {
+        current: '4.17.20',
+        wanted: '4.17.21',
+        latest: '4.17.21',
+        dependent: 'web',
+      },
+      react: {
+        current: 'exotic',
+        wanted: 'exotic',
+        latest: '19.0.0',
+        dependent: 'web',
+      },
+      vite: {
+        current: '4.0.0',
+        wanted: '4.5.0',
+        latest: '5.0.0',
+        dependent: 'ui',
+      },
+    });
+    expect(
+      parseOutdatedOutput(
+        'yarn',
+        '{"type":"table","data":{"head":["Package","Current","Wanted","Latest"],"body":[["a","1.0.0","1.0.0","2.0.0"]]}}',
+      ),
+    ).toEqual({ a: { current: '1.0.0', wanted: '1.0.0', latest: '2.0.0' } });
+    expect(yarnOutdated('error Command failed.')).toEqual({});
+  });
+});
+
+describe('pnpmOutdated', () => {
+  it('should keep current, wanted and latest of installed packages', () => {
+    expect(
+      pnpmOutdated({
+        react: {
+          current: '18.2.0',
+          wanted: '18.3.1',
+          latest: '19.0.0',
+          isDeprecated: false,
+          dependencyType: 'dependencies',
+        },
+        missing: { wanted: '1.0.0', latest: '1.0.0', isDeprecated: false },
+      }),
+    ).toEqual({
+      react: { current: '18.2.0', wanted: '18.3.1', latest: '19.0.0' },
+    });
+    expect(pnpmOutdated('')).toEqual({});
+  });
+});
+
+describe('pnpmInstalledVersions', () => {
+  it('should read the importers of a v9 lockfile', () => {
+    const lockfile = `lockfileVersion: '9.0'
+
+settings:
+  autoInstallPeers: true
+
+importers:
+
+  .:
+    devDependencies:
+      typescript:
+        specifier: ^5.0.0
+        version: 5.4.5
+      vitest:
+        specifier: ^1.0.0
+        version: 1.6.0(@types/node@20.12.7)
+
+  packages/app:
+    dependencies:
+      '@acme/lib':
+        specifier: workspace:*
+        version: link:../lib
+      react:
+        specifier: ^18.2.0
+        version: 18.2.0
+      string-width-cjs:
+        specifier: npm:string-width@^4.2.0
+        version: string-width@4.2.3
+    optionalDependencies:
+      fsevents:
+        specifier: ^2.3.0
+        version: 2.3.3
+
+packages:
+
+  react@18.2.0:
+    resolution: {integrity: sha512-/3IjMdb2L9QbBdWiW5e3P2/npwMBaU9mHCSCUzNln0ZCYbcfTsGbTJrU/kGemdH2IWmB2ioZ+zkxtmq6g09fGQ==}
+    engines: {node: '>=0.10.0'}
+`;
+    expect(pnpmInstalledVersions(lockfile)).toEqual({
+      typescript: '5.4.5',
+      vitest: '1.6.0',
+    });
+    expect(pnpmInstalledVersions(lockfile, 'packages/app')).toEqual({
+      react: '18.2.0',
+      'string-width-cjs': '4.2.3',
+      fsevents: '2.3.3',
+    });
+    expect(pnpmInstalledVersions(lockfile, 'packages/other')).toEqual({});
+  });
+
+  it('should read single-project v6 and v5 lockfiles', () => {
+    const v6 = `lockfileVersion: '6.0'
+
+dependencies:
+  '@babel/core':
+    specifier: ^7.0.0
+    version: 7.24.0(supports-color@5.5.0)
+  wrap-ansi-cjs:
+    specifier: npm:wrap-ansi@^7.0.0
+    version: /wrap-ansi@7.0.0
+`;
+    expect(pnpmInstalledVersions(v6)).toEqual({
+      '@babel/core': '7.24.0',
+      'wrap-ansi-cjs': '7.0.0',
+    });
+
+    const v5 = `lockfileVersion: 5.4
+
+specifiers:
+  react-dom: ^18.0.0
+  strip-ansi-cjs: npm:strip-ansi@^6
+
+dependencies:
+  react-dom: 18.2.0_react@18.2.0
+  strip-ansi-cjs: /strip-ansi/6.0.1
+`;
+    expect(pnpmInstalledVersions(v5)).toEqual({
+      'react-dom': '18.2.0',
+      'strip-ansi-cjs': '6.0.1',
+    });
+  });
+
+  it('should skip the document describing pnpm itself', () => {
+    const lockfile = `---
+lockfileVersion: '9.0'
+
+importers:
+  .:
+    configDependencies: {}
+    packageManagerDependencies:
+      pnpm:
+        specifier: 10.0.0
+        version: 10.0.0
+
+---
+lockfileVersion: '9.0'
+
+importers:
+  .:
+    dependencies:
+      lodash:
+        specifier: ^4.17.0
+        version: 4.17.21
+`;
+    expect(pnpmInstalledVersions(lockfile)).toEqual({ lodash: '4.17.21' });
+    expect(pnpmInstalledVersions('not: [a lockfile')).toEqual({});
+  });
+});
+
+describe('yarnInstalledVersions', () => {
+  const dependencies = {
+    '@babel/core': '^7.0.0',
+    lodash: '^4.17.20',
+    'strip-ansi-cjs': 'npm:strip-ansi@^6.0.1',
+    '@acme/ui': 'workspace:*',
+    missing: '^1.0.0',
+  };
+
+  it('should resolve dependency ranges in a Yarn classic lockfile', () => {
+    const lockfile = `# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.
+# yarn lockfile v1
+
+
+"@babel/core@^7.0.0", "@babel/core@^7.12.3":
+  version "7.24.0"
+  resolved "https://registry.yarnpkg.com/@babel/core/-/core-7.24.0.tgz"
+  dependencies:
+    "@babel/code-frame" "^7.23.5"
+
+lodash@^4.17.20, lodash@^4.17.21:
+  version "4.17.21"
+
+"strip-ansi-cjs@npm:strip-ansi@^6.0.1":
+  version "6.0.1"
+`;
+    expect(yarnInstalledVersions(lockfile, dependencies)).toEqual({
+      '@babel/core': '7.24.0',
+      lodash: '4.17.21',
+      'strip-ansi-cjs': '6.0.1',
+    });
+  });
+
+  it('should resolve dependency ranges in a Yarn 2+ lockfile', () => {
+    const lockfile = `# This file is generated by running "yarn install" inside your project.
+
+__metadata:
+  version: 8
+  cacheKey: 10c0
+
+"@acme/ui@workspace:*, @acme/ui@workspace:packages/ui":
+  version: 0.0.0-use.local
+  resolution: "@acme/ui@workspace:packages/ui"
+  languageName: unknown
+  linkType: soft
+
+"@babel/core@npm:^7.0.0":
+  version: 7.24.0
+  resolution: "@babel/core@npm:7.24.0"
+  dependencies:
+    "@babel/code-frame": "npm:^7.23.5"
+  checksum: 10c0/abc
+  languageName: node
+  linkType: hard
+
+"lodash@npm:^4.17.20, lodash@npm:^4.17.21":
+  version: 4.17.21
+  resolution: "lodash@npm:4.17.21"
+
+"strip-ansi-cjs@npm:strip-ansi@^6.0.1":
+  version: 6.0.1
+  resolution: "strip-ansi@npm:6.0.1"
+`;
+    expect(yarnInstalledVersions(lockfile, dependencies)).toEqual({
+      '@babel/core': '7.24.0',
+      lodash: '4.17.21',
+      'strip-ansi-cjs': '6.0.1',
+    });
+  });
+});
+
+describe('bunInstalledVersions', () => {
+  const lockfile = `{
+  "lockfileVersion": 1,
+  "workspaces": {
+    "": {
+      "name": "monorepo",
+      "devDependencies": {
+        "typescript": "^5.0.0",
+      },
+    },
+    "packages/app": {
+      "name": "@acme/app",
+      "dependencies": {
+        "@acme/ui": "workspace:*",
+        "lodash": "^3.0.0",
+        "string-width-cjs": "npm:string-width@^4.2.0",
+      },
+      // Bun does not write comments, but JSONC allows them
+      "optionalDependencies": { "fsevents": "^2.3.0", /* macOS only */ },
+    },
+  },
+  "packages": {
+    "@acme/ui": ["@acme/ui@workspace:packages/ui"],
+    "@acme/app/lodash": ["lodash@3.10.1", "", {}, "sha512-abc//def"],
+    "fsevents": ["fsevents@2.3.3", "", { "os": "darwin" }, "sha512-x"],
+    "lodash": ["lodash@4.17.21", "", {}, "sha512-y"],
+    "string-width-cjs": ["string-width@4.2.3", "", {}, "sha512-z"],
+    "typescript": ["typescript@5.4.5", "", { "bin": { "tsc": "bin/tsc" } }, "sha512-w"],
+  }
+}
+`;
+
+  it('should read the dependencies of the root and of workspaces', () => {
+    expect(bunInstalledVersions(lockfile)).toEqual({ typescript: '5.4.5' });
+    expect(bunInstalledVersions(lockfile, 'packages/app')).toEqual({
+      fsevents: '2.3.3',
+      lodash: '3.10.1',
+      'string-width-cjs': '4.2.3',
+    });
+    expect(bunInstalledVersions(lockfile, 'packages/other')).toEqual({});
+  });
+
+  it('should return no versions for invalid lockfiles', () => {
+    expect(bunInstalledVersions('{ "workspaces": ')).toEqual({});
+    expect(bunInstalledVersions('[]')).toEqual({});
+  });
+});
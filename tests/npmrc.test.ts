@@ -0,0 +1,151 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  interpolateEnv,
+  loadNpmrc,
+  npmrcPaths,
+  parseNpmrc,
+} from '../src/lib/npmrc.js';
+
+describe('parseNpmrc', () => {
+  it('should parse key/value pairs', () => {
+    expect(
+      parseNpmrc(
+        'registry=https://npm.acme.dev/\n@acme:registry = https://npm.acme.dev/acme/',
+      ),
+    ).toEqual({
+      registry: 'https://npm.acme.dev/',
+      '@acme:registry': 'https://npm.acme.dev/acme/',
+    });
+  });
+
+  it('should ignore comments, blank lines and sections', () => {
+    expect(
+      parseNpmrc('# comment\n; other comment\n\n[section]\nsave-exact=true\n'),
+    ).toEqual({ 'save-exact': 'true' });
+  });
+
+  it('should strip surrounding quotes and handle CRLF', () => {
+    expect(parseNpmrc('registry="https://a.dev/"\r\nfoo=\'bar\'\r\n')).toEqual({
+      registry: 'https://a.dev/',
+      foo: 'bar',
+    });
+  });
+
+  it('should keep "=" inside values', () => {
+    expect(parseNpmrc('_auth=dXNlcjpwYXNz==')).toEqual({
+      _auth: 'dXNlcjpwYXNz==',
+    });
+  });
+
+  it('should join array entries with newlines', () => {
+    expect(parseNpmrc('ca[]=first\nca[]=second')).toEqual({
+      ca: 'first\nsecond',
+    });
+  });
+
+  it('should ignore lines without a key', () => {
+    expect(parseNpmrc('=value\nnot a setting')).toEqual({});
+  });
+});
+
+describe('interpolateEnv', () => {
+  const env = { NPM_TOKEN: 'abc', HOST: 'npm.acme.dev' };
+
+  it('should replace environment variable references', () => {
+    expect(interpolateEnv('${NPM_TOKEN}', env)).toBe('abc');
+    expect(interpolateEnv('//${HOST}/:_authToken', env)).toBe(
+      '//npm.acme.dev/:_authToken',
+    );
+  });
+
+  it('should resolve optional references to an empty string', () => {
+    expect(interpolateEnv('token-${MISSING?}', env)).toBe('token-');
+  });
+
+  it('should leave unset references untouched', () => {
+    expect(interpolateEnv('${MISSING}', env)).toBe('${MISSING}');
+  });
+
+  it('should keep escaped references literal', () => {
+    expect(interpolateEnv('\\${NPM_TOKEN}', env)).toBe('${NPM_TOKEN}');
+  });
+});
+
+describe('loadNpmrc', () => {
+  let dir: string;
+  let env: Record<string, string | undefined>;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'outdated-plus-npmrc-'));
+    mkdirSync(join(dir, 'project'));
+    env = {
+      npm_config_globalconfig: join(dir, 'globalrc'),
+      npm_config_userconfig: join(dir, 'userrc'),
+    };
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should return empty settings when no files exist', () => {
+    expect(loadNpmrc(join(dir, 'project'), env)).toEqual({});
+  });
+
+  it('should let project settings override user and global settings', () => {
+    writeFileSync(
+      join(dir, 'globalrc'),
+      'registry=https://global.dev/\nstrict-ssl=false',
+    );
+    writeFileSync(
+      join(dir, 'userrc'),
+      'registry=https://user.dev/\n@acme:registry=https://acme.dev/',
+    );
+    writeFileSync(
+      join(dir, 'project', '.npmrc'),
+      'registry=https://project.dev/',
+    );
+
+    expect(loadNpmrc(join(dir, 'project'), env)).toEqual({
+      registry: 'https://project.dev/',
+      'strict-ssl': 'false',
+      '@acme:registry': 'https://acme.dev/',
+    });
+  });
+
+  it('should interpolate environment variables', () => {
+    writeFileSync(
+      join(dir, 'project', '.npmrc'),
+      '//npm.acme.dev/:_authToken=${NPM_TOKEN}',
+    );
+    env.NPM_TOKEN = 'abc';
+    expect(loadNpmrc(join(dir, 'project'), env)).toEqual({
+      '//npm.acme.dev/:_authToken': 'abc',
+    });
+  });
+
+  it('should let npm_config_registry override files', () => {
+    writeFileSync(join(dir, 'project', '.npmrc'), 'registry=https://a.dev/');
+    env.npm_config_registry = 'https://env.dev/';
+    expect(loadNpmrc(join(dir, 'project'), env).registry).toBe(
+      'https://env.dev/',
+    );
+  });
+});
+
+describe('npmrcPaths', () => {
+  it('should derive the global config from npm_config_prefix', () => {
+    const paths = npmrcPaths('/work/app', {
+      npm_config_prefix: '/opt/node',
+      npm_config_userconfig: '/home/me/.npmrc',
+    });
+    expect(paths).toEqual([
+      join('/opt/node', 'etc', '.npmrc'),
+      '/home/me/.npmrc',
+      join('/work/app', '.npmrc'),
+    ]);
+  });
+});
@@ -0,0 +1,123 @@
+import {
+  mkdirSync,
+  mkdtempSync,
+  rmSync,
+  utimesSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { writeCacheEntry } from '../src/lib/cache.js';
+import { loadOfflineMetas, readPackument } from '../src/lib/offline.js';
+import { DEFAULT_REGISTRY_CONFIG } from '../src/lib/registry.js';
+
+const packument = (latest: string) =>
+  JSON.stringify({
+    'dist-tags': { latest },
+    time: { [latest]: '2024-01-01T00:00:00.000Z' },
+  });
+
+describe('offline metadata', () => {
+  let dir: string;
+  let packumentDir: string;
+  let cacheDir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'outdated-plus-offline-'));
+    packumentDir = join(dir, 'packuments');
+    cacheDir = join(dir, 'cache');
+    mkdirSync(join(packumentDir, '@acme'), { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('readPackument', () => {
+    it('should read a packument and use its mtime as fetch time', () => {
+      const path = join(packumentDir, 'lodash.json');
+      writeFileSync(path, packument('4.17.21'));
+      utimesSync(path, 1_700_000_000, 1_700_000_000);
+
+      expect(readPackument(packumentDir, 'lodash')).toEqual({
+        latest: '4.17.21',
+        timeMap: { '4.17.21': '2024-01-01T00:00:00.000Z' },
+        cachedAt: 1_700_000_000_000,
+      });
+    });
+
+    it('should find scoped packuments in a scope directory or encoded', () => {
+      writeFileSync(join(packumentDir, '@acme', 'ui.json'), packument('1.0.0'));
+      writeFileSync(
+        join(packumentDir, '@acme%2fcore.json'),
+        packument('2.0.0'),
+      );
+
+      expect(readPackument(packumentDir, '@acme/ui')?.latest).toBe('1.0.0');
+      expect(readPackument(packumentDir, '@acme/core')?.latest).toBe('2.0.0');
+    });
+
+    it('should return null for missing or invalid packuments', () => {
+      writeFileSync(join(packumentDir, 'broken.json'), '{');
+      expect(readPackument(packumentDir, 'missing')).toBeNull();
+      expect(readPackument(packumentDir, 'broken')).toBeNull();
+    });
+  });
+
+  describe('loadOfflineMetas', () => {
+    it('should combine packuments and cache entries and report missing packages', () => {
+      writeFileSync(join(packumentDir, 'lodash.json'), packument('4.17.21'));
+      writeCacheEntry(cacheDir, {
+        url: 'https://registry.npmjs.org/react',
+        fetchedAt: 1_000,
+        meta: { latest: '18.2.0', timeMap: {} },
+      });
+
+      const { metas, missing } = loadOfflineMetas(['lodash', 'react', 'vue'], {
+        registries: DEFAULT_REGISTRY_CONFIG,
+        cacheDir,
+        packumentDir,
+      });
+
+      expect(metas.lodash.latest).toBe('4.17.21');
+      expect(metas.react).toEqual({
+        latest: '18.2.0',
+        timeMap: {},
+        cachedAt: 1_000,
+      });
+      expect(missing).toEqual(['vue']);
+    });
+
+    it('should prefer the packument directory over the cache', () => {
+      writeFileSync(join(packumentDir, 'react.json'), packument('19.0.0'));
+      writeCacheEntry(cacheDir, {
+        url: 'https://registry.npmjs.org/react',
+        fetchedAt: 1_000,
+        meta: { latest: '18.2.0', timeMap: {} },
+      });
+
+      const { metas } = loadOfflineMetas(['react'], {
+        registries: DEFAULT_REGISTRY_CONFIG,
+        cacheDir,
+        packumentDir,
+      });
+      expect(metas.react.latest).toBe('19.0.0');
+    });
+
+    it('should not read the cache when it is disabled', () => {
+      writeCacheEntry(cacheDir, {
+        url: 'https://registry.npmjs.org/react',
+        fetchedAt: 1_000,
+        meta: { latest: '18.2.0', timeMap: {} },
+      });
+
+      const { missing } = loadOfflineMetas(['react'], {
+        registries: DEFAULT_REGISTRY_CONFIG,
+        cacheDir: null,
+        packumentDir: null,
+      });
+      expect(missing).toEqual(['react']);
+    });
+  });
+});
@@ -1,10 +1,25 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import {
+  buildJsonReport,
+  buildSarifReport,
+  createStringSink,
+  isMachineReadableFormat,
+  printDelimited,
+  printHtml,
+  printJson,
+  printJunit,
   printMarkdown,
   printPlain,
   printSkippedInfo,
+  printUnresolved,
+  printVersionMismatches,
+  stderrSink,
 } from '../src/lib/output.js';
-import type { Row } from '../src/lib/types.js';
+import type {
+  Row,
+  UnresolvedPackage,
+  VersionMismatch,
+} from '../src/lib/types.js';
 
 describe('Output Functions', () => {
   const mockRows: Row[] = [
@@ -46,6 +61,22 @@ describe('Output Functions', () => {
     },
   ];
 
+  const unresolved: UnresolvedPackage[] = [
+    {
+      name: 'private-pkg',
+      code: 'NETWORK_ERROR',
+      message: 'Network error (HTTP 503): Service unavailable',
+    },
+  ];
+
+  const cancelled: UnresolvedPackage[] = [
+    {
+      name: 'slow-pkg',
+      code: 'CANCELLED',
+      message: 'Cancelled: Interrupted',
+    },
+  ];
+
   let consoleSpy: ReturnType<typeof vi.spyOn>;
 
   beforeEach(() => {
@@ -267,6 +298,800 @@ describe('Output Functions', () => {
     });
   });
 
+  describe('buildJsonReport', () => {
+    it('should include a schema version and summary counts', () => {
+      const report = buildJsonReport(mockRows, [
+        { name: 'react', entry: 'react@19.0.0', reason: 'Skipped via --skip' },
+      ]);
+
+      expect(report.schemaVersion).toBe(1);
+      expect(report.summary.total).toBe(2);
+      expect(report.summary.skipped).toBe(1);
+      expect(report.summary.byBumpType.major).toBe(1);
+      expect(report.summary.byBumpType.minor).toBe(1);
+      expect(report.summary.byBumpType.patch).toBe(0);
+      expect(report.skipped).toEqual([
+        { name: 'react', entry: 'react@19.0.0', reason: 'Skipped via --skip' },
+      ]);
+    });
+
+    it('should emit raw timestamps and numeric ages', () => {
+      const report = buildJsonReport(mockRows);
+
+      expect(report.packages[0]).toEqual({
+        name: 'package-a',
+        current: '1.0.0',
+        wanted: '1.1.0',
+        latest: '2.0.0',
+        toWanted: 'minor',
+        toLatest: 'major',
+        publishedWanted: '2023-11-01T10:40:00.000Z',
+        publishedWantedMs: 1698835200000,
+        ageWanted: 30,
+        publishedLatest: '2023-11-15T10:40:00.000Z',
+        publishedLatestMs: 1700044800000,
+        ageLatest: 16,
+        cachedAt: null,
+        cachedAtMs: null,
+        workspace: null,
+        project: null,
+      });
+    });
+
+    it('should use null for unknown dates and ages', () => {
+      const report = buildJsonReport([
+        {
+          ...mockRows[0],
+          PublishedWanted: '-',
+          AgeWanted: '-',
+          _published_wanted: 0,
+          _age_wanted: Number.POSITIVE_INFINITY,
+        },
+      ]);
+
+      expect(report.packages[0].publishedWanted).toBeNull();
+      expect(report.packages[0].publishedWantedMs).toBeNull();
+      expect(report.packages[0].ageWanted).toBeNull();
+    });
+
+    it('should list unresolved packages', () => {
+      const report = buildJsonReport(mockRows, [], unresolved);
+
+      expect(report.summary.unresolved).toBe(1);
+      expect(report.unresolved).toEqual(unresolved);
+      expect(buildJsonReport(mockRows).unresolved).toEqual([]);
+    });
+
+    it('should list packages without local metadata', () => {
+      const missing = [{ name: 'lodash', workspace: '@acme/app' }];
+      const report = buildJsonReport(mockRows, [], [], [], missing);
+
+      expect(report.summary.missing).toBe(1);
+      expect(report.missing).toEqual(missing);
+      expect(buildJsonReport(mockRows).missing).toEqual([]);
+    });
+
+    it('should mark reports of cancelled runs as incomplete', () => {
+      expect(buildJsonReport(mockRows, [], unresolved).incomplete).toBe(false);
+      expect(buildJsonReport(mockRows, [], cancelled).incomplete).toBe(true);
+    });
+  });
+
+  describe('printUnresolved', () => {
+    const output = () =>
+      consoleSpy.mock.calls.map((call: unknown[]) => call[0]).join('\n');
+
+    it('should print nothing when every package resolved', () => {
+      printUnresolved([], 'plain');
+
+      expect(consoleSpy).not.toHaveBeenCalled();
+    });
+
+    it('should list package, code and message in plain output', () => {
+      printUnresolved(unresolved, 'plain');
+
+      expect(output()).toContain('Could not resolve 1 package(s):');
+      expect(output()).toContain('private-pkg');
+      expect(output()).toContain('NETWORK_ERROR');
+      expect(output()).toContain(
+        'Network error (HTTP 503): Service unavailable',
+      );
+    });
+
+    it('should print a Markdown section', () => {
+      printUnresolved(unresolved, 'md');
+
+      expect(output()).toContain('### Could not resolve');
+      expect(output()).toContain(
+        '| private-pkg | NETWORK_ERROR | Network error (HTTP 503): Service unavailable |',
+      );
+    });
+
+    it('should summarize packages not checked after cancellation', () => {
+      printUnresolved([...unresolved, ...cancelled], 'plain');
+
+      expect(output()).toContain('Could not resolve 1 package(s):');
+      expect(output()).not.toContain('slow-pkg');
+      expect(output()).toContain(
+        'Incomplete results: 1 package(s) not checked (Cancelled: Interrupted)',
+      );
+    });
+
+    it('should mark incomplete Markdown reports', () => {
+      printUnresolved(cancelled, 'md');
+
+      expect(output()).not.toContain('### Could not resolve');
+      expect(output()).toContain(
+        '> **Incomplete results:** 1 package(s) not checked (Cancelled: Interrupted)',
+      );
+    });
+
+    it('should print to stderr through the stderr sink', () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      printUnresolved(unresolved, 'plain', stderrSink);
+
+      expect(consoleSpy).not.toHaveBeenCalled();
+      expect(errorSpy.mock.calls.map((call) => call[0]).join('\n')).toContain(
+        'Could not resolve 1 package(s):',
+      );
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe('printJson', () => {
+    it('should print a single parseable JSON document', () => {
+      printJson(mockRows);
+
+      expect(consoleSpy).toHaveBeenCalledTimes(1);
+      const parsed = JSON.parse(consoleSpy.mock.calls[0][0]);
+      expect(parsed.packages).toHaveLength(2);
+      expect(parsed.packages[1].name).toBe('package-b');
+    });
+
+    it('should print an empty document for no rows', () => {
+      printJson([]);
+
+      const parsed = JSON.parse(consoleSpy.mock.calls[0][0]);
+      expect(parsed.packages).toEqual([]);
+      expect(parsed.summary.total).toBe(0);
+    });
+  });
+
+  describe('printDelimited', () => {
+    it('should print CSV header and rows with ISO timestamps', () => {
+      printDelimited(mockRows);
+
+      const calls = consoleSpy.mock.calls;
+      expect(calls).toHaveLength(3);
+      expect(calls[0][0]).toBe(
+        'Package,Current,Latest,To Latest,Published,Age(d),#',
+      );
+      expect(calls[1][0]).toBe(
+        'package-a,1.0.0,2.0.0,major,2023-11-15T10:40:00.000Z,16,1',
+      );
+    });
+
+    it('should use the Wanted column set when showWanted=true', () => {
+      printDelimited(mockRows, true);
+
+      const calls = consoleSpy.mock.calls;
+      expect(calls[0][0]).toBe(
+        'Package,Current,Wanted,To Wanted,Latest,To Latest,Published (Wanted),Age(d) (Wanted),Published (Latest),Age(d) (Latest),#',
+      );
+      expect(calls[1][0]).toBe(
+        'package-a,1.0.0,1.1.0,minor,2.0.0,major,2023-11-01T10:40:00.000Z,30,2023-11-15T10:40:00.000Z,16,1',
+      );
+    });
+
+    it('should print TSV with tab delimiters', () => {
+      printDelimited(mockRows, false, '\t');
+
+      const calls = consoleSpy.mock.calls;
+      expect(calls[0][0]).toBe(
+        'Package\tCurrent\tLatest\tTo Latest\tPublished\tAge(d)\t#',
+      );
+      expect(calls[2][0].split('\t')).toHaveLength(7);
+    });
+
+    it('should quote values containing delimiters or quotes', () => {
+      printDelimited([
+        { ...mockRows[0], Package: 'weird,"name"' },
+        { ...mockRows[1], Package: 'tab\tname' },
+      ]);
+
+      const calls = consoleSpy.mock.calls;
+      expect(calls[1][0]).toMatch(/^"weird,""name""",1\.0\.0,/);
+      expect(calls[2][0]).toMatch(/^tab\tname,/);
+    });
+
+    it('should leave unknown dates and ages empty', () => {
+      printDelimited([
+        {
+          ...mockRows[0],
+          PublishedLatest: '-',
+          AgeLatest: '-',
+          _published_latest: 0,
+          _age_latest: Number.POSITIVE_INFINITY,
+        },
+      ]);
+
+      expect(consoleSpy.mock.calls[1][0]).toBe(
+        'package-a,1.0.0,2.0.0,major,,,1',
+      );
+    });
+  });
+
+  describe('buildSarifReport', () => {
+    const packageJson = [
+      '{',
+      '  "name": "demo",',
+      '  "dependencies": {',
+      '    "package-a": "^1.0.0"',
+      '  },',
+      '  "devDependencies": {',
+      '    "package-b": "^2.0.0"',
+      '  }',
+      '}',
+    ].join('\n');
+
+    it('should declare one rule per bump type', () => {
+      const report = buildSarifReport(mockRows, packageJson);
+      const ruleIds = report.runs[0].tool.driver.rules.map((r) => r.id);
+
+      expect(report.version).toBe('2.1.0');
+      expect(ruleIds).toEqual([
+        'outdated-major',
+        'outdated-minor',
+        'outdated-patch',
+        'outdated-prerelease',
+        'outdated-unknown',
+      ]);
+    });
+
+    it('should map rows to results with rule and package.json location', () => {
+      const report = buildSarifReport(mockRows, packageJson);
+      const [first, second] = report.runs[0].results;
+
+      expect(first.ruleId).toBe('outdated-major');
+      expect(first.ruleIndex).toBe(0);
+      expect(first.locations[0].physicalLocation).toEqual({
+        artifactLocation: { uri: 'package.json' },
+        region: { startLine: 4, startColumn: 5 },
+      });
+      expect(second.ruleId).toBe('outdated-minor');
+      expect(second.locations[0].physicalLocation.region?.startLine).toBe(7);
+    });
+
+    it('should derive the level from the age thresholds', () => {
+      const report = buildSarifReport([
+        { ...mockRows[0], _age_latest: 400 },
+        { ...mockRows[0], _age_latest: 100 },
+        { ...mockRows[0], _age_latest: 10 },
+        { ...mockRows[0], _age_latest: Number.POSITIVE_INFINITY },
+      ]);
+
+      expect(report.runs[0].results.map((r) => r.level)).toEqual([
+        'error',
+        'warning',
+        'note',
+        'note',
+      ]);
+    });
+
+    it('should omit the region when the dependency cannot be located', () => {
+      const report = buildSarifReport(mockRows);
+
+      expect(report.runs[0].results[0].locations[0].physicalLocation).toEqual({
+        artifactLocation: { uri: 'package.json' },
+      });
+    });
+
+    it('should record unresolved packages as failed invocation notifications', () => {
+      expect(buildSarifReport(mockRows).runs[0].invocations).toBeUndefined();
+
+      const report = buildSarifReport(mockRows, undefined, unresolved);
+      const [invocation] = report.runs[0].invocations ?? [];
+
+      expect(invocation.executionSuccessful).toBe(false);
+      expect(invocation.toolExecutionNotifications).toEqual([
+        {
+          level: 'error',
+          message: {
+            text: 'Could not resolve private-pkg: Network error (HTTP 503): Service unavailable',
+          },
+          properties: { package: 'private-pkg', code: 'NETWORK_ERROR' },
+        },
+      ]);
+    });
+
+    it('should record packages without local metadata as warning notifications', () => {
+      const report = buildSarifReport(
+        mockRows,
+        undefined,
+        [],
+        [{ name: 'lodash' }],
+      );
+      const [invocation] = report.runs[0].invocations ?? [];
+
+      expect(invocation.executionSuccessful).toBe(true);
+      expect(invocation.toolExecutionNotifications).toEqual([
+        {
+          level: 'warning',
+          message: {
+            text: 'No local metadata for lodash, run once online or use --packuments',
+          },
+          properties: { package: 'lodash', code: 'NO_LOCAL_METADATA' },
+        },
+      ]);
+    });
+  });
+
+  describe('printJunit', () => {
+    const output = () =>
+      consoleSpy.mock.calls.map((call: unknown[]) => call[0]).join('\n');
+
+    it('should fail major updates and pass the rest', () => {
+      printJunit(mockRows);
+
+      const xml = output();
+      expect(xml).toContain('<?xml version="1.0" encoding="UTF-8"?>');
+      expect(xml).toContain('tests="2" failures="1" errors="0" skipped="0"');
+      expect(xml).toContain(
+        '<failure message="major update available (1.0.0 -&gt; 2.0.0)" type="major">',
+      );
+      expect(xml).toContain(
+        '<testcase classname="outdated" name="package-b"/>',
+      );
+    });
+
+    it('should fail rows reaching the --older-than cutoff', () => {
+      printJunit(mockRows, { olderThan: 60 });
+
+      const xml = output();
+      expect(xml).toContain('failures="2"');
+      expect(xml).toContain('age of 61 day(s) exceeds --older-than 60');
+    });
+
+    it('should report up-to-date packages as passing and skipped ones as skipped', () => {
+      printJunit([], {
+        upToDate: [{ name: 'lodash' }],
+        skipped: [
+          {
+            name: 'react',
+            entry: 'react',
+            reason: 'Skipped via --skip <react>',
+          },
+        ],
+      });
+
+      const xml = output();
+      expect(xml).toContain('tests="2" failures="0" errors="0" skipped="1"');
+      expect(xml).toContain('<testcase classname="up-to-date" name="lodash"/>');
+      expect(xml).toContain(
+        '<skipped message="Skipped via --skip &lt;react&gt;"/>',
+      );
+    });
+
+    it('should report unresolved packages as errors', () => {
+      printJunit([], { unresolved });
+
+      const xml = output();
+      expect(xml).toContain('tests="1" failures="0" errors="1" skipped="0"');
+      expect(xml).toContain(
+        '<testcase classname="unresolved" name="private-pkg">',
+      );
+      expect(xml).toContain('type="NETWORK_ERROR"');
+    });
+
+    it('should report packages without local metadata as skipped', () => {
+      printJunit([], { missing: [{ name: 'lodash' }] });
+
+      const xml = output();
+      expect(xml).toContain('tests="1" failures="0" errors="0" skipped="1"');
+      expect(xml).toContain('<testcase classname="missing" name="lodash">');
+      expect(xml).toContain(
+        '<skipped message="No local metadata, run once online or use --packuments"/>',
+      );
+    });
+
+    it('should escape XML special characters in package names', () => {
+      printJunit([{ ...mockRows[1], Package: 'a&b"c' }]);
+
+      expect(output()).toContain('name="a&amp;b&quot;c"');
+    });
+  });
+
+  describe('printHtml', () => {
+    const html = () => String(consoleSpy.mock.calls[0][0]);
+
+    it('should print a standalone page without external assets', () => {
+      printHtml(mockRows);
+
+      expect(consoleSpy).toHaveBeenCalledTimes(1);
+      expect(html()).toMatch(/^<!DOCTYPE html>/);
+      expect(html()).toContain('<style>');
+      expect(html()).toContain('<script>');
+      expect(html()).not.toMatch(/<link|src="/);
+    });
+
+    it('should print a summary of counts per bump type', () => {
+      printHtml(mockRows);
+
+      expect(html()).toContain('<li>Total: <strong>2</strong></li>');
+      expect(html()).toContain(
+        '<li class="bump-major">major: <strong>1</strong></li>',
+      );
+      expect(html()).toContain(
+        '<li class="bump-patch">patch: <strong>0</strong></li>',
+      );
+    });
+
+    it('should add a section for unresolved packages', () => {
+      printHtml(mockRows, { unresolved });
+
+      expect(html()).toContain('Could not resolve: <strong>1</strong>');
+      expect(html()).toContain('<h2>Could not resolve</h2>');
+      expect(html()).toContain(
+        '<td class="pkg">private-pkg</td><td>NETWORK_ERROR</td>',
+      );
+    });
+
+    it('should add a section for packages without local metadata', () => {
+      printHtml(mockRows, { missing: [{ name: 'lodash', project: 'api' }] });
+
+      expect(html()).toContain('No local metadata: <strong>1</strong>');
+      expect(html()).toContain('<h2>No local metadata</h2>');
+      expect(html()).toContain(
+        '<tr><td class="project">api</td><td class="pkg">lodash</td></tr>',
+      );
+    });
+
+    it('should mark incomplete reports', () => {
+      printHtml(mockRows, { unresolved: cancelled });
+
+      expect(html()).toContain(
+        '<p class="incomplete">Incomplete results: 1 package(s) not checked (Cancelled: Interrupted)</p>',
+      );
+    });
+
+    it('should use the bump type and age color classes', () => {
+      printHtml([{ ...mockRows[0], AgeLatest: '400', _age_latest: 400 }]);
+
+      expect(html()).toContain('<td class="bump-major">major</td>');
+      expect(html()).toContain('<td class="num age-red">400</td>');
+    });
+
+    it('should offer every sort key and preselect the current sort', () => {
+      printHtml(mockRows, { sortBy: 'age_wanted', order: 'asc' });
+
+      for (const key of [
+        'name',
+        'age_latest',
+        'age_wanted',
+        'published_latest',
+        'published_wanted',
+        'current',
+        'wanted',
+        'latest',
+      ]) {
+        expect(html()).toContain(`<option value="${key}"`);
+        expect(html()).toContain(`data-${key}="`);
+      }
+      expect(html()).toContain('<option value="age_wanted" selected>');
+      expect(html()).toContain('<option value="asc" selected>');
+    });
+
+    it('should show the Wanted columns when showWanted=true', () => {
+      printHtml(mockRows, { showWanted: true });
+
+      expect(html()).toContain(
+        '<th data-sort="published_wanted">Published (Wanted)</th>',
+      );
+    });
+
+    it('should escape HTML in package names', () => {
+      printHtml([{ ...mockRows[0], Package: '<script>x</script>' }]);
+
+      expect(html()).toContain('&lt;script&gt;x&lt;/script&gt;');
+    });
+  });
+
+  describe('createStringSink', () => {
+    it('should collect lines instead of printing them', () => {
+      const sink = createStringSink();
+      printMarkdown(mockRows, false, sink);
+
+      expect(consoleSpy).not.toHaveBeenCalled();
+      const lines = sink.toString().split('\n');
+      expect(lines).toHaveLength(5);
+      expect(lines[0]).toBe(
+        '| Package | Current | Latest | To Latest | Published | Age(d) | # |',
+      );
+      expect(lines[4]).toBe('');
+    });
+
+    it('should strip ANSI color codes', () => {
+      process.env.FORCE_COLOR = '1';
+      try {
+        const sink = createStringSink();
+        printPlain(mockRows, false, sink);
+        expect(sink.toString()).toContain('package-a');
+        expect(sink.toString()).not.toContain('\x1b[');
+      } finally {
+        delete process.env.FORCE_COLOR;
+      }
+    });
+
+    it('should return an empty string when nothing was written', () => {
+      expect(createStringSink().toString()).toBe('');
+    });
+  });
+
+  describe('isMachineReadableFormat', () => {
+    it('should only flag machine-readable formats', () => {
+      expect(isMachineReadableFormat('json')).toBe(true);
+      expect(isMachineReadableFormat('csv')).toBe(true);
+      expect(isMachineReadableFormat('tsv')).toBe(true);
+      expect(isMachineReadableFormat('sarif')).toBe(true);
+      expect(isMachineReadableFormat('junit')).toBe(true);
+      expect(isMachineReadableFormat('html')).toBe(true);
+      expect(isMachineReadableFormat('plain')).toBe(false);
+      expect(isMachineReadableFormat('md')).toBe(false);
+    });
+  });
+
+  describe('offline rows', () => {
+    const cachedRows: Row[] = mockRows.map((r) => ({
+      ...r,
+      Cached: '3d ago',
+      _cached_at: 1700000000000,
+    }));
+
+    it('should add a Cached column to plain and Markdown output', () => {
+      const plain = createStringSink();
+      printPlain(cachedRows, false, plain);
+      const [header, , first] = plain.toString().split('\n');
+      expect(header).toMatch(/Age\(d\)\s+Cached\s+#$/);
+      expect(first).toMatch(/16\s+3d ago\s+1$/);
+
+      const md = createStringSink();
+      printMarkdown(cachedRows, false, md);
+      expect(md.toString()).toContain(
+        '| Package | Current | Latest | To Latest | Published | Age(d) | Cached | # |',
+      );
+      expect(md.toString()).toContain('| 16 | 3d ago | 1 |');
+    });
+
+    it('should print the fetch time as ISO in delimited output', () => {
+      const sink = createStringSink();
+      printDelimited(cachedRows, false, ',', sink);
+      const [header, first] = sink.toString().split('\n');
+      expect(header).toBe(
+        'Package,Current,Latest,To Latest,Published,Age(d),Cached,#',
+      );
+      expect(first.endsWith(',16,2023-11-14T22:13:20.000Z,1')).toBe(true);
+    });
+
+    it('should include cachedAt in JSON and SARIF reports', () => {
+      expect(buildJsonReport(cachedRows).packages[0]).toMatchObject({
+        cachedAt: '2023-11-14T22:13:20.000Z',
+        cachedAtMs: 1700000000000,
+      });
+
+      const result = buildSarifReport(cachedRows).runs[0].results[0];
+      expect(result.message.text).toContain('offline data fetched 3d ago');
+      expect(result.properties.cachedAt).toBe('2023-11-14T22:13:20.000Z');
+    });
+
+    it('should note the fetch time in JUnit testcases', () => {
+      const sink = createStringSink();
+      printJunit(cachedRows, {}, sink);
+      expect(sink.toString()).toContain(
+        '<system-out>offline data fetched 2023-11-14T22:13:20.000Z (3d ago)</system-out>',
+      );
+    });
+
+    it('should add a Cached column to the HTML report', () => {
+      const sink = createStringSink();
+      printHtml(cachedRows, {}, sink);
+      expect(sink.toString()).toContain('<th>Cached</th>');
+      expect(sink.toString()).toContain('<td class="num cached">3d ago</td>');
+    });
+
+    it('should not add the column for live data', () => {
+      const sink = createStringSink();
+      printMarkdown(mockRows, false, sink);
+      expect(sink.toString()).not.toContain('Cached');
+    });
+  });
+
+  describe('workspace rows', () => {
+    const workspaceRows: Row[] = [
+      { ...mockRows[0], Workspace: '@acme/app', _package_dir: 'apps/app' },
+      { ...mockRows[1], Workspace: '@acme/lib', _package_dir: 'libs/lib' },
+    ];
+
+    it('should add a leading Workspace column to tabular output', () => {
+      const plain = createStringSink();
+      printPlain(workspaceRows, false, plain);
+      const [header, , first] = plain.toString().split('\n');
+      expect(header).toMatch(/^Workspace\s+Package\s+Current/);
+      expect(first).toMatch(/^@acme\/app\s+package-a\s+1\.0\.0/);
+
+      const md = createStringSink();
+      printMarkdown(workspaceRows, false, md);
+      expect(md.toString()).toContain(
+        '| Workspace | Package | Current | Latest | To Latest | Published | Age(d) | # |',
+      );
+      expect(md.toString()).toContain('| @acme/lib | package-b | 2.0.0 |');
+
+      const csv = createStringSink();
+      printDelimited(workspaceRows, false, ',', csv);
+      expect(csv.toString().split('\n')[1]).toMatch(/^@acme\/app,package-a,/);
+    });
+
+    it('should include the workspace in JSON and SARIF reports', () => {
+      expect(buildJsonReport(workspaceRows).packages[1].workspace).toBe(
+        '@acme/lib',
+      );
+
+      const [result] = buildSarifReport(workspaceRows, {
+        'package.json': '{}',
+        'apps/app/package.json':
+          '{\n  "dependencies": {\n    "package-a": "^1.0.0"\n  }\n}',
+      }).runs[0].results;
+      expect(result.message.text).toContain('package-a 1.0.0 in @acme/app');
+      expect(result.properties.workspace).toBe('@acme/app');
+      expect(result.locations[0].physicalLocation).toEqual({
+        artifactLocation: { uri: 'apps/app/package.json' },
+        region: { startLine: 3, startColumn: 5 },
+      });
+    });
+
+    it('should group JUnit testcases into one testsuite per workspace', () => {
+      const sink = createStringSink();
+      printJunit(
+        workspaceRows,
+        {
+          upToDate: [{ name: 'lodash', workspace: '@acme/lib' }],
+          unresolved,
+        },
+        sink,
+      );
+      const xml = sink.toString();
+      expect(xml).toContain(
+        '<testsuites name="outdated-plus" tests="4" failures="1" errors="1" skipped="0">',
+      );
+      expect(xml).toMatch(
+        /<testsuite name="@acme\/app" tests="1" failures="1" errors="0" skipped="0"/,
+      );
+      expect(xml).toMatch(
+        /<testsuite name="@acme\/lib" tests="2" failures="0" errors="0" skipped="0"[^]*name="lodash"/,
+      );
+      expect(xml).toMatch(
+        /<testsuite name="dependencies" tests="1" failures="0" errors="1"/,
+      );
+    });
+
+    it('should add a Workspace column to the HTML report', () => {
+      const sink = createStringSink();
+      printHtml(workspaceRows, {}, sink);
+      expect(sink.toString()).toContain(
+        '<th>Workspace</th><th data-sort="name">Package</th>',
+      );
+      expect(sink.toString()).toContain('<td class="workspace">@acme/app</td>');
+    });
+
+    it('should not add the column outside workspace checks', () => {
+      const sink = createStringSink();
+      printMarkdown(mockRows, false, sink);
+      expect(sink.toString()).not.toContain('Workspace');
+      expect(buildJsonReport(mockRows).packages[0].workspace).toBeNull();
+    });
+  });
+
+  describe('project rows', () => {
+    const projectRows: Row[] = [
+      { ...mockRows[0], Project: '.', _package_dir: '.' },
+      { ...mockRows[1], Project: 'services/api', _package_dir: 'services/api' },
+    ];
+    const mismatches: VersionMismatch[] = [
+      {
+        name: 'lodash',
+        latest: '4.17.21',
+        versions: [
+          { version: '4.17.21', projects: ['.', 'services/web'] },
+          { version: '3.10.1', projects: ['services/api'] },
+        ],
+      },
+    ];
+
+    it('should add a leading Project column to tabular and HTML output', () => {
+      const plain = createStringSink();
+      printPlain(projectRows, false, plain);
+      const [header, , , second] = plain.toString().split('\n');
+      expect(header).toMatch(/^Project\s+Package\s+Current/);
+      expect(second).toMatch(/^services\/api\s+package-b\s+2\.0\.0/);
+
+      const html = createStringSink();
+      printHtml(projectRows, {}, html);
+      expect(html.toString()).toContain(
+        '<th>Project</th><th data-sort="name">Package</th>',
+      );
+      expect(html.toString()).toContain(
+        '<td class="project">services/api</td>',
+      );
+    });
+
+    it('should point SARIF results at the project package.json', () => {
+      const results = buildSarifReport(projectRows, {
+        'package.json': '{}',
+        'services/api/package.json': '{}',
+      }).runs[0].results;
+      expect(
+        results.map(
+          (r) => r.locations[0].physicalLocation.artifactLocation.uri,
+        ),
+      ).toEqual(['package.json', 'services/api/package.json']);
+      expect(results[1].message.text).toContain(
+        'package-b 2.0.0 in services/api',
+      );
+      expect(results[1].properties.project).toBe('services/api');
+      expect(buildJsonReport(projectRows).packages[1].project).toBe(
+        'services/api',
+      );
+    });
+
+    it('should group JUnit testcases by project', () => {
+      const sink = createStringSink();
+      printJunit(
+        projectRows,
+        { upToDate: [{ name: 'lodash', project: 'services/api' }] },
+        sink,
+      );
+      expect(sink.toString()).toMatch(
+        /<testsuite name="services\/api" tests="2" failures="0"/,
+      );
+    });
+
+    it('should print version mismatches after the table', () => {
+      const plain = createStringSink();
+      printVersionMismatches(mismatches, 'plain', plain);
+      expect(plain.toString()).toContain(
+        '1 package(s) with different versions across projects:',
+      );
+      expect(plain.toString()).toContain(
+        'lodash  4.17.21 (., services/web), 3.10.1 (services/api)  latest 4.17.21',
+      );
+
+      const md = createStringSink();
+      printVersionMismatches(mismatches, 'md', md);
+      expect(md.toString()).toContain('### Different versions across projects');
+      expect(md.toString()).toContain(
+        '| lodash | 3.10.1 | services/api | 4.17.21 |',
+      );
+    });
+
+    it('should include version mismatches in JSON and HTML reports', () => {
+      expect(buildJsonReport(projectRows, [], [], mismatches).mismatches).toBe(
+        mismatches,
+      );
+      expect(buildJsonReport(mockRows).mismatches).toEqual([]);
+
+      const sink = createStringSink();
+      printHtml(projectRows, { mismatches }, sink);
+      expect(sink.toString()).toContain(
+        '<h2>Different versions across projects</h2>',
+      );
+    });
+
+    it('should print nothing without mismatches', () => {
+      const sink = createStringSink();
+      printVersionMismatches([], 'md', sink);
+      expect(sink.toString()).toBe('');
+    });
+  });
+
   describe('Output consistency', () => {
     it('should have same number of columns across all formats', () => {
       const plainSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
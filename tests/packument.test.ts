@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { PackumentParser, readPackumentBody } from '../src/lib/packument.js';
+import type { HttpResponse } from '../src/lib/types.js';
+
+const document = JSON.stringify({
+  _id: 'demo',
+  name: 'demo',
+  'dist-tags': { latest: '2.0.0', next: '3.0.0-beta.1' },
+  versions: {
+    '1.0.0': { name: 'demo', description: 'has "quotes" and {braces}' },
+    '2.0.0': { name: 'demo', scripts: { test: 'echo \\\\ done' } },
+    '3.0.0-beta.1': { name: 'demo', keywords: ['a', 'b'] },
+  },
+  time: {
+    created: '2020-01-01T00:00:00.000Z',
+    '1.0.0': '2020-01-01T00:00:00.000Z',
+    '2.0.0': '2021-01-01T00:00:00.000Z',
+  },
+  readme: 'x'.repeat(1000),
+});
+
+function parse(chunks: string[]) {
+  const parser = new PackumentParser();
+  for (const chunk of chunks) {
+    parser.write(chunk);
+  }
+  return parser.end(chunks.join('').length);
+}
+
+describe('PackumentParser', () => {
+  it('should keep dist-tags and time and collect version keys', () => {
+    const body = parse([document]);
+
+    expect(body.data).toEqual({
+      'dist-tags': { latest: '2.0.0', next: '3.0.0-beta.1' },
+      time: {
+        created: '2020-01-01T00:00:00.000Z',
+        '1.0.0': '2020-01-01T00:00:00.000Z',
+        '2.0.0': '2021-01-01T00:00:00.000Z',
+      },
+    });
+    expect(body.versions).toEqual(['1.0.0', '2.0.0', '3.0.0-beta.1']);
+    expect(body.skippedBytes).toBeGreaterThan(1000);
+  });
+
+  it('should produce the same result for every chunk boundary', () => {
+    const expected = parse([document]);
+    for (let i = 1; i < document.length; i += 7) {
+      const body = parse([document.slice(0, i), document.slice(i)]);
+      expect(body.data).toEqual(expected.data);
+      expect(body.versions).toEqual(expected.versions);
+    }
+  });
+
+  it('should decode escaped keys', () => {
+    const body = parse(['{"dist-tags":{"latest":"1.0.0"},"\\u0074ime":{}}']);
+    expect(body.data).toEqual({ 'dist-tags': { latest: '1.0.0' }, time: {} });
+  });
+
+  it('should return no data for documents that are not objects', () => {
+    expect(parse(['["dist-tags"]']).data).toBeNull();
+    expect(parse(['"text"']).data).toBeNull();
+  });
+
+  it('should reject truncated documents', () => {
+    expect(() => parse([document.slice(0, 100)])).toThrow(SyntaxError);
+  });
+});
+
+describe('readPackumentBody', () => {
+  it('should stream the body and count bytes', async () => {
+    const bytes = new TextEncoder().encode(
+      document.replace('"name":"demo"', '"name":"démo"'),
+    );
+    const response: HttpResponse = {
+      ok: true,
+      status: 200,
+      headers: { get: () => null },
+      json: () => Promise.reject(new Error('not used')),
+      body: (async function* () {
+        // Split inside the two-byte "é"
+        const split = bytes.indexOf(0xc3) + 1;
+        yield bytes.slice(0, split);
+        yield bytes.slice(split);
+      })(),
+    };
+
+    const body = await readPackumentBody(response);
+    expect(body.bytes).toBe(bytes.byteLength);
+    expect(body.versions).toHaveLength(3);
+  });
+
+  it('should fall back to json() without a body stream', async () => {
+    const response: HttpResponse = {
+      ok: true,
+      status: 200,
+      headers: { get: () => null },
+      json: () => Promise.resolve({ 'dist-tags': { latest: '1.0.0' } }),
+    };
+
+    const body = await readPackumentBody(response);
+    expect(body.data).toEqual({ 'dist-tags': { latest: '1.0.0' } });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { ParseError } from '../src/lib/errors.js';
+import {
+  evaluateFailOn,
+  formatViolations,
+  parseFailOn,
+} from '../src/lib/policy.js';
+import type { BumpType, Row } from '../src/lib/types.js';
+
+function row(name: string, toLatest: BumpType, ageLatest: number): Row {
+  return {
+    Package: name,
+    Current: '1.0.0',
+    Wanted: '1.0.0',
+    ToWanted: 'same',
+    Latest: '2.0.0',
+    ToLatest: toLatest,
+    PublishedWanted: '-',
+    AgeWanted: '-',
+    PublishedLatest: '-',
+    AgeLatest: String(ageLatest),
+    _name: name,
+    _published_wanted: 0,
+    _published_latest: 0,
+    _age_wanted: Number.POSITIVE_INFINITY,
+    _age_latest: ageLatest,
+    _latest: '2.0.0',
+  };
+}
+
+describe('parseFailOn', () => {
+  it('should parse bump type conditions', () => {
+    expect(parseFailOn('major,minor')).toEqual([
+      { kind: 'bump', bump: 'major', source: 'major' },
+      { kind: 'bump', bump: 'minor', source: 'minor' },
+    ]);
+  });
+
+  it('should parse threshold conditions', () => {
+    expect(parseFailOn('age>180, count > 10')).toEqual([
+      { kind: 'age', days: 180, source: 'age>180' },
+      { kind: 'count', count: 10, source: 'count > 10' },
+    ]);
+  });
+
+  it('should ignore empty entries', () => {
+    expect(parseFailOn('major,,')).toHaveLength(1);
+  });
+
+  it('should reject unknown conditions', () => {
+    expect(() => parseFailOn('huge')).toThrow(ParseError);
+    expect(() => parseFailOn('age<5')).toThrow(
+      "Invalid --fail-on condition 'age<5'",
+    );
+  });
+});
+
+describe('evaluateFailOn', () => {
+  const rows = [
+    row('a', 'major', 400),
+    row('b', 'minor', 100),
+    row('c', 'patch', 10),
+  ];
+
+  it('should return no violations without rules', () => {
+    expect(evaluateFailOn(rows, [])).toEqual([]);
+  });
+
+  it('should trip bump rules on that bump type or larger', () => {
+    const [violation] = evaluateFailOn(rows, parseFailOn('minor'));
+    expect(violation.rule).toBe('minor');
+    expect(violation.packages).toEqual(['a', 'b']);
+  });
+
+  it('should not trip bump rules without matching rows', () => {
+    expect(
+      evaluateFailOn([row('c', 'patch', 10)], parseFailOn('major')),
+    ).toEqual([]);
+  });
+
+  it('should trip age rules on the age of the latest version', () => {
+    const [violation] = evaluateFailOn(rows, parseFailOn('age>90'));
+    expect(violation.packages).toEqual(['a', 'b']);
+    expect(
+      evaluateFailOn(
+        [row('x', 'major', Number.POSITIVE_INFINITY)],
+        parseFailOn('age>90'),
+      ),
+    ).toEqual([]);
+  });
+
+  it('should trip count rules when more rows are reported', () => {
+    expect(evaluateFailOn(rows, parseFailOn('count>3'))).toEqual([]);
+    const [violation] = evaluateFailOn(rows, parseFailOn('count>2'));
+    expect(violation.message).toBe('3 outdated package(s), more than 2');
+  });
+
+  it('should report every tripped rule', () => {
+    const violations = evaluateFailOn(
+      rows,
+      parseFailOn('major,age>1000,count>1'),
+    );
+    expect(violations.map((v) => v.rule)).toEqual(['major', 'count>1']);
+  });
+});
+
+describe('formatViolations', () => {
+  it('should summarize tripped rules and affected packages', () => {
+    const names = ['a', 'b', 'c', 'd', 'e', 'f', 'g'];
+    const summary = formatViolations(
+      evaluateFailOn(
+        names.map((n) => row(n, 'major', 1)),
+        parseFailOn('major'),
+      ),
+    );
+    expect(summary).toBe(
+      'Policy violation: 1 rule(s) tripped\n' +
+        '  --fail-on major: 7 package(s) with a major or larger update (a, b, c, d, e, +2 more)',
+    );
+  });
+});
@@ -1,6 +1,21 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
-import { buildRows, sortRows } from '../src/lib/processing.js';
-import type { Meta, OutdatedMap, Row } from '../src/lib/types.js';
+import {
+  buildProjectRows,
+  buildRows,
+  buildWorkspaceRows,
+  findProjectSkippedPackages,
+  findSkippedPackages,
+  findWorkspaceSkippedPackages,
+  mergeOutdatedMaps,
+  sortRows,
+} from '../src/lib/processing.js';
+import type {
+  Meta,
+  OutdatedMap,
+  ProjectResult,
+  Row,
+  WorkspaceResult,
+} from '../src/lib/types.js';
 
 describe('buildRows', () => {
   beforeEach(() => {
@@ -107,6 +122,25 @@ describe('buildRows', () => {
     expect(row._age_wanted).toBeGreaterThan(0);
     expect(row._age_latest).toBeGreaterThan(0);
     expect(row._latest).toBe('2.0.0');
+    expect(row._cached_at).toBeUndefined();
+    expect(row.Cached).toBeUndefined();
+  });
+
+  it('should mark rows built from locally stored metadata', () => {
+    const cachedAt = Date.parse('2023-11-28T12:00:00Z');
+    const rows = buildRows(
+      mockOutdated,
+      {
+        ...mockMetas,
+        'package-a': { ...mockMetas['package-a'], cachedAt },
+      },
+      true,
+      0,
+      false,
+    );
+    expect(rows[0]._cached_at).toBe(cachedAt);
+    expect(rows[0].Cached).toBe('3d ago');
+    expect(rows[1]._cached_at).toBeUndefined();
   });
 
   it('should skip packages in skip list', () => {
@@ -255,3 +289,195 @@ describe('sortRows', () => {
     expect(sorted[1].Package).toBe('package-a');
   });
 });
+
+describe('findSkippedPackages', () => {
+  const outdated: OutdatedMap = {
+    react: { current: '18.2.0', wanted: '18.2.0', latest: '19.0.0' },
+    vue: { current: '3.0.0', wanted: '3.1.0', latest: '3.4.0' },
+  };
+
+  it('should return entries that hide an outdated package', () => {
+    expect(findSkippedPackages(outdated, ['react', 'lodash'])).toEqual([
+      {
+        name: 'react',
+        entry: 'react',
+        reason: 'Skipped via .outdated-plus-skip entry react',
+      },
+    ]);
+  });
+
+  it('should honour version-specific skip entries', () => {
+    const skipped = findSkippedPackages(outdated, [
+      'react@19.0.0',
+      'vue@3.4.0',
+    ]);
+    expect(skipped.map((s) => s.entry)).toEqual(['react@19.0.0']);
+  });
+
+  it('should describe where a skip entry came from', () => {
+    const skipped = findSkippedPackages(outdated, ['react', 'vue'], {
+      commandLine: ['vue'],
+      config: [],
+      fileReason: 'Waiting for plugin support',
+    });
+    expect(skipped.map((s) => s.reason)).toEqual([
+      'Skipped via .outdated-plus-skip entry react: Waiting for plugin support',
+      'Skipped via --skip vue',
+    ]);
+  });
+
+  it('should label skip entries from the config', () => {
+    const skipped = findSkippedPackages(outdated, ['vue', 'react'], {
+      commandLine: [],
+      config: ['vue'],
+      fileReason: 'Waiting for plugin support',
+    });
+    expect(skipped.map((s) => s.reason)).toEqual([
+      'Skipped via config skip entry vue',
+      'Skipped via .outdated-plus-skip entry react: Waiting for plugin support',
+    ]);
+  });
+
+  it('should return an empty array without skip entries', () => {
+    expect(findSkippedPackages(outdated, [])).toEqual([]);
+  });
+});
+
+describe('workspace rows', () => {
+  const metas: Record<string, Meta> = {
+    react: {
+      latest: '19.0.0',
+      timeMap: { '19.0.0': '2023-11-01T00:00:00.000Z' },
+    },
+    vue: { latest: '3.4.0', timeMap: { '3.4.0': '2023-12-01T00:00:00.000Z' } },
+  };
+  const workspaces: WorkspaceResult[] = [
+    {
+      name: 'web',
+      path: 'apps/web',
+      dir: '/repo/apps/web',
+      outdated: {
+        react: { current: '18.2.0', wanted: '18.2.0', latest: '19.0.0' },
+        vue: { current: '3.0.0', wanted: '3.4.0', latest: '3.4.0' },
+      },
+      packages: ['react', 'vue'],
+    },
+    {
+      name: 'admin',
+      path: 'apps/admin',
+      dir: '/repo/apps/admin',
+      outdated: {
+        react: { current: '17.0.0', wanted: '17.0.2', latest: '19.0.0' },
+      },
+      packages: ['react'],
+    },
+  ];
+
+  it('should group rows by workspace and sort within each workspace', () => {
+    const rows = buildWorkspaceRows(
+      workspaces,
+      metas,
+      true,
+      0,
+      true,
+      [],
+      'name',
+      'desc',
+    );
+    expect(rows.map((r) => [r.Workspace, r.Package, r.Current])).toEqual([
+      ['web', 'vue', '3.0.0'],
+      ['web', 'react', '18.2.0'],
+      ['admin', 'react', '17.0.0'],
+    ]);
+    expect(rows[2]._package_dir).toBe('apps/admin');
+  });
+
+  it('should report skip entries per workspace', () => {
+    expect(
+      findWorkspaceSkippedPackages(workspaces, ['react'], {
+        commandLine: ['react'],
+        config: [],
+      }),
+    ).toEqual([
+      {
+        name: 'react',
+        entry: 'react',
+        reason: 'Skipped via --skip react',
+        workspace: 'web',
+      },
+      {
+        name: 'react',
+        entry: 'react',
+        reason: 'Skipped via --skip react',
+        workspace: 'admin',
+      },
+    ]);
+  });
+});
+
+describe('project rows', () => {
+  const metas: Record<string, Meta> = {
+    react: {
+      latest: '19.0.0',
+      timeMap: { '19.0.0': '2023-11-01T00:00:00.000Z' },
+    },
+  };
+  const projects: ProjectResult[] = [
+    {
+      name: 'root',
+      path: '.',
+      dir: '/repo',
+      outdated: {
+        react: { current: '18.2.0', wanted: '18.2.0', latest: '19.0.0' },
+      },
+      packages: ['react'],
+      installed: { react: '18.2.0' },
+    },
+    {
+      name: 'api',
+      path: 'services/api',
+      dir: '/repo/services/api',
+      outdated: {
+        react: { current: '17.0.2', wanted: '17.0.2', latest: '19.0.0' },
+      },
+      packages: ['react'],
+      installed: { react: '17.0.2' },
+    },
+  ];
+
+  it('should tag rows and skipped packages with the project path', () => {
+    const rows = buildProjectRows(
+      projects,
+      metas,
+      true,
+      0,
+      true,
+      [],
+      'name',
+      'asc',
+    );
+    expect(rows.map((r) => [r.Project, r._package_dir, r.Current])).toEqual([
+      ['.', '.', '18.2.0'],
+      ['services/api', 'services/api', '17.0.2'],
+    ]);
+    expect(rows[0].Workspace).toBeUndefined();
+
+    expect(
+      findProjectSkippedPackages(projects, ['react']).map((s) => s.project),
+    ).toEqual(['.', 'services/api']);
+  });
+});
+
+describe('mergeOutdatedMaps', () => {
+  it('should keep the lowest current version of each package', () => {
+    const result = (current: string) => ({
+      outdated: { react: { current, wanted: current, latest: '19.0.0' } },
+    });
+
+    expect(
+      mergeOutdatedMaps([result('18.2.0'), result('17.0.2'), result('18.0.0')]),
+    ).toEqual({
+      react: { current: '17.0.2', wanted: '17.0.2', latest: '19.0.0' },
+    });
+  });
+});
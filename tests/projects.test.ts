@@ -0,0 +1,189 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  findLockfileDir,
+  findProjects,
+  findVersionMismatches,
+  isIgnored,
+  parseGitignore,
+  projectOutdated,
+} from '../src/lib/projects.js';
+import type { ProjectResult } from '../src/lib/types.js';
+
+describe('gitignore matching', () => {
+  it('should match names at any depth and anchored paths below the base', () => {
+    const rules = parseGitignore(
+      '# build output\n\ndist/\n/fixtures\nsrc/**/generated\n*.tmp\n',
+    );
+    expect(isIgnored('dist', rules)).toBe(true);
+    expect(isIgnored('packages/app/dist', rules)).toBe(true);
+    expect(isIgnored('fixtures', rules)).toBe(true);
+    expect(isIgnored('test/fixtures', rules)).toBe(false);
+    expect(isIgnored('src/generated', rules)).toBe(true);
+    expect(isIgnored('src/a/b/generated', rules)).toBe(true);
+    expect(isIgnored('cache.tmp', rules)).toBe(true);
+    expect(isIgnored('packages/app', rules)).toBe(false);
+  });
+
+  it('should re-include negated patterns and scope nested files', () => {
+    const rules = [
+      ...parseGitignore('examples/*\n!examples/keep\n'),
+      ...parseGitignore('legacy', 'apps'),
+    ];
+    expect(isIgnored('examples/demo', rules)).toBe(true);
+    expect(isIgnored('examples/keep', rules)).toBe(false);
+    expect(isIgnored('apps/legacy', rules)).toBe(true);
+    expect(isIgnored('legacy', rules)).toBe(false);
+  });
+
+  it('should support ? and character classes', () => {
+    const rules = parseGitignore('tmp?\nv[0-9]\n');
+    expect(isIgnored('tmp1', rules)).toBe(true);
+    expect(isIgnored('tmp', rules)).toBe(false);
+    expect(isIgnored('v2', rules)).toBe(true);
+    expect(isIgnored('vx', rules)).toBe(false);
+  });
+});
+
+describe('project discovery', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'outdated-plus-projects-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writePackage(path: string, data: unknown): void {
+    mkdirSync(join(dir, path), { recursive: true });
+    writeFileSync(join(dir, path, 'package.json'), JSON.stringify(data));
+  }
+
+  it('should find projects, skipping ignored, hidden and node_modules directories', () => {
+    writePackage('.', { name: 'root' });
+    writePackage('services/api', { name: '@acme/api' });
+    writePackage('services/web', {});
+    writePackage('services/api/node_modules/lodash', { name: 'lodash' });
+    writePackage('.cache/tool', { name: 'tool' });
+    writePackage('build/copy', { name: 'copy' });
+    writePackage('services/old', { name: 'old' });
+    writeFileSync(join(dir, '.gitignore'), 'build/\n');
+    writeFileSync(join(dir, 'services/.gitignore'), 'old\n');
+
+    expect(findProjects(dir)).toEqual([
+      { name: 'root', path: '.', dir },
+      {
+        name: '@acme/api',
+        path: 'services/api',
+        dir: join(dir, 'services/api'),
+      },
+      {
+        name: 'services/web',
+        path: 'services/web',
+        dir: join(dir, 'services/web'),
+      },
+    ]);
+  });
+
+  it('should use the nearest lockfile up to the root', () => {
+    writePackage('.', {});
+    writePackage('packages/a', {});
+    writePackage('standalone', {});
+    writePackage('tools', {});
+    writeFileSync(join(dir, 'package-lock.json'), '{}');
+    writeFileSync(join(dir, 'standalone/package-lock.json'), '{}');
+    writeFileSync(join(dir, 'tools/pnpm-lock.yaml'), '');
+
+    expect(findLockfileDir(dir, 'packages/a')).toBe('.');
+    expect(findLockfileDir(dir, 'standalone')).toBe('standalone');
+    expect(findLockfileDir(dir, 'tools')).toBe('tools');
+    expect(findLockfileDir(dir, '.')).toBe('.');
+
+    rmSync(join(dir, 'package-lock.json'));
+    expect(findLockfileDir(dir, 'packages/a')).toBe('packages/a');
+  });
+});
+
+describe('projectOutdated', () => {
+  const project = { name: 'ws-a', path: 'packages/a', dir: '/repo/packages/a' };
+
+  it('should keep the entries of the project by package or folder name', () => {
+    const data = {
+      'left-pad': [
+        { current: '1.0.0', wanted: '1.0.0', latest: '1.3.0', dependent: 'a' },
+        { current: '1.1.3', wanted: '1.1.3', latest: '1.3.0', dependent: 'b' },
+      ],
+      'is-number': {
+        current: '6.0.0',
+        wanted: '6.0.0',
+        latest: '7.0.0',
+        dependent: 'b',
+      },
+      react: {
+        current: '18.0.0',
+        wanted: '18.3.1',
+        latest: '19.0.0',
+        dependent: 'ws-a',
+      },
+      vue: { current: '3.0.0', wanted: '3.4.0', latest: '3.4.0' },
+      invalid: { current: 1 },
+    };
+
+    expect(projectOutdated(data, project)).toEqual({
+      'left-pad': { current: '1.0.0', wanted: '1.0.0', latest: '1.3.0' },
+      react: { current: '18.0.0', wanted: '18.3.1', latest: '19.0.0' },
+      vue: { current: '3.0.0', wanted: '3.4.0', latest: '3.4.0' },
+    });
+    expect(projectOutdated(null, project)).toEqual({});
+  });
+});
+
+describe('findVersionMismatches', () => {
+  const project = (
+    path: string,
+    installed: Record<string, string>,
+  ): ProjectResult => ({
+    name: path,
+    path,
+    dir: `/repo/${path}`,
+    outdated: {},
+    packages: [],
+    installed,
+  });
+
+  it('should list packages installed in different versions, highest first', () => {
+    const mismatches = findVersionMismatches(
+      [
+        project('.', { lodash: '4.17.21', react: '18.2.0' }),
+        project('services/api', { lodash: '3.10.1', react: '18.2.0' }),
+        project('services/web', { lodash: '4.17.21', zod: '3.0.0' }),
+        project('tools', { lodash: '4.2.0' }),
+      ],
+      { lodash: { latest: '4.17.21', timeMap: {} } },
+    );
+
+    expect(mismatches).toEqual([
+      {
+        name: 'lodash',
+        latest: '4.17.21',
+        versions: [
+          { version: '4.17.21', projects: ['.', 'services/web'] },
+          { version: '4.2.0', projects: ['tools'] },
+          { version: '3.10.1', projects: ['services/api'] },
+        ],
+      },
+    ]);
+  });
+
+  it('should leave latest empty when it was not looked up', () => {
+    const [mismatch] = findVersionMismatches([
+      project('a', { zod: '3.0.0' }),
+      project('b', { zod: '3.1.0' }),
+    ]);
+    expect(mismatch.latest).toBeNull();
+  });
+});
@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NetworkError, RegistryError, TlsError } from '../src/lib/errors.js';
+import {
+  DEFAULT_RETRY_CONFIG,
+  getRetryConfig,
+  isRetryable,
+  isThrottled,
+  parseRetryAfter,
+  retryDelay,
+  withRetries,
+} from '../src/lib/retry.js';
+
+describe('getRetryConfig', () => {
+  it('should use defaults without .npmrc settings', () => {
+    expect(getRetryConfig({})).toEqual(DEFAULT_RETRY_CONFIG);
+  });
+
+  it('should read fetch-retry settings', () => {
+    expect(
+      getRetryConfig({
+        'fetch-retries': '5',
+        'fetch-retry-factor': '3',
+        'fetch-retry-mintimeout': '200',
+        'fetch-retry-maxtimeout': 'invalid',
+      }),
+    ).toEqual({
+      retries: 5,
+      factor: 3,
+      minTimeoutMs: 200,
+      maxTimeoutMs: DEFAULT_RETRY_CONFIG.maxTimeoutMs,
+    });
+  });
+});
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2025-01-01T00:00:00Z');
+
+  it('should parse seconds and HTTP dates', () => {
+    expect(parseRetryAfter('120', now)).toBe(120_000);
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:30 GMT', now)).toBe(30_000);
+    expect(parseRetryAfter('Tue, 31 Dec 2024 00:00:00 GMT', now)).toBe(0);
+  });
+
+  it('should return null for missing or invalid values', () => {
+    expect(parseRetryAfter(null, now)).toBeNull();
+    expect(parseRetryAfter('soon', now)).toBeNull();
+  });
+});
+
+describe('retryDelay', () => {
+  const config = {
+    retries: 5,
+    factor: 2,
+    minTimeoutMs: 1000,
+    maxTimeoutMs: 5000,
+  };
+
+  it('should grow exponentially with jitter and respect the maximum', () => {
+    expect(retryDelay(0, config, () => 0)).toBe(500);
+    expect(retryDelay(0, config, () => 0.999)).toBe(1000);
+    expect(retryDelay(2, config, () => 0)).toBe(2000);
+    expect(retryDelay(10, config, () => 0.999)).toBe(4998);
+  });
+});
+
+describe('isRetryable / isThrottled', () => {
+  it('should retry timeouts, connection failures and 408/429/5xx responses', () => {
+    expect(isRetryable(new NetworkError('Request timeout'))).toBe(true);
+    expect(isRetryable(new NetworkError('x', 'u', 503))).toBe(true);
+    expect(isRetryable(new NetworkError('x', 'u', 429))).toBe(true);
+    expect(isRetryable(new NetworkError('x', 'u', 401))).toBe(false);
+    expect(isRetryable(new TlsError('x', 'CERT_HAS_EXPIRED'))).toBe(false);
+    expect(isRetryable(new RegistryError('Package not found', 'x'))).toBe(
+      false,
+    );
+  });
+
+  it('should detect throttling', () => {
+    expect(isThrottled(new NetworkError('x', 'u', 429))).toBe(true);
+    expect(isThrottled(new NetworkError('x', 'u', 503))).toBe(true);
+    expect(isThrottled(new NetworkError('x', 'u', 500))).toBe(false);
+  });
+});
+
+describe('withRetries', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should wait for Retry-After before retrying', async () => {
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(new NetworkError('x', 'u', 429, undefined, 5000))
+      .mockResolvedValueOnce('ok');
+    const onRetry = vi.fn();
+
+    const result = withRetries(operation, DEFAULT_RETRY_CONFIG, onRetry);
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toBe('ok');
+    expect(onRetry).toHaveBeenCalledWith(expect.any(NetworkError), 5000);
+  });
+
+  it('should stop waiting for a retry when the signal is aborted', async () => {
+    const operation = vi.fn().mockRejectedValue(new NetworkError('x'));
+    const controller = new AbortController();
+    const reason = new Error('cancelled');
+
+    const result = withRetries(
+      operation,
+      DEFAULT_RETRY_CONFIG,
+      undefined,
+      controller.signal,
+    );
+    const assertion = expect(result).rejects.toBe(reason);
+    await vi.advanceTimersByTimeAsync(100);
+    controller.abort(reason);
+
+    await assertion;
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry when retries are disabled', async () => {
+    const operation = vi.fn().mockRejectedValue(new NetworkError('x'));
+    await expect(
+      withRetries(operation, { ...DEFAULT_RETRY_CONFIG, retries: 0 }),
+    ).rejects.toThrow('x');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createFetchStats,
+  formatBytes,
+  formatFetchStats,
+  recordDownload,
+} from '../src/lib/stats.js';
+
+describe('formatBytes', () => {
+  it('should use binary units', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(2048)).toBe('2.0 KB');
+    expect(formatBytes(5 * 1024 * 1024)).toBe('5.0 MB');
+  });
+});
+
+describe('formatFetchStats', () => {
+  it('should summarize requests, bytes and savings', () => {
+    const stats = createFetchStats();
+    stats.packages = 3;
+    stats.cacheHits = 1;
+    recordDownload(
+      stats,
+      false,
+      { data: {}, versions: [], bytes: 4096, skippedBytes: 3072 },
+      100,
+    );
+    recordDownload(
+      stats,
+      true,
+      { data: {}, versions: [], bytes: 1024, skippedBytes: 0 },
+      100,
+    );
+    stats.savedBytes = 4096;
+
+    expect(formatFetchStats(stats, 1500)).toBe(
+      [
+        'Stats: 3 package(s), 2 request(s) (1 abbreviated, 1 full) in 1.5s',
+        '  Downloaded: 5.0 KB, 3.0 KB skipped while parsing',
+        '  Cache: 1 fresh, 0 not modified',
+        '  Retries: 0 (0 throttled)',
+        '  Saved: ~4.0 KB (~0.2s)',
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,96 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TlsError } from '../src/lib/errors.js';
+import {
+  DEFAULT_TLS_CONFIG,
+  getTlsConfig,
+  hasCustomTls,
+  splitCertificates,
+} from '../src/lib/tls.js';
+
+const cert = (name: string): string =>
+  `-----BEGIN CERTIFICATE-----\n${name}\n-----END CERTIFICATE-----`;
+
+describe('splitCertificates', () => {
+  it('should split a PEM bundle', () => {
+    expect(splitCertificates(`${cert('A')}\n\n${cert('B')}\n`)).toEqual([
+      cert('A'),
+      cert('B'),
+    ]);
+  });
+
+  it('should accept escaped newlines from .npmrc values', () => {
+    expect(
+      splitCertificates(
+        '-----BEGIN CERTIFICATE-----\\nA\\n-----END CERTIFICATE-----',
+      ),
+    ).toEqual([cert('A')]);
+  });
+
+  it('should return an empty list for text without certificates', () => {
+    expect(splitCertificates('nothing here')).toEqual([]);
+  });
+});
+
+describe('getTlsConfig', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'outdated-plus-tls-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should default to the built-in CA list with strict SSL', () => {
+    expect(getTlsConfig({}, {})).toEqual(DEFAULT_TLS_CONFIG);
+  });
+
+  it('should read certificates from cafile', () => {
+    const path = join(dir, 'ca.pem');
+    writeFileSync(path, `${cert('A')}\n${cert('B')}\n`);
+    expect(getTlsConfig({ cafile: path }, {}).ca).toEqual([
+      cert('A'),
+      cert('B'),
+    ]);
+  });
+
+  it('should read inline ca values', () => {
+    expect(getTlsConfig({ ca: `${cert('A')}\n${cert('B')}` }, {}).ca).toEqual([
+      cert('A'),
+      cert('B'),
+    ]);
+  });
+
+  it('should add NODE_EXTRA_CA_CERTS to a configured CA list', () => {
+    const extra = join(dir, 'extra.pem');
+    writeFileSync(extra, cert('EXTRA'));
+    expect(
+      getTlsConfig({ ca: cert('A') }, { NODE_EXTRA_CA_CERTS: extra }).ca,
+    ).toEqual([cert('A'), cert('EXTRA')]);
+  });
+
+  it('should disable certificate checks with strict-ssl=false', () => {
+    expect(getTlsConfig({ 'strict-ssl': 'false' }, {})).toEqual({
+      ca: null,
+      strictSsl: false,
+    });
+  });
+
+  it('should throw a TlsError for an unreadable cafile', () => {
+    expect(() =>
+      getTlsConfig({ cafile: join(dir, 'missing.pem') }, {}),
+    ).toThrow(TlsError);
+  });
+});
+
+describe('hasCustomTls', () => {
+  it('should detect non-default settings', () => {
+    expect(hasCustomTls(DEFAULT_TLS_CONFIG)).toBe(false);
+    expect(hasCustomTls({ ca: [cert('A')], strictSsl: true })).toBe(true);
+    expect(hasCustomTls({ ca: null, strictSsl: false })).toBe(true);
+  });
+});
@@ -5,7 +5,9 @@ import {
   daysAgo,
   extractLatestVersion,
   extractTimeMap,
+  findDependencyLine,
   fmtTime,
+  formatCacheAge,
   isValidNpmRegistryResponse,
   isVersionHigher,
   parseIsoZ,
@@ -70,6 +72,21 @@ describe('daysAgo', () => {
   });
 });
 
+describe('formatCacheAge', () => {
+  const now = Date.parse('2024-01-10T12:00:00Z');
+
+  it('should use minutes, hours and days', () => {
+    expect(formatCacheAge(now - 5 * 60_000, now)).toBe('5m ago');
+    expect(formatCacheAge(now - 3 * 3_600_000, now)).toBe('3h ago');
+    expect(formatCacheAge(now - 47 * 3_600_000, now)).toBe('47h ago');
+    expect(formatCacheAge(now - 3 * 86_400_000, now)).toBe('3d ago');
+  });
+
+  it('should clamp future timestamps to 0m', () => {
+    expect(formatCacheAge(now + 60_000, now)).toBe('0m ago');
+  });
+});
+
 describe('fmtTime', () => {
   beforeEach(() => {
     vi.useFakeTimers();
@@ -468,3 +485,42 @@ describe('extractTimeMap', () => {
     expect(extractTimeMap(response)).toEqual({});
   });
 });
+
+describe('findDependencyLine', () => {
+  const content = [
+    '{',
+    '  "name": "react",',
+    '  "dependencies": {',
+    '    "react": "^18.0.0",',
+    '    "@scope/pkg": "1.0.0"',
+    '  },',
+    '  "devDependencies": { "vitest": "^1.0.0" },',
+    '  "scripts": {',
+    '    "lint": "eslint ."',
+    '  }',
+    '}',
+  ].join('\n');
+
+  it('should find a dependency inside a dependency section', () => {
+    expect(findDependencyLine(content, 'react')).toEqual({
+      line: 4,
+      column: 5,
+    });
+  });
+
+  it('should find scoped packages', () => {
+    expect(findDependencyLine(content, '@scope/pkg')).toEqual({
+      line: 5,
+      column: 5,
+    });
+  });
+
+  it('should find dependencies in single-line sections', () => {
+    expect(findDependencyLine(content, 'vitest')?.line).toBe(7);
+  });
+
+  it('should return null for unknown packages', () => {
+    expect(findDependencyLine(content, 'vue')).toBeNull();
+    expect(findDependencyLine('', 'react')).toBeNull();
+  });
+});
@@ -0,0 +1,175 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PackageJsonError } from '../src/lib/errors.js';
+import type { Workspace } from '../src/lib/types.js';
+import {
+  expandWorkspacePattern,
+  findWorkspaces,
+  readWorkspacePatterns,
+  selectWorkspaces,
+  splitOutdatedByWorkspace,
+} from '../src/lib/workspaces.js';
+
+describe('workspace discovery', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'outdated-plus-workspaces-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writePackage(path: string, data: unknown): void {
+    mkdirSync(join(dir, path), { recursive: true });
+    writeFileSync(join(dir, path, 'package.json'), JSON.stringify(data));
+  }
+
+  it('should read the array and the object form of workspaces', () => {
+    writePackage('.', { workspaces: ['packages/*'] });
+    expect(readWorkspacePatterns(dir)).toEqual(['packages/*']);
+
+    writePackage('.', { workspaces: { packages: ['apps/*', 'libs/*'] } });
+    expect(readWorkspacePatterns(dir)).toEqual(['apps/*', 'libs/*']);
+  });
+
+  it('should return no patterns without a workspaces field', () => {
+    writePackage('.', { name: 'root' });
+    expect(readWorkspacePatterns(dir)).toEqual([]);
+    expect(readWorkspacePatterns(join(dir, 'missing'))).toEqual([]);
+  });
+
+  it('should expand *, ** and literal segments', () => {
+    mkdirSync(join(dir, 'packages/a/nested'), { recursive: true });
+    mkdirSync(join(dir, 'packages/b'), { recursive: true });
+    mkdirSync(join(dir, 'packages/node_modules/x'), { recursive: true });
+    mkdirSync(join(dir, 'packages/.hidden'), { recursive: true });
+
+    expect(expandWorkspacePattern(dir, 'packages/*')).toEqual([
+      'packages/a',
+      'packages/b',
+    ]);
+    expect(expandWorkspacePattern(dir, './packages/**')).toEqual([
+      'packages',
+      'packages/a',
+      'packages/a/nested',
+      'packages/b',
+    ]);
+    expect(expandWorkspacePattern(dir, 'tools/cli')).toEqual(['tools/cli']);
+  });
+
+  it('should find workspaces with package.json, honouring exclusions', () => {
+    writePackage('.', {
+      workspaces: ['packages/*', 'tools/cli', '!packages/legacy'],
+    });
+    writePackage('packages/app', { name: '@acme/app' });
+    writePackage('packages/legacy', { name: '@acme/legacy' });
+    writePackage('tools/cli', {});
+    mkdirSync(join(dir, 'packages/empty'));
+
+    expect(findWorkspaces(dir)).toEqual([
+      {
+        name: '@acme/app',
+        path: 'packages/app',
+        dir: join(dir, 'packages/app'),
+      },
+      { name: 'tools/cli', path: 'tools/cli', dir: join(dir, 'tools/cli') },
+    ]);
+  });
+});
+
+describe('selectWorkspaces', () => {
+  const workspaces: Workspace[] = [
+    { name: '@acme/app', path: 'apps/app', dir: '/repo/apps/app' },
+    { name: '@acme/admin', path: 'apps/admin', dir: '/repo/apps/admin' },
+    { name: '@acme/lib', path: 'libs/lib', dir: '/repo/libs/lib' },
+  ];
+
+  it('should select all workspaces without filters', () => {
+    expect(selectWorkspaces(workspaces, [])).toEqual(workspaces);
+  });
+
+  it('should select by name, path and parent directory in project order', () => {
+    expect(
+      selectWorkspaces(workspaces, ['libs/lib', '@acme/admin']).map(
+        (ws) => ws.name,
+      ),
+    ).toEqual(['@acme/admin', '@acme/lib']);
+    expect(
+      selectWorkspaces(workspaces, ['./apps/']).map((ws) => ws.name),
+    ).toEqual(['@acme/app', '@acme/admin']);
+  });
+
+  it('should throw PackageJsonError for unknown workspaces', () => {
+    expect(() => selectWorkspaces(workspaces, ['@acme/web'])).toThrow(
+      "No workspace matches '@acme/web'",
+    );
+    expect(() => selectWorkspaces([], [])).toThrow(PackageJsonError);
+  });
+});
+
+describe('splitOutdatedByWorkspace', () => {
+  it('should split entries and arrays by dependent name or folder', () => {
+    const data = {
+      react: [
+        {
+          current: '18.2.0',
+          wanted: '18.3.1',
+          latest: '19.0.0',
+          dependent: 'web',
+          location: '/repo/node_modules/react',
+        },
+        {
+          current: '17.0.2',
+          wanted: '17.0.2',
+          latest: '19.0.0',
+          dependent: 'admin-folder',
+          location: '/repo/apps/admin-folder/node_modules/react',
+        },
+      ],
+      vue: {
+        current: '3.0.0',
+        wanted: '3.4.0',
+        latest: '3.4.0',
+        dependent: 'web',
+      },
+      ignored: {
+        current: '1.0.0',
+        wanted: '1.0.0',
+        latest: '2.0.0',
+        dependent: 'root',
+      },
+    };
+
+    const workspaces: Workspace[] = [
+      { name: 'web', path: 'apps/web', dir: '/repo/apps/web' },
+      {
+        name: 'admin',
+        path: 'apps/admin-folder',
+        dir: '/repo/apps/admin-folder',
+      },
+      { name: 'docs', path: 'docs', dir: '/repo/docs' },
+    ];
+    expect(splitOutdatedByWorkspace(data, workspaces)).toEqual({
+      web: {
+        react: { current: '18.2.0', wanted: '18.3.1', latest: '19.0.0' },
+        vue: { current: '3.0.0', wanted: '3.4.0', latest: '3.4.0' },
+      },
+      admin: {
+        react: { current: '17.0.2', wanted: '17.0.2', latest: '19.0.0' },
+      },
+      docs: {},
+    });
+  });
+
+  it('should return empty maps for invalid output', () => {
+    expect(
+      splitOutdatedByWorkspace(null, [
+        { name: 'web', path: 'web', dir: '/repo/web' },
+      ]),
+    ).toEqual({ web: {} });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { parseYaml } from '../src/lib/yaml.js';
+
+describe('parseYaml', () => {
+  it('should parse nested mappings with plain and quoted keys and scalars', () => {
+    const yaml = [
+      "lockfileVersion: '9.0'",
+      '',
+      '# comment',
+      'importers:',
+      '  .:',
+      '    dependencies:',
+      "      '@acme/lib':",
+      '        specifier: workspace:*',
+      '        version: link:../lib # local',
+      '      "react":',
+      '        version: "18.2.0"',
+      'settings:',
+      '  autoInstallPeers: true',
+      '  excludeLinksFromLockfile: false',
+      '  count: 8',
+      '  empty:',
+      "  quote: 'it''s'",
+    ].join('\n');
+
+    expect(parseYaml(yaml)).toEqual({
+      lockfileVersion: '9.0',
+      importers: {
+        '.': {
+          dependencies: {
+            '@acme/lib': { specifier: 'workspace:*', version: 'link:../lib' },
+            react: { version: '18.2.0' },
+          },
+        },
+      },
+      settings: {
+        autoInstallPeers: true,
+        excludeLinksFromLockfile: false,
+        count: 8,
+        empty: null,
+        quote: "it's",
+      },
+    });
+  });
+
+  it('should parse sequences and flow collections', () => {
+    const yaml = [
+      'os: [darwin, linux]',
+      "resolution: {integrity: sha512-abc==, tarball: 'https://x.test/a.tgz'}",
+      'list:',
+      '- a',
+      '- name: b',
+      '  version: 1.0.0',
+      'nested:',
+      '  - [1, 2]',
+    ].join('\n');
+
+    expect(parseYaml(yaml)).toEqual({
+      os: ['darwin', 'linux'],
+      resolution: {
+        integrity: 'sha512-abc==',
+        tarball: 'https://x.test/a.tgz',
+      },
+      list: ['a', { name: 'b', version: '1.0.0' }],
+      nested: [[1, 2]],
+    });
+  });
+
+  it('should stop at the next document', () => {
+    expect(parseYaml('---\na: 1\n---\nb: 2\n')).toEqual({ a: 1 });
+    expect(parseYaml('')).toBeNull();
+  });
+});